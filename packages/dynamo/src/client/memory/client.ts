@@ -0,0 +1,861 @@
+import {
+	ConditionalCheckFailedException,
+	CreateTableCommand,
+	type CreateTableCommandInput,
+	DescribeTableCommand,
+	type DescribeTableCommandInput,
+	DescribeTimeToLiveCommand,
+	type DescribeTimeToLiveCommandInput,
+	type GlobalSecondaryIndex,
+	type KeySchemaElement,
+	type LocalSecondaryIndex,
+	ResourceInUseException,
+	ResourceNotFoundException,
+	type TableDescription,
+	TransactionCanceledException,
+	UpdateTableCommand,
+	type UpdateTableCommandInput,
+	UpdateTimeToLiveCommand,
+	type UpdateTimeToLiveCommandInput,
+} from "@aws-sdk/client-dynamodb";
+import {
+	BatchGetCommand,
+	type BatchGetCommandInput,
+	DeleteCommand,
+	type DeleteCommandInput,
+	GetCommand,
+	type GetCommandInput,
+	PutCommand,
+	type PutCommandInput,
+	QueryCommand,
+	type QueryCommandInput,
+	ScanCommand,
+	type ScanCommandInput,
+	TransactWriteCommand,
+	type TransactWriteCommandInput,
+	UpdateCommand,
+	type UpdateCommandInput,
+} from "@aws-sdk/lib-dynamodb";
+import { marshall } from "@aws-sdk/util-dynamodb";
+import type { GSIDefinition, LSIDefinition } from "../../common/types.js";
+import {
+	applyUpdate,
+	type ConditionNode,
+	type ExpressionAttributes,
+	evaluateCondition,
+	getPath,
+	type Path,
+	parseCondition,
+	parseProjection,
+	parseUpdate,
+	project,
+	topLevelEqualities,
+} from "./expression.js";
+import {
+	clone,
+	compareScalars,
+	type Item,
+	itemSize,
+	keyString,
+	MAX_ITEM_SIZE,
+	readUnits,
+	typeOf,
+	validationError,
+	valuesEqual,
+	writeUnits,
+} from "./values.js";
+
+/** Key schema and indexes of a table hosted by the in-memory client */
+export interface InMemoryTableDefinition {
+	tableName: string;
+	partitionKey: string;
+	sortKey?: string;
+	gsis?: GSIDefinition[];
+	lsis?: LSIDefinition[];
+	/** Attribute TTL is enabled on; expired items are kept, as DynamoDB deletes them lazily */
+	ttlAttribute?: string;
+}
+
+export interface InMemoryClientOptions {
+	/**
+	 * Register tables automatically when a Table using this client is built
+	 * (default: true). Disable it to provision tables through `ensureTable()`.
+	 */
+	autoCreateTables?: boolean;
+}
+
+interface MemoryTable {
+	definition: InMemoryTableDefinition;
+	items: Map<string, Item>;
+}
+
+/** Key attributes and projection of the table or index a read runs against */
+interface IndexView {
+	partitionKey: string;
+	sortKey?: string;
+	entries: Item[];
+	/** Set when reading a secondary index */
+	index?: { name: string; local: boolean };
+}
+
+/** Secondary index of a table, global or local */
+interface SecondaryIndex {
+	name: string;
+	partitionKey: string;
+	sortKey?: string;
+	projectionType?: "ALL" | "KEYS_ONLY" | "INCLUDE";
+	projectedAttributes?: string[];
+	local: boolean;
+}
+
+/** Maximum amount of data evaluated by a single Query or Scan page (1 MB) */
+const MAX_PAGE_SIZE = 1024 * 1024;
+const MAX_BATCH_GET_KEYS = 100;
+const MAX_TRANSACT_ITEMS = 100;
+const MAX_TOTAL_SEGMENTS = 1_000_000;
+
+/** Segment of a parallel scan a partition belongs to (FNV-1a hash of its key) */
+const segmentOf = (partition: string, totalSegments: number) => {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < partition.length; i++) {
+		hash = Math.imul(hash ^ partition.charCodeAt(i), 0x01000193);
+	}
+	return (hash >>> 0) % totalSegments;
+};
+
+type ConditionalInput = {
+	ConditionExpression?: string;
+	ExpressionAttributeNames?: Record<string, string>;
+	ExpressionAttributeValues?: Record<string, unknown>;
+	ReturnValuesOnConditionCheckFailure?: string;
+};
+
+type CapacityInput = { ReturnConsumedCapacity?: string };
+
+type CollectionMetricsInput = { ReturnItemCollectionMetrics?: string };
+
+type TransactWriteItem = NonNullable<TransactWriteCommandInput["TransactItems"]>[number];
+
+const attributesOf = (input: {
+	ExpressionAttributeNames?: Record<string, string>;
+	ExpressionAttributeValues?: Record<string, unknown>;
+}): ExpressionAttributes => ({
+	names: input.ExpressionAttributeNames,
+	values: input.ExpressionAttributeValues,
+});
+
+/** DynamoDB rejects requests carrying placeholders that no expression uses */
+const assertPlaceholdersUsed = (
+	expressions: Array<string | undefined>,
+	names?: Record<string, string>,
+	values?: Record<string, unknown>,
+) => {
+	const text = expressions.filter(Boolean).join(" ");
+	const unusedNames = Object.keys(names ?? {}).filter((name) => !new RegExp(`${name}\\b`).test(text));
+	if (unusedNames.length) {
+		throw validationError(`Value provided in ExpressionAttributeNames unused in expressions: keys: {${unusedNames}}`);
+	}
+	const unusedValues = Object.keys(values ?? {}).filter((value) => !new RegExp(`${value}\\b`).test(text));
+	if (unusedValues.length) {
+		throw validationError(`Value provided in ExpressionAttributeValues unused in expressions: keys: {${unusedValues}}`);
+	}
+};
+
+const tick = () => new Promise<void>((resolve) => setImmediate(resolve));
+
+/**
+ * In-memory implementation of the DynamoDB document client.
+ *
+ * Understands the document commands issued by the entity builders
+ * (Get, Put, Update, Delete, Query, Scan, BatchGet and TransactWrite), including
+ * condition, key condition, filter, update and projection expressions,
+ * global and local secondary indexes, pagination, parallel scans and transaction atomicity.
+ * Failures are reported with the same exception names as DynamoDB.
+ *
+ * @example
+ * ```typescript
+ * const client = new InMemoryClient();
+ * const table = Table.connect('app-table').client(client).gsis([...]).build();
+ * ```
+ */
+export class InMemoryClient {
+	private readonly tables = new Map<string, MemoryTable>();
+	public readonly autoCreateTables: boolean;
+
+	constructor(options: InMemoryClientOptions = {}) {
+		this.autoCreateTables = options.autoCreateTables ?? true;
+	}
+
+	/**
+	 * Registers (or redefines) a table. Existing items are kept.
+	 * Tables built with `Table.client(inMemoryClient)` are registered automatically.
+	 */
+	defineTable(definition: InMemoryTableDefinition) {
+		const existing = this.tables.get(definition.tableName);
+		this.tables.set(definition.tableName, { definition, items: existing?.items ?? new Map() });
+		return this;
+	}
+
+	/** Returns a copy of every item stored in a table */
+	items(tableName: string): Item[] {
+		return [...this.table(tableName).items.values()].map(clone);
+	}
+
+	/** Removes every item from all tables, keeping their definitions */
+	reset() {
+		for (const table of this.tables.values()) table.items.clear();
+		return this;
+	}
+
+	/** Executes a document command, mirroring `DynamoDBDocumentClient.send` */
+	async send(command: object): Promise<Record<string, unknown>> {
+		await tick();
+		if (command instanceof GetCommand) return this.getItem(command.input);
+		if (command instanceof PutCommand) return this.putItem(command.input);
+		if (command instanceof UpdateCommand) return this.updateItem(command.input);
+		if (command instanceof DeleteCommand) return this.deleteItem(command.input);
+		if (command instanceof QueryCommand) return this.query(command.input);
+		if (command instanceof ScanCommand) return this.scan(command.input);
+		if (command instanceof BatchGetCommand) return this.batchGet(command.input);
+		if (command instanceof TransactWriteCommand) return this.transactWrite(command.input);
+		if (command instanceof CreateTableCommand) return this.createTable(command.input);
+		if (command instanceof DescribeTableCommand) return this.describeTable(command.input);
+		if (command instanceof UpdateTableCommand) return this.updateTable(command.input);
+		if (command instanceof DescribeTimeToLiveCommand) return this.describeTimeToLive(command.input);
+		if (command instanceof UpdateTimeToLiveCommand) return this.updateTimeToLive(command.input);
+		throw validationError(`Unsupported command: ${command.constructor.name}`);
+	}
+
+	// --- commands ---
+
+	private getItem(input: GetCommandInput) {
+		assertPlaceholdersUsed([input.ProjectionExpression], input.ExpressionAttributeNames);
+		const table = this.table(input.TableName);
+		const stored = table.items.get(this.keyId(table, input.Key));
+		return {
+			Item: stored && this.project(stored, input.ProjectionExpression, input.ExpressionAttributeNames),
+			...this.capacity(input, table, readUnits(stored ? itemSize(stored) : 0, input.ConsistentRead)),
+		};
+	}
+
+	private putItem(input: PutCommandInput) {
+		assertPlaceholdersUsed(
+			[input.ConditionExpression],
+			input.ExpressionAttributeNames,
+			input.ExpressionAttributeValues,
+		);
+		const table = this.table(input.TableName);
+		const item = clone(input.Item ?? {});
+		const id = this.keyId(table, this.keyOf(table, item));
+		this.validateItem(table, item);
+		const stored = table.items.get(id);
+		this.check(input, stored);
+		table.items.set(id, item);
+		return {
+			Attributes: input.ReturnValues === "ALL_OLD" && stored ? clone(stored) : undefined,
+			...this.capacity(input, table, writeUnits(Math.max(itemSize(item), stored ? itemSize(stored) : 0))),
+			...this.collectionMetrics(input, table, item),
+		};
+	}
+
+	private updateItem(input: UpdateCommandInput) {
+		assertPlaceholdersUsed(
+			[input.UpdateExpression, input.ConditionExpression],
+			input.ExpressionAttributeNames,
+			input.ExpressionAttributeValues,
+		);
+		const table = this.table(input.TableName);
+		const id = this.keyId(table, input.Key);
+		const stored = table.items.get(id);
+		this.check(input, stored);
+		const updated = this.applyUpdate(table, input, stored);
+		table.items.set(id, updated);
+		const capacity = this.capacity(
+			input,
+			table,
+			writeUnits(Math.max(itemSize(updated), stored ? itemSize(stored) : 0)),
+		);
+
+		const touched = parseUpdate(input.UpdateExpression ?? "", attributesOf(input)).map((a) => [a.path[0]] as Path);
+		switch (input.ReturnValues) {
+			case "ALL_NEW":
+				return { Attributes: clone(updated), ...capacity };
+			case "ALL_OLD":
+				return { Attributes: stored && clone(stored), ...capacity };
+			case "UPDATED_NEW":
+				return { Attributes: project(updated, touched), ...capacity };
+			case "UPDATED_OLD":
+				return { Attributes: stored && project(stored, touched), ...capacity };
+			default:
+				return capacity;
+		}
+	}
+
+	private deleteItem(input: DeleteCommandInput) {
+		assertPlaceholdersUsed(
+			[input.ConditionExpression],
+			input.ExpressionAttributeNames,
+			input.ExpressionAttributeValues,
+		);
+		const table = this.table(input.TableName);
+		const id = this.keyId(table, input.Key);
+		const stored = table.items.get(id);
+		this.check(input, stored);
+		table.items.delete(id);
+		return {
+			Attributes: input.ReturnValues === "ALL_OLD" && stored ? clone(stored) : undefined,
+			...this.capacity(input, table, writeUnits(stored ? itemSize(stored) : 0)),
+			...this.collectionMetrics(input, table, stored),
+		};
+	}
+
+	private query(input: QueryCommandInput) {
+		assertPlaceholdersUsed(
+			[input.KeyConditionExpression, input.FilterExpression, input.ProjectionExpression],
+			input.ExpressionAttributeNames,
+			input.ExpressionAttributeValues,
+		);
+		const table = this.table(input.TableName);
+		const view = this.indexView(table, input.IndexName);
+		if (view.index && !view.index.local && input.ConsistentRead) {
+			throw validationError("Consistent reads are not supported on global secondary indexes");
+		}
+		if (!input.KeyConditionExpression) {
+			throw validationError("Either the KeyConditions or KeyConditionExpression parameter must be specified");
+		}
+		const attributes = attributesOf(input);
+		const keyCondition = parseCondition(input.KeyConditionExpression, attributes);
+		const pinned = topLevelEqualities(keyCondition).some(
+			({ path }) => path.length === 1 && path[0] === view.partitionKey,
+		);
+		if (!pinned) throw validationError(`Query condition missed key schema element: ${view.partitionKey}`);
+		const filter = input.FilterExpression ? parseCondition(input.FilterExpression, attributes) : undefined;
+
+		const sortAttributes = this.sortAttributes(table, view);
+		const direction = input.ScanIndexForward === false ? -1 : 1;
+		const ordered = view.entries
+			.filter((entry) => evaluateCondition(keyCondition, entry, attributes))
+			.sort((a, b) => direction * this.compareTuples(a, b, sortAttributes));
+
+		let start = 0;
+		if (input.ExclusiveStartKey) {
+			const startKey = input.ExclusiveStartKey;
+			start = ordered.findIndex((entry) => direction * this.compareTuples(entry, startKey, sortAttributes) > 0);
+			if (start < 0) start = ordered.length;
+		}
+
+		return this.readPage(input, table, view, ordered.slice(start), filter, attributes);
+	}
+
+	private scan(input: ScanCommandInput) {
+		assertPlaceholdersUsed(
+			[input.FilterExpression, input.ProjectionExpression],
+			input.ExpressionAttributeNames,
+			input.ExpressionAttributeValues,
+		);
+		const table = this.table(input.TableName);
+		const view = this.indexView(table, input.IndexName);
+		if (view.index && !view.index.local && input.ConsistentRead) {
+			throw validationError("Consistent reads are not supported on global secondary indexes");
+		}
+		const total = input.TotalSegments;
+		if ((input.Segment === undefined) !== (total === undefined)) {
+			throw validationError(
+				"The TotalSegments parameter is required but was not present in the request when Segment parameter is present",
+			);
+		}
+		if (total !== undefined && (total < 1 || total > MAX_TOTAL_SEGMENTS)) {
+			throw validationError(`TotalSegments must be between 1 and ${MAX_TOTAL_SEGMENTS}`);
+		}
+		if (total !== undefined && (input.Segment as number) >= total) {
+			throw validationError("The Segment parameter is zero-based and must be less than parameter TotalSegments");
+		}
+		const attributes = attributesOf(input);
+		const filter = input.FilterExpression ? parseCondition(input.FilterExpression, attributes) : undefined;
+
+		// Items of a partition share a segment, and are read in key order
+		const keyAttributes = this.keyAttributes(table, view);
+		const partitionOf = (item: Item) => keyString(getPath(item, [view.partitionKey]));
+		const order = (a: Item, b: Item) =>
+			partitionOf(a).localeCompare(partitionOf(b)) || this.compareTuples(a, b, keyAttributes);
+		const ordered = view.entries
+			.filter((entry) => total === undefined || segmentOf(partitionOf(entry), total) === input.Segment)
+			.sort(order);
+
+		let start = 0;
+		if (input.ExclusiveStartKey) {
+			const startKey = input.ExclusiveStartKey;
+			start = ordered.findIndex((entry) => order(entry, startKey) > 0);
+			if (start < 0) start = ordered.length;
+		}
+		return this.readPage(input, table, view, ordered.slice(start), filter, attributes);
+	}
+
+	/** Reads a Query or Scan page out of the entries following the start key */
+	private readPage(
+		input: QueryCommandInput | ScanCommandInput,
+		table: MemoryTable,
+		view: IndexView,
+		entries: Item[],
+		filter: ConditionNode | undefined,
+		attributes: ExpressionAttributes,
+	) {
+		const items: Item[] = [];
+		let scanned = 0;
+		let pageSize = 0;
+		let lastEvaluated: Item | undefined;
+		for (const entry of entries) {
+			if (input.Limit !== undefined && scanned >= input.Limit) break;
+			if (pageSize >= MAX_PAGE_SIZE) break;
+			scanned++;
+			pageSize += itemSize(entry);
+			lastEvaluated = entry;
+			if (!filter || evaluateCondition(filter, entry, attributes)) items.push(entry);
+		}
+		const exhausted = scanned >= entries.length && (input.Limit === undefined || scanned < input.Limit);
+
+		return {
+			Items:
+				input.Select === "COUNT"
+					? undefined
+					: items.map((item) => this.project(item, input.ProjectionExpression, input.ExpressionAttributeNames)),
+			Count: items.length,
+			ScannedCount: scanned,
+			LastEvaluatedKey:
+				lastEvaluated && !exhausted ? this.pick(lastEvaluated, this.keyAttributes(table, view)) : undefined,
+			...this.capacity(input, table, readUnits(pageSize, input.ConsistentRead), view.index),
+		};
+	}
+
+	private batchGet(input: BatchGetCommandInput) {
+		const requests = Object.entries(input.RequestItems ?? {});
+		const keyCount = requests.reduce((acc, [, request]) => acc + (request.Keys?.length ?? 0), 0);
+		if (keyCount === 0) throw validationError("The list of keys in RequestItems must not be empty");
+		if (keyCount > MAX_BATCH_GET_KEYS) {
+			throw validationError("Too many items requested for the BatchGetItem call");
+		}
+		const responses: Record<string, Item[]> = {};
+		const consumed: unknown[] = [];
+		for (const [tableName, request] of requests) {
+			assertPlaceholdersUsed([request.ProjectionExpression], request.ExpressionAttributeNames);
+			const table = this.table(tableName);
+			const ids = (request.Keys ?? []).map((key) => this.keyId(table, key));
+			if (new Set(ids).size !== ids.length) throw validationError("Provided list of item keys contains duplicates");
+			responses[tableName] = ids.flatMap((id) => {
+				const stored = table.items.get(id);
+				return stored ? [this.project(stored, request.ProjectionExpression, request.ExpressionAttributeNames)] : [];
+			});
+			const units = ids.reduce((acc, id) => {
+				const stored = table.items.get(id);
+				return acc + readUnits(stored ? itemSize(stored) : 0, request.ConsistentRead);
+			}, 0);
+			consumed.push(this.capacity(input, table, units).ConsumedCapacity);
+		}
+		return {
+			Responses: responses,
+			UnprocessedKeys: {},
+			...(input.ReturnConsumedCapacity && input.ReturnConsumedCapacity !== "NONE" && { ConsumedCapacity: consumed }),
+		};
+	}
+
+	private transactWrite(input: TransactWriteCommandInput) {
+		const transactItems = input.TransactItems ?? [];
+		if (!transactItems.length || transactItems.length > MAX_TRANSACT_ITEMS) {
+			throw validationError(`Member must have length between 1 and ${MAX_TRANSACT_ITEMS}`);
+		}
+
+		// Stage every write first: nothing is committed unless all conditions pass
+		const seen = new Set<string>();
+		const staged = transactItems.map((transactItem) => {
+			const { request, tableName, key } = this.describeTransactItem(transactItem);
+			const table = this.table(tableName);
+			const id = this.keyId(table, key);
+			const scope = `${tableName}|${id}`;
+			if (seen.has(scope)) {
+				throw validationError("Transaction request cannot include multiple operations on one item");
+			}
+			seen.add(scope);
+			const stored = table.items.get(id);
+			const passed = this.conditionPasses(request, stored);
+
+			let next: Item | undefined = stored;
+			if (transactItem.Put) {
+				next = clone(transactItem.Put.Item ?? {});
+				this.validateItem(table, next);
+			} else if (transactItem.Update) {
+				next = this.applyUpdate(table, transactItem.Update, stored);
+			} else if (transactItem.Delete) {
+				next = undefined;
+			}
+			return { table, id, stored, request, passed, next, write: !transactItem.ConditionCheck };
+		});
+
+		if (staged.some((entry) => !entry.passed)) {
+			const reasons = staged.map((entry) =>
+				entry.passed
+					? { Code: "None" }
+					: {
+							Code: "ConditionalCheckFailed",
+							Message: "The conditional request failed",
+							Item: this.failureItem(entry.request, entry.stored),
+						},
+			);
+			throw new TransactionCanceledException({
+				message: `Transaction cancelled, please refer cancellation reasons for specific reasons [${reasons
+					.map((reason) => reason.Code)
+					.join(", ")}]`,
+				$metadata: { httpStatusCode: 400 },
+				CancellationReasons: reasons,
+			});
+		}
+
+		for (const entry of staged) {
+			if (!entry.write) continue;
+			if (entry.next) entry.table.items.set(entry.id, entry.next);
+			else entry.table.items.delete(entry.id);
+		}
+		if (!input.ReturnConsumedCapacity || input.ReturnConsumedCapacity === "NONE") return {};
+
+		// Transactional writes cost twice the standard write units
+		const units = new Map<MemoryTable, number>();
+		for (const entry of staged) {
+			const size = Math.max(entry.next ? itemSize(entry.next) : 0, entry.stored ? itemSize(entry.stored) : 0);
+			units.set(entry.table, (units.get(entry.table) ?? 0) + 2 * writeUnits(size));
+		}
+		return {
+			ConsumedCapacity: [...units].map(([table, total]) => this.capacity(input, table, total).ConsumedCapacity),
+		};
+	}
+
+	private createTable(input: CreateTableCommandInput) {
+		if (this.tables.has(input.TableName ?? "")) {
+			throw new ResourceInUseException({
+				message: `Table already exists: ${input.TableName}`,
+				$metadata: { httpStatusCode: 400 },
+			});
+		}
+		const keys = (schema: KeySchemaElement[] = []) => ({
+			partitionKey: schema.find((element) => element.KeyType === "HASH")?.AttributeName ?? "",
+			sortKey: schema.find((element) => element.KeyType === "RANGE")?.AttributeName,
+		});
+		this.defineTable({
+			tableName: input.TableName as string,
+			...keys(input.KeySchema),
+			gsis: (input.GlobalSecondaryIndexes ?? []).map((index) => this.toGsiDefinition(index)),
+			lsis: (input.LocalSecondaryIndexes ?? []).map((index) => this.toLsiDefinition(index)),
+		});
+		return { TableDescription: this.describe(this.table(input.TableName)) };
+	}
+
+	private describeTable(input: DescribeTableCommandInput) {
+		return { Table: this.describe(this.table(input.TableName)) };
+	}
+
+	private updateTable(input: UpdateTableCommandInput) {
+		const table = this.table(input.TableName);
+		const updates = input.GlobalSecondaryIndexUpdates ?? [];
+		if (updates.length > 1) {
+			throw validationError("Only one global secondary index can be created or deleted per UpdateTable call");
+		}
+		const gsis = [...(table.definition.gsis ?? [])];
+		for (const update of updates) {
+			if (update.Create) {
+				if (gsis.some((gsi) => (gsi.indexName ?? gsi.alias) === update.Create?.IndexName)) {
+					throw validationError(`Index already exists: ${update.Create.IndexName}`);
+				}
+				gsis.push(this.toGsiDefinition(update.Create));
+			}
+			if (update.Delete) {
+				const index = gsis.findIndex((gsi) => (gsi.indexName ?? gsi.alias) === update.Delete?.IndexName);
+				if (index < 0) throw new ResourceNotFoundException({ message: "Requested resource not found", $metadata: {} });
+				gsis.splice(index, 1);
+			}
+		}
+		table.definition = { ...table.definition, gsis };
+		return { TableDescription: this.describe(table) };
+	}
+
+	private describeTimeToLive(input: DescribeTimeToLiveCommandInput) {
+		const { ttlAttribute } = this.table(input.TableName).definition;
+		return {
+			TimeToLiveDescription: ttlAttribute
+				? { TimeToLiveStatus: "ENABLED", AttributeName: ttlAttribute }
+				: { TimeToLiveStatus: "DISABLED" },
+		};
+	}
+
+	private updateTimeToLive(input: UpdateTimeToLiveCommandInput) {
+		const table = this.table(input.TableName);
+		const { Enabled, AttributeName } = input.TimeToLiveSpecification ?? {};
+		const current = table.definition.ttlAttribute;
+		if (Enabled && current) {
+			throw validationError(
+				current === AttributeName
+					? "TimeToLive is already enabled"
+					: "TimeToLive is active on a different AttributeName",
+			);
+		}
+		if (!Enabled && !current) throw validationError("TimeToLive is already disabled");
+		table.definition = { ...table.definition, ttlAttribute: Enabled ? AttributeName : undefined };
+		return { TimeToLiveSpecification: input.TimeToLiveSpecification };
+	}
+
+	// --- helpers ---
+
+	private toGsiDefinition(index: GlobalSecondaryIndex): GSIDefinition {
+		const schema = index.KeySchema ?? [];
+		return {
+			alias: index.IndexName as string,
+			indexName: index.IndexName,
+			partitionKey: schema.find((element) => element.KeyType === "HASH")?.AttributeName ?? "",
+			sortKey: schema.find((element) => element.KeyType === "RANGE")?.AttributeName,
+			projectionType: index.Projection?.ProjectionType,
+			projectedAttributes: index.Projection?.NonKeyAttributes,
+		};
+	}
+
+	private toLsiDefinition(index: LocalSecondaryIndex): LSIDefinition {
+		return {
+			alias: index.IndexName as string,
+			indexName: index.IndexName,
+			sortKey: index.KeySchema?.find((element) => element.KeyType === "RANGE")?.AttributeName ?? "",
+			projectionType: index.Projection?.ProjectionType,
+			projectedAttributes: index.Projection?.NonKeyAttributes,
+		};
+	}
+
+	private describe(table: MemoryTable): TableDescription {
+		const { tableName, partitionKey, sortKey, gsis = [], lsis = [] } = table.definition;
+		const keySchema = (hash: string, range?: string): KeySchemaElement[] => [
+			{ AttributeName: hash, KeyType: "HASH" },
+			...(range ? [{ AttributeName: range, KeyType: "RANGE" as const }] : []),
+		];
+		return {
+			TableName: tableName,
+			TableStatus: "ACTIVE",
+			KeySchema: keySchema(partitionKey, sortKey),
+			ItemCount: table.items.size,
+			BillingModeSummary: { BillingMode: "PAY_PER_REQUEST" },
+			GlobalSecondaryIndexes: gsis.length
+				? gsis.map((gsi) => ({
+						IndexName: gsi.indexName ?? gsi.alias,
+						IndexStatus: "ACTIVE",
+						KeySchema: keySchema(gsi.partitionKey, gsi.sortKey),
+						Projection: {
+							ProjectionType: gsi.projectionType ?? "ALL",
+							NonKeyAttributes: gsi.projectionType === "INCLUDE" ? gsi.projectedAttributes : undefined,
+						},
+					}))
+				: undefined,
+			LocalSecondaryIndexes: lsis.length
+				? lsis.map((lsi) => ({
+						IndexName: lsi.indexName ?? lsi.alias,
+						KeySchema: keySchema(partitionKey, lsi.sortKey),
+						Projection: {
+							ProjectionType: lsi.projectionType ?? "ALL",
+							NonKeyAttributes: lsi.projectionType === "INCLUDE" ? lsi.projectedAttributes : undefined,
+						},
+					}))
+				: undefined,
+		};
+	}
+
+	private table(tableName: string | undefined): MemoryTable {
+		const table = tableName ? this.tables.get(tableName) : undefined;
+		if (!table) {
+			throw new ResourceNotFoundException({
+				message: "Requested resource not found",
+				$metadata: { httpStatusCode: 400 },
+			});
+		}
+		return table;
+	}
+
+	private describeTransactItem(transactItem: TransactWriteItem) {
+		const request = transactItem.Put ?? transactItem.Update ?? transactItem.Delete ?? transactItem.ConditionCheck;
+		if (!request) throw validationError("TransactItems can only contain one of Put, Update, Delete or ConditionCheck");
+		assertPlaceholdersUsed(
+			[request.ConditionExpression, transactItem.Update?.UpdateExpression],
+			request.ExpressionAttributeNames,
+			request.ExpressionAttributeValues,
+		);
+		const table = this.table(request.TableName);
+		const key = "Item" in request ? this.keyOf(table, request.Item ?? {}) : request.Key;
+		return { request, tableName: request.TableName as string, key };
+	}
+
+	/** Extracts the primary key of an item, validating the key attributes */
+	private keyOf(table: MemoryTable, item: Item): Item {
+		const names = [table.definition.partitionKey, table.definition.sortKey].filter((n): n is string => !!n);
+		return Object.fromEntries(names.map((name) => [name, item[name]]));
+	}
+
+	private keyId(table: MemoryTable, key: Item | undefined): string {
+		const { partitionKey, sortKey } = table.definition;
+		const names = Object.keys(key ?? {});
+		const expected = sortKey ? [partitionKey, sortKey] : [partitionKey];
+		if (!key || names.length !== expected.length || !expected.every((name) => name in key)) {
+			throw validationError("The provided key element does not match the schema");
+		}
+		return expected
+			.map((name) => {
+				const value = key[name];
+				if (!["S", "N", "B"].includes(typeOf(value) ?? "")) {
+					throw validationError("The provided key element does not match the schema");
+				}
+				if (value === "") {
+					throw validationError(
+						`One or more parameter values are not valid. The AttributeValue for a key attribute cannot contain an empty string value. Key: ${name}`,
+					);
+				}
+				return keyString(value);
+			})
+			.join("|");
+	}
+
+	private validateItem(table: MemoryTable, item: Item) {
+		if (itemSize(item) > MAX_ITEM_SIZE) {
+			throw validationError("Item size has exceeded the maximum allowed size");
+		}
+		for (const index of this.secondaryIndexes(table)) {
+			for (const name of [index.partitionKey, index.sortKey]) {
+				if (!name || !(name in item)) continue;
+				const value = item[name];
+				if (!["S", "N", "B"].includes(typeOf(value) ?? "") || value === "") {
+					throw validationError(
+						`One or more parameter values were invalid: Type mismatch for Index Key ${name} Index: ${index.name}`,
+					);
+				}
+			}
+		}
+	}
+
+	private applyUpdate(table: MemoryTable, input: UpdateCommandInput, stored: Item | undefined): Item {
+		if (!input.UpdateExpression) throw validationError("UpdateExpression must be provided");
+		const actions = parseUpdate(input.UpdateExpression, attributesOf(input));
+		const keyNames = [table.definition.partitionKey, table.definition.sortKey];
+		const keyUpdate = actions.find((action) => keyNames.includes(action.path[0] as string));
+		if (keyUpdate) {
+			throw validationError(
+				`One or more parameter values were invalid: Cannot update attribute ${keyUpdate.path[0]}. This attribute is part of the key`,
+			);
+		}
+		const updated = applyUpdate(stored ?? clone(input.Key ?? {}), actions, attributesOf(input));
+		this.validateItem(table, updated);
+		return updated;
+	}
+
+	private conditionPasses(input: ConditionalInput, stored: Item | undefined) {
+		if (!input.ConditionExpression) return true;
+		const attributes = attributesOf(input);
+		return evaluateCondition(parseCondition(input.ConditionExpression, attributes), stored ?? {}, attributes);
+	}
+
+	private check(input: ConditionalInput, stored: Item | undefined) {
+		if (this.conditionPasses(input, stored)) return;
+		throw new ConditionalCheckFailedException({
+			message: "The conditional request failed",
+			$metadata: { httpStatusCode: 400 },
+			Item: this.failureItem(input, stored),
+		});
+	}
+
+	/**
+	 * Consumed capacity block of a response, when requested. Units follow the
+	 * DynamoDB sizing rules for the table itself; index write costs are not modelled.
+	 */
+	private capacity(input: CapacityInput, table: MemoryTable, units: number, index?: IndexView["index"]) {
+		const mode = input.ReturnConsumedCapacity;
+		if (!mode || mode === "NONE") return {};
+		const consumed: Record<string, unknown> = { TableName: table.definition.tableName, CapacityUnits: units };
+		if (mode === "INDEXES") {
+			if (!index) consumed.Table = { CapacityUnits: units };
+			else if (index.local) consumed.LocalSecondaryIndexes = { [index.name]: { CapacityUnits: units } };
+			else consumed.GlobalSecondaryIndexes = { [index.name]: { CapacityUnits: units } };
+		}
+		return { ConsumedCapacity: consumed };
+	}
+
+	/** Item collection size estimate, returned by writes on tables with local secondary indexes */
+	private collectionMetrics(input: CollectionMetricsInput, table: MemoryTable, item: Item | undefined) {
+		const { partitionKey, lsis = [] } = table.definition;
+		if (input.ReturnItemCollectionMetrics !== "SIZE" || !lsis.length || !item) return {};
+		const collection = [...table.items.values()].filter((entry) =>
+			valuesEqual(entry[partitionKey], item[partitionKey]),
+		);
+		const sizeGB = collection.reduce((acc, entry) => acc + itemSize(entry), 0) / 1024 ** 3;
+		return {
+			ItemCollectionMetrics: {
+				ItemCollectionKey: { [partitionKey]: item[partitionKey] },
+				SizeEstimateRangeGB: [Math.floor(sizeGB), Math.floor(sizeGB) + 1],
+			},
+		};
+	}
+
+	/** Item returned with a failed condition, in wire format like the real service */
+	private failureItem(input: ConditionalInput, stored: Item | undefined) {
+		if (input.ReturnValuesOnConditionCheckFailure !== "ALL_OLD" || !stored) return undefined;
+		return marshall(stored, { removeUndefinedValues: true });
+	}
+
+	private project(item: Item, expression: string | undefined, names?: Record<string, string>): Item {
+		if (!expression) return clone(item);
+		return project(item, parseProjection(expression, { names }));
+	}
+
+	/** Global and local secondary indexes of a table, with their resolved key attributes */
+	private secondaryIndexes(table: MemoryTable): SecondaryIndex[] {
+		const { partitionKey, gsis = [], lsis = [] } = table.definition;
+		return [
+			...gsis.map((gsi) => ({ ...gsi, name: gsi.indexName ?? gsi.alias, local: false })),
+			...lsis.map((lsi) => ({ ...lsi, name: lsi.indexName ?? lsi.alias, partitionKey, local: true })),
+		];
+	}
+
+	private indexView(table: MemoryTable, indexName: string | undefined): IndexView {
+		const { partitionKey, sortKey } = table.definition;
+		const all = [...table.items.values()];
+		if (!indexName) return { partitionKey, sortKey, entries: all };
+
+		const index = this.secondaryIndexes(table).find((candidate) => candidate.name === indexName);
+		if (!index) throw validationError(`The table does not have the specified index: ${indexName}`);
+		const keys = [partitionKey, sortKey, index.partitionKey, index.sortKey].filter((n): n is string => !!n);
+		const entries = all
+			.filter((item) => item[index.partitionKey] !== undefined && (!index.sortKey || item[index.sortKey] !== undefined))
+			.map((item) => {
+				if (!index.projectionType || index.projectionType === "ALL") return item;
+				const projected = index.projectionType === "INCLUDE" ? [...keys, ...(index.projectedAttributes ?? [])] : keys;
+				return this.pick(item, projected);
+			});
+		return {
+			partitionKey: index.partitionKey,
+			sortKey: index.sortKey,
+			entries,
+			index: { name: index.name, local: index.local },
+		};
+	}
+
+	/** Attributes identifying an entry within an index: index keys first, then table keys */
+	private keyAttributes(table: MemoryTable, view: IndexView): string[] {
+		const names = [view.partitionKey, view.sortKey, table.definition.partitionKey, table.definition.sortKey];
+		return [...new Set(names.filter((n): n is string => !!n))];
+	}
+
+	private sortAttributes(table: MemoryTable, view: IndexView): string[] {
+		return this.keyAttributes(table, view).filter((name) => name !== view.partitionKey);
+	}
+
+	private compareTuples(a: Item, b: Item, attributes: string[]): number {
+		for (const name of attributes) {
+			const order = compareScalars(getPath(a, [name]), getPath(b, [name])) ?? 0;
+			if (order !== 0) return order;
+		}
+		return 0;
+	}
+
+	private pick(item: Item, names: string[]): Item {
+		return Object.fromEntries(
+			names.filter((name) => item[name] !== undefined).map((name) => [name, clone(item[name])]),
+		);
+	}
+}
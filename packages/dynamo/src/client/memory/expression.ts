@@ -0,0 +1,597 @@
+import { type AttributeType, compareScalars, type Item, typeOf, validationError, valuesEqual } from "./values.js";
+
+/**
+ * Parser and evaluator for the DynamoDB expression language
+ * (condition, key condition, filter, update and projection expressions)
+ * used by the in-memory client.
+ */
+
+export type PathSegment = string | number;
+export type Path = PathSegment[];
+
+export interface ExpressionAttributes {
+	names?: Record<string, string>;
+	values?: Record<string, unknown>;
+}
+
+type Operand =
+	| { kind: "path"; path: Path }
+	| { kind: "value"; name: string }
+	| { kind: "size"; path: Path }
+	| { kind: "if_not_exists"; path: Path; fallback: Operand }
+	| { kind: "list_append"; left: Operand; right: Operand }
+	| { kind: "arithmetic"; operator: "+" | "-"; left: Operand; right: Operand };
+
+type Comparator = "=" | "<>" | "<" | "<=" | ">" | ">=";
+
+export type ConditionNode =
+	| { kind: "and" | "or"; left: ConditionNode; right: ConditionNode }
+	| { kind: "not"; operand: ConditionNode }
+	| { kind: "compare"; operator: Comparator; left: Operand; right: Operand }
+	| { kind: "between"; operand: Operand; lower: Operand; upper: Operand }
+	| { kind: "in"; operand: Operand; candidates: Operand[] }
+	| { kind: "function"; name: string; args: Operand[] };
+
+export type UpdateAction =
+	| { kind: "SET"; path: Path; value: Operand }
+	| { kind: "REMOVE"; path: Path }
+	| { kind: "ADD" | "DELETE"; path: Path; value: Operand };
+
+type Token = { type: "name" | "placeholder" | "value" | "number" | "punct"; text: string };
+
+const CONDITION_FUNCTIONS = ["attribute_exists", "attribute_not_exists", "attribute_type", "begins_with", "contains"];
+
+const tokenize = (expression: string): Token[] => {
+	const tokens: Token[] = [];
+	const pattern = /\s*(?:(#[\w]+)|(:[\w]+)|(\d+)|([A-Za-z_][\w]*)|(<>|<=|>=|[=<>(),.[\]+-]))/y;
+	let index = 0;
+	while (index < expression.length) {
+		if (/^\s*$/.test(expression.slice(index))) break;
+		pattern.lastIndex = index;
+		const match = pattern.exec(expression);
+		if (!match) {
+			throw validationError(`Invalid expression: Syntax error; token: "${expression.slice(index).trim()}"`);
+		}
+		index = pattern.lastIndex;
+		if (match[1]) tokens.push({ type: "placeholder", text: match[1] });
+		else if (match[2]) tokens.push({ type: "value", text: match[2] });
+		else if (match[3]) tokens.push({ type: "number", text: match[3] });
+		else if (match[4]) tokens.push({ type: "name", text: match[4] });
+		else tokens.push({ type: "punct", text: match[5] as string });
+	}
+	return tokens;
+};
+
+class Parser {
+	private position = 0;
+	private readonly tokens: Token[];
+
+	constructor(
+		private readonly expression: string,
+		private readonly attributes: ExpressionAttributes,
+	) {
+		this.tokens = tokenize(expression);
+	}
+
+	get done() {
+		return this.position >= this.tokens.length;
+	}
+
+	private peek(offset = 0): Token | undefined {
+		return this.tokens[this.position + offset];
+	}
+
+	private next(): Token {
+		const token = this.tokens[this.position++];
+		if (!token) throw this.error("unexpected end of expression");
+		return token;
+	}
+
+	private isKeyword(word: string, offset = 0) {
+		const token = this.peek(offset);
+		return token?.type === "name" && token.text.toUpperCase() === word;
+	}
+
+	private isPunct(text: string, offset = 0) {
+		const token = this.peek(offset);
+		return token?.type === "punct" && token.text === text;
+	}
+
+	private expect(text: string) {
+		const token = this.next();
+		if (token.type !== "punct" || token.text !== text) throw this.error(`expected "${text}" near "${token.text}"`);
+	}
+
+	private expectKeyword(word: string) {
+		if (!this.isKeyword(word)) throw this.error(`expected ${word}`);
+		this.position++;
+	}
+
+	error(reason: string) {
+		return validationError(`Invalid expression "${this.expression}": ${reason}`);
+	}
+
+	ensureDone() {
+		if (!this.done) throw this.error(`unexpected token "${this.peek()?.text}"`);
+	}
+
+	// --- paths and operands ---
+
+	path(): Path {
+		const path: Path = [this.pathName()];
+		while (this.isPunct(".") || this.isPunct("[")) {
+			if (this.next().text === ".") {
+				path.push(this.pathName());
+			} else {
+				const token = this.next();
+				if (token.type !== "number") throw this.error("list index must be a number");
+				path.push(Number(token.text));
+				this.expect("]");
+			}
+		}
+		return path;
+	}
+
+	private pathName(): string {
+		const token = this.next();
+		if (token.type === "placeholder") {
+			const name = this.attributes.names?.[token.text];
+			if (name === undefined) {
+				throw validationError(
+					`Value provided in ExpressionAttributeNames unused in expressions or undefined: ${token.text}`,
+				);
+			}
+			return name;
+		}
+		if (token.type === "name") return token.text;
+		throw this.error(`unexpected token "${token.text}"`);
+	}
+
+	private valueRef(): Operand {
+		const token = this.next();
+		if (!(this.attributes.values && token.text in this.attributes.values)) {
+			throw validationError(`An expression attribute value used in expression is not defined: ${token.text}`);
+		}
+		return { kind: "value", name: token.text };
+	}
+
+	operand(): Operand {
+		const token = this.peek();
+		if (token?.type === "value") return this.valueRef();
+		if (token?.type === "name" && token.text === "size" && this.isPunct("(", 1)) {
+			this.position += 2;
+			const path = this.path();
+			this.expect(")");
+			return { kind: "size", path };
+		}
+		return { kind: "path", path: this.path() };
+	}
+
+	// --- conditions ---
+
+	condition(): ConditionNode {
+		let left = this.conjunction();
+		while (this.isKeyword("OR")) {
+			this.position++;
+			left = { kind: "or", left, right: this.conjunction() };
+		}
+		return left;
+	}
+
+	private conjunction(): ConditionNode {
+		let left = this.negation();
+		while (this.isKeyword("AND")) {
+			this.position++;
+			left = { kind: "and", left, right: this.negation() };
+		}
+		return left;
+	}
+
+	private negation(): ConditionNode {
+		if (this.isKeyword("NOT")) {
+			this.position++;
+			return { kind: "not", operand: this.negation() };
+		}
+		return this.primary();
+	}
+
+	private primary(): ConditionNode {
+		if (this.isPunct("(")) {
+			this.position++;
+			const inner = this.condition();
+			this.expect(")");
+			return inner;
+		}
+		const token = this.peek();
+		if (token?.type === "name" && CONDITION_FUNCTIONS.includes(token.text) && this.isPunct("(", 1)) {
+			this.position += 2;
+			const args: Operand[] = [this.operand()];
+			while (this.isPunct(",")) {
+				this.position++;
+				args.push(this.operand());
+			}
+			this.expect(")");
+			return { kind: "function", name: token.text, args };
+		}
+
+		const left = this.operand();
+		if (this.isKeyword("BETWEEN")) {
+			this.position++;
+			const lower = this.operand();
+			this.expectKeyword("AND");
+			return { kind: "between", operand: left, lower, upper: this.operand() };
+		}
+		if (this.isKeyword("IN")) {
+			this.position++;
+			this.expect("(");
+			const candidates: Operand[] = [this.operand()];
+			while (this.isPunct(",")) {
+				this.position++;
+				candidates.push(this.operand());
+			}
+			this.expect(")");
+			return { kind: "in", operand: left, candidates };
+		}
+		const operator = this.next();
+		if (operator.type !== "punct" || !["=", "<>", "<", "<=", ">", ">="].includes(operator.text)) {
+			throw this.error(`expected a comparator near "${operator.text}"`);
+		}
+		return { kind: "compare", operator: operator.text as Comparator, left, right: this.operand() };
+	}
+
+	// --- update expressions ---
+
+	updateActions(): UpdateAction[] {
+		const actions: UpdateAction[] = [];
+		const seen = new Set<string>();
+		while (!this.done) {
+			const clause = this.next();
+			const keyword = clause.text.toUpperCase();
+			if (clause.type !== "name" || !["SET", "REMOVE", "ADD", "DELETE"].includes(keyword)) {
+				throw this.error(`unexpected token "${clause.text}"`);
+			}
+			if (seen.has(keyword)) throw this.error(`the "${keyword}" section can only be used once`);
+			seen.add(keyword);
+			do {
+				if (actions.length && this.isPunct(",")) this.position++;
+				const path = this.path();
+				if (keyword === "SET") {
+					this.expect("=");
+					actions.push({ kind: "SET", path, value: this.setValue() });
+				} else if (keyword === "REMOVE") {
+					actions.push({ kind: "REMOVE", path });
+				} else {
+					actions.push({ kind: keyword as "ADD" | "DELETE", path, value: this.valueRef() });
+				}
+			} while (this.isPunct(","));
+		}
+		return actions;
+	}
+
+	private setValue(): Operand {
+		const left = this.setOperand();
+		if (this.isPunct("+") || this.isPunct("-")) {
+			const operator = this.next().text as "+" | "-";
+			return { kind: "arithmetic", operator, left, right: this.setOperand() };
+		}
+		return left;
+	}
+
+	private setOperand(): Operand {
+		const token = this.peek();
+		if (token?.type === "name" && this.isPunct("(", 1)) {
+			if (token.text === "if_not_exists") {
+				this.position += 2;
+				const path = this.path();
+				this.expect(",");
+				const fallback = this.setValue();
+				this.expect(")");
+				return { kind: "if_not_exists", path, fallback };
+			}
+			if (token.text === "list_append") {
+				this.position += 2;
+				const left = this.setValue();
+				this.expect(",");
+				const right = this.setValue();
+				this.expect(")");
+				return { kind: "list_append", left, right };
+			}
+			throw this.error(`invalid function name "${token.text}"`);
+		}
+		return this.operand();
+	}
+
+	projection(): Path[] {
+		const paths: Path[] = [this.path()];
+		while (this.isPunct(",")) {
+			this.position++;
+			paths.push(this.path());
+		}
+		return paths;
+	}
+}
+
+export const parseCondition = (expression: string, attributes: ExpressionAttributes): ConditionNode => {
+	const parser = new Parser(expression, attributes);
+	const node = parser.condition();
+	parser.ensureDone();
+	return node;
+};
+
+export const parseUpdate = (expression: string, attributes: ExpressionAttributes): UpdateAction[] => {
+	const parser = new Parser(expression, attributes);
+	const actions = parser.updateActions();
+	if (!actions.length) throw parser.error("empty update expression");
+	return actions;
+};
+
+export const parseProjection = (expression: string, attributes: ExpressionAttributes): Path[] => {
+	const parser = new Parser(expression, attributes);
+	const paths = parser.projection();
+	parser.ensureDone();
+	return paths;
+};
+
+// --- evaluation ---
+
+export const getPath = (item: Item, path: Path): unknown => {
+	let current: unknown = item;
+	for (const segment of path) {
+		if (typeof segment === "number") {
+			if (!Array.isArray(current)) return undefined;
+			current = current[segment];
+		} else {
+			if (typeOf(current) !== "M") return undefined;
+			current = (current as Item)[segment];
+		}
+		if (current === undefined) return undefined;
+	}
+	return current;
+};
+
+const resolve = (operand: Operand, item: Item, attributes: ExpressionAttributes): unknown => {
+	switch (operand.kind) {
+		case "path":
+			return getPath(item, operand.path);
+		case "value":
+			return attributes.values?.[operand.name];
+		case "size": {
+			const value = getPath(item, operand.path);
+			switch (typeOf(value)) {
+				case "S":
+					return Buffer.byteLength(value as string);
+				case "B":
+					return (value as Uint8Array).byteLength;
+				case "L":
+					return (value as unknown[]).length;
+				case "M":
+					return Object.keys(value as Item).length;
+				case "SS":
+				case "NS":
+				case "BS":
+					return (value as Set<unknown>).size;
+				default:
+					return undefined;
+			}
+		}
+		case "if_not_exists": {
+			const value = getPath(item, operand.path);
+			return value === undefined ? resolve(operand.fallback, item, attributes) : value;
+		}
+		case "list_append": {
+			const left = resolve(operand.left, item, attributes);
+			const right = resolve(operand.right, item, attributes);
+			if (!Array.isArray(left) || !Array.isArray(right)) {
+				throw validationError("An operand in the update expression has an incorrect data type");
+			}
+			return [...left, ...right];
+		}
+		case "arithmetic": {
+			const left = resolve(operand.left, item, attributes);
+			const right = resolve(operand.right, item, attributes);
+			if (left === undefined || right === undefined) {
+				throw validationError("The provided expression refers to an attribute that does not exist in the item");
+			}
+			if (typeOf(left) !== "N" || typeOf(right) !== "N") {
+				throw validationError("An operand in the update expression has an incorrect data type");
+			}
+			return operand.operator === "+" ? Number(left) + Number(right) : Number(left) - Number(right);
+		}
+	}
+};
+
+const compare = (operator: Comparator, left: unknown, right: unknown): boolean => {
+	if (left === undefined || right === undefined) return false;
+	if (operator === "=") return valuesEqual(left, right);
+	if (operator === "<>") return !valuesEqual(left, right);
+	const order = compareScalars(left, right);
+	if (order === undefined) return false;
+	switch (operator) {
+		case "<":
+			return order < 0;
+		case "<=":
+			return order <= 0;
+		case ">":
+			return order > 0;
+		default:
+			return order >= 0;
+	}
+};
+
+const callFunction = (name: string, args: Operand[], item: Item, attributes: ExpressionAttributes): boolean => {
+	const [first, second] = args;
+	if (!first || (first.kind !== "path" && name !== "begins_with" && name !== "contains")) {
+		throw validationError(`Invalid arguments for function ${name}`);
+	}
+	const subject = resolve(first, item, attributes);
+	switch (name) {
+		case "attribute_exists":
+			return subject !== undefined;
+		case "attribute_not_exists":
+			return subject === undefined;
+		case "attribute_type":
+			return second !== undefined && typeOf(subject) === (resolve(second, item, attributes) as AttributeType);
+		case "begins_with": {
+			const prefix = second && resolve(second, item, attributes);
+			if (typeof subject === "string" && typeof prefix === "string") return subject.startsWith(prefix);
+			if (subject instanceof Uint8Array && prefix instanceof Uint8Array) {
+				return Buffer.from(subject).subarray(0, prefix.byteLength).equals(Buffer.from(prefix));
+			}
+			return false;
+		}
+		case "contains": {
+			const needle = second && resolve(second, item, attributes);
+			if (typeof subject === "string" && typeof needle === "string") return subject.includes(needle);
+			if (Array.isArray(subject)) return subject.some((v) => valuesEqual(v, needle));
+			if (subject instanceof Set) return [...subject].some((v) => valuesEqual(v, needle));
+			return false;
+		}
+		default:
+			throw validationError(`Invalid function name: ${name}`);
+	}
+};
+
+export const evaluateCondition = (node: ConditionNode, item: Item, attributes: ExpressionAttributes): boolean => {
+	switch (node.kind) {
+		case "and":
+			return evaluateCondition(node.left, item, attributes) && evaluateCondition(node.right, item, attributes);
+		case "or":
+			return evaluateCondition(node.left, item, attributes) || evaluateCondition(node.right, item, attributes);
+		case "not":
+			return !evaluateCondition(node.operand, item, attributes);
+		case "compare":
+			return compare(node.operator, resolve(node.left, item, attributes), resolve(node.right, item, attributes));
+		case "between": {
+			const value = resolve(node.operand, item, attributes);
+			return (
+				compare(">=", value, resolve(node.lower, item, attributes)) &&
+				compare("<=", value, resolve(node.upper, item, attributes))
+			);
+		}
+		case "in": {
+			const value = resolve(node.operand, item, attributes);
+			return node.candidates.some((candidate) => compare("=", value, resolve(candidate, item, attributes)));
+		}
+		case "function":
+			return callFunction(node.name, node.args, item, attributes);
+	}
+};
+
+/**
+ * Collects `path = :value` equalities joined by AND at the top level of a
+ * condition, which is how key conditions pin the partition key.
+ */
+export const topLevelEqualities = (node: ConditionNode): Array<{ path: Path; value: Operand }> => {
+	if (node.kind === "and") return [...topLevelEqualities(node.left), ...topLevelEqualities(node.right)];
+	if (node.kind === "compare" && node.operator === "=" && node.left.kind === "path") {
+		return [{ path: node.left.path, value: node.right }];
+	}
+	return [];
+};
+
+const setPath = (item: Item, path: Path, value: unknown) => {
+	let parent: unknown = item;
+	for (const segment of path.slice(0, -1)) {
+		parent = typeof segment === "number" ? (parent as unknown[])[segment] : (parent as Item)[segment];
+		if (parent === undefined || parent === null || typeof parent !== "object") {
+			throw validationError("The document path provided in the update expression is invalid for update");
+		}
+	}
+	const last = path[path.length - 1] as PathSegment;
+	if (typeof last === "number") {
+		if (!Array.isArray(parent)) {
+			throw validationError("The document path provided in the update expression is invalid for update");
+		}
+		if (last >= parent.length) parent.push(value);
+		else parent[last] = value;
+	} else {
+		(parent as Item)[last] = value;
+	}
+};
+
+const removePath = (item: Item, path: Path) => {
+	const parent = path.length > 1 ? getPath(item, path.slice(0, -1)) : item;
+	const last = path[path.length - 1] as PathSegment;
+	if (typeof last === "number") {
+		if (Array.isArray(parent) && last < parent.length) parent.splice(last, 1);
+	} else if (parent && typeof parent === "object") {
+		delete (parent as Item)[last];
+	}
+};
+
+/**
+ * Applies update actions to a copy of the item. Every operand is resolved
+ * against the item as it was before the update, like DynamoDB does.
+ */
+export const applyUpdate = (original: Item, actions: UpdateAction[], attributes: ExpressionAttributes): Item => {
+	const updated = structuredClone(original);
+	for (const action of actions) {
+		if (action.kind === "REMOVE") {
+			removePath(updated, action.path);
+			continue;
+		}
+		const value = resolve(action.value, original, attributes);
+		if (action.kind === "SET") {
+			if (value === undefined) {
+				throw validationError("The provided expression refers to an attribute that does not exist in the item");
+			}
+			setPath(updated, action.path, structuredClone(value));
+			continue;
+		}
+		const current = getPath(updated, action.path);
+		const valueType = typeOf(value);
+		if (action.kind === "ADD") {
+			if (current === undefined) {
+				setPath(updated, action.path, structuredClone(value));
+			} else if (valueType === "N" && typeOf(current) === "N") {
+				setPath(updated, action.path, Number(current) + Number(value));
+			} else if (current instanceof Set && value instanceof Set && typeOf(current) === valueType) {
+				for (const element of value) {
+					if (![...current].some((v) => valuesEqual(v, element))) current.add(element);
+				}
+			} else {
+				throw validationError("An operand in the update expression has an incorrect data type");
+			}
+			continue;
+		}
+		// DELETE removes elements from a set
+		if (current === undefined) continue;
+		if (!(current instanceof Set) || !(value instanceof Set) || typeOf(current) !== valueType) {
+			throw validationError("An operand in the update expression has an incorrect data type");
+		}
+		for (const element of [...current]) {
+			if ([...value].some((v) => valuesEqual(v, element))) current.delete(element);
+		}
+		if (current.size === 0) removePath(updated, action.path);
+	}
+	return updated;
+};
+
+/** Returns only the requested paths of an item */
+export const project = (item: Item, paths: Path[]): Item => {
+	const result: Item = {};
+	for (const path of paths) {
+		const value = getPath(item, path);
+		if (value === undefined) continue;
+		let target: Item | unknown[] = result;
+		path.forEach((segment, i) => {
+			const isLast = i === path.length - 1;
+			const container = target as Record<string | number, unknown>;
+			if (isLast) {
+				if (Array.isArray(container)) container.push(structuredClone(value));
+				else container[segment] = structuredClone(value);
+				return;
+			}
+			const nextIsIndex = typeof path[i + 1] === "number";
+			if (Array.isArray(container)) {
+				const child = nextIsIndex ? [] : {};
+				container.push(child);
+				target = child;
+			} else {
+				container[segment] ??= nextIsIndex ? [] : {};
+				target = container[segment] as Item | unknown[];
+			}
+		});
+	}
+	return result;
+};
@@ -0,0 +1 @@
+export { InMemoryClient, type InMemoryClientOptions, type InMemoryTableDefinition } from "./client.js";
@@ -0,0 +1,151 @@
+import { DynamoDBServiceException } from "@aws-sdk/client-dynamodb";
+
+export type Item = Record<string, unknown>;
+
+/** DynamoDB data type descriptors, as used by `attribute_type` */
+export type AttributeType = "S" | "N" | "B" | "BOOL" | "NULL" | "L" | "M" | "SS" | "NS" | "BS";
+
+/** Maximum item size accepted by DynamoDB (400 KB) */
+export const MAX_ITEM_SIZE = 400 * 1024;
+
+const isBinary = (value: unknown): value is Uint8Array => value instanceof Uint8Array;
+
+/**
+ * Resolves the DynamoDB type of a native JS value, mirroring the
+ * marshalling rules applied by `DynamoDBDocumentClient`.
+ */
+export const typeOf = (value: unknown): AttributeType | undefined => {
+	if (value === null) return "NULL";
+	if (typeof value === "string") return "S";
+	if (typeof value === "number" || typeof value === "bigint") return "N";
+	if (typeof value === "boolean") return "BOOL";
+	if (isBinary(value)) return "B";
+	if (Array.isArray(value)) return "L";
+	if (value instanceof Set) {
+		const first = value.values().next().value;
+		if (typeof first === "number" || typeof first === "bigint") return "NS";
+		if (isBinary(first)) return "BS";
+		return "SS";
+	}
+	if (typeof value === "object") return "M";
+	return undefined;
+};
+
+const compareBytes = (a: Uint8Array, b: Uint8Array) => Buffer.compare(Buffer.from(a), Buffer.from(b));
+
+/**
+ * Orders two scalar values the way DynamoDB orders sort keys
+ * (UTF-8 bytes for strings, numeric for numbers, bytes for binary).
+ * Returns `undefined` when the values are not comparable.
+ */
+export const compareScalars = (a: unknown, b: unknown): number | undefined => {
+	const type = typeOf(a);
+	if (type !== typeOf(b)) return undefined;
+	if (type === "S") return compareBytes(Buffer.from(a as string), Buffer.from(b as string));
+	if (type === "N") {
+		const left = Number(a);
+		const right = Number(b);
+		return left === right ? 0 : left < right ? -1 : 1;
+	}
+	if (type === "B") return compareBytes(a as Uint8Array, b as Uint8Array);
+	return undefined;
+};
+
+/** Deep equality following DynamoDB semantics (sets are unordered) */
+export const valuesEqual = (a: unknown, b: unknown): boolean => {
+	const type = typeOf(a);
+	if (type !== typeOf(b)) return false;
+	switch (type) {
+		case "S":
+		case "N":
+		case "B":
+			return compareScalars(a, b) === 0;
+		case "BOOL":
+		case "NULL":
+			return a === b;
+		case "L": {
+			const left = a as unknown[];
+			const right = b as unknown[];
+			return left.length === right.length && left.every((v, i) => valuesEqual(v, right[i]));
+		}
+		case "SS":
+		case "NS":
+		case "BS": {
+			const left = [...(a as Set<unknown>)];
+			const right = [...(b as Set<unknown>)];
+			return left.length === right.length && left.every((v) => right.some((w) => valuesEqual(v, w)));
+		}
+		case "M": {
+			const left = a as Item;
+			const right = b as Item;
+			const keys = Object.keys(left);
+			return (
+				keys.length === Object.keys(right).length && keys.every((k) => k in right && valuesEqual(left[k], right[k]))
+			);
+		}
+		default:
+			return false;
+	}
+};
+
+const numberSize = (value: unknown) => Math.ceil(String(value).replace(/^-|\.|e.*$/gi, "").length / 2) + 1;
+
+/** Approximates the stored size of a value in bytes, per the DynamoDB sizing rules */
+export const sizeOf = (value: unknown): number => {
+	switch (typeOf(value)) {
+		case "S":
+			return Buffer.byteLength(value as string);
+		case "N":
+			return numberSize(value);
+		case "B":
+			return (value as Uint8Array).byteLength;
+		case "BOOL":
+		case "NULL":
+			return 1;
+		case "L":
+			return 3 + (value as unknown[]).reduce<number>((acc, v) => acc + 1 + sizeOf(v), 0);
+		case "SS":
+		case "NS":
+		case "BS":
+			return [...(value as Set<unknown>)].reduce<number>((acc, v) => acc + sizeOf(v), 0);
+		case "M":
+			return 3 + itemSize(value as Item);
+		default:
+			return 0;
+	}
+};
+
+/** Size of an item: attribute names plus attribute values */
+export const itemSize = (item: Item): number =>
+	Object.entries(item).reduce((acc, [name, value]) => acc + Buffer.byteLength(name) + sizeOf(value), 0);
+
+/** Read capacity for `bytes` read: 4 KB units, halved for eventually consistent reads */
+export const readUnits = (bytes: number, consistent = false) =>
+	Math.max(1, Math.ceil(bytes / 4096)) * (consistent ? 1 : 0.5);
+
+/** Write capacity for `bytes` written: 1 KB units */
+export const writeUnits = (bytes: number) => Math.max(1, Math.ceil(bytes / 1024));
+
+/** Deep copy so stored items never share references with callers */
+export const clone = <T>(value: T): T => structuredClone(value);
+
+/** Stable string form of a key value, usable as a map key */
+export const keyString = (value: unknown): string => {
+	const type = typeOf(value);
+	if (type === "B") return `B:${Buffer.from(value as Uint8Array).toString("base64")}`;
+	return `${type}:${String(value)}`;
+};
+
+/** Builds a service exception shaped like the ones thrown by the AWS SDK */
+export const serviceError = (name: string, message: string, extra: Record<string, unknown> = {}) =>
+	Object.assign(
+		new DynamoDBServiceException({
+			name,
+			$fault: "client",
+			$metadata: { httpStatusCode: 400 },
+			message,
+		}),
+		extra,
+	);
+
+export const validationError = (message: string) => serviceError("ValidationException", message);
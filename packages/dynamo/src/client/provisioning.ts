@@ -0,0 +1,458 @@
+import {
+	type AttributeDefinition,
+	type BillingMode,
+	CreateTableCommand,
+	type CreateTableCommandInput,
+	DescribeTableCommand,
+	type DescribeTableCommandOutput,
+	DescribeTimeToLiveCommand,
+	type DescribeTimeToLiveCommandOutput,
+	type GlobalSecondaryIndex,
+	type GlobalSecondaryIndexDescription,
+	type KeySchemaElement,
+	type LocalSecondaryIndex,
+	type Projection,
+	type TableDescription,
+	type TimeToLiveDescription,
+	UpdateTableCommand,
+	UpdateTimeToLiveCommand,
+} from "@aws-sdk/client-dynamodb";
+import { DynamoOperationError } from "../common/errors.js";
+import type { GSIDefinition, KeyAttributeType, LSIDefinition } from "../common/types.js";
+import type { DynamoResult } from "../operations/base-operation.js";
+import type { ConnectedTable } from "./table.js";
+
+/** Kinds of differences between the declared table and the live one */
+export type TableDriftType =
+	| "TABLE_MISSING"
+	| "KEY_SCHEMA_MISMATCH"
+	| "GSI_MISSING"
+	| "GSI_KEY_MISMATCH"
+	| "GSI_PROJECTION_MISMATCH"
+	| "GSI_UNDECLARED"
+	| "LSI_MISSING"
+	| "LSI_KEY_MISMATCH"
+	| "LSI_PROJECTION_MISMATCH"
+	| "LSI_UNDECLARED"
+	| "TTL_DISABLED"
+	| "TTL_MISMATCH";
+
+/** A single difference between the Table definition and DynamoDB */
+export interface TableDrift {
+	type: TableDriftType;
+	/** Index affected by the drift, when applicable */
+	indexName?: string;
+	/** Human readable description of the drift */
+	message: string;
+	/** Declared value */
+	expected?: unknown;
+	/** Value found in DynamoDB */
+	actual?: unknown;
+}
+
+/** Result of comparing the Table definition with `DescribeTable` */
+export interface TableDiff {
+	tableName: string;
+	/** Whether the table exists in DynamoDB */
+	exists: boolean;
+	/** True when no drift was found */
+	inSync: boolean;
+	drifts: TableDrift[];
+}
+
+/** Options for {@link ConnectedTable.ensureTable} */
+export interface EnsureTableOptions {
+	/** Billing mode used when creating the table (default: PAY_PER_REQUEST) */
+	billingMode?: BillingMode;
+	/** Capacity for the table and its indexes when billingMode is PROVISIONED */
+	provisionedThroughput?: { readCapacityUnits: number; writeCapacityUnits: number };
+	/** Delete and recreate indexes whose keys or projection drifted (default: false) */
+	recreateMismatchedIndexes?: boolean;
+	/** Delete live indexes that are not declared on the Table (default: false) */
+	dropUndeclaredIndexes?: boolean;
+	/** Wait for the table and its indexes to become ACTIVE after each change (default: true) */
+	waitForActive?: boolean;
+	/** Polling interval while waiting, in milliseconds (default: 2000) */
+	pollIntervalMs?: number;
+	/** Maximum time to wait for each change, in milliseconds (default: 10 minutes) */
+	timeoutMs?: number;
+}
+
+/** Outcome of {@link ConnectedTable.ensureTable} */
+export interface EnsureTableResult {
+	/** Whether the table was created by this call */
+	created: boolean;
+	/** Drifts that were fixed */
+	applied: TableDrift[];
+	/** Drifts left untouched (not fixable, or not enabled by the options) */
+	pending: TableDrift[];
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const indexNameOf = (index: GSIDefinition | LSIDefinition) => index.indexName ?? index.alias;
+
+const keySchemaOf = (partitionKey: string, sortKey?: string): KeySchemaElement[] => [
+	{ AttributeName: partitionKey, KeyType: "HASH" },
+	...(sortKey ? [{ AttributeName: sortKey, KeyType: "RANGE" as const }] : []),
+];
+
+const projectionOf = (index: GSIDefinition | LSIDefinition): Projection => {
+	const projectionType = index.projectionType ?? "ALL";
+	return projectionType === "INCLUDE"
+		? { ProjectionType: projectionType, NonKeyAttributes: index.projectedAttributes ?? [] }
+		: { ProjectionType: projectionType };
+};
+
+const sameKeySchema = (left: KeySchemaElement[] = [], right: KeySchemaElement[] = []) =>
+	left.length === right.length &&
+	left.every((element) =>
+		right.some((other) => other.AttributeName === element.AttributeName && other.KeyType === element.KeyType),
+	);
+
+const sameProjection = (declared: Projection, live: Projection = {}) => {
+	if (declared.ProjectionType !== live.ProjectionType) return false;
+	if (declared.ProjectionType !== "INCLUDE") return true;
+	const expected = new Set(declared.NonKeyAttributes);
+	const actual = new Set(live.NonKeyAttributes);
+	return expected.size === actual.size && [...expected].every((name) => actual.has(name));
+};
+
+const formatKeySchema = (schema: KeySchemaElement[] = []) =>
+	schema.map((element) => `${element.AttributeName} (${element.KeyType})`).join(", ");
+
+/** Declared key schema of the table */
+const tableKeySchema = ({ keySchema }: ConnectedTable) =>
+	keySchemaOf(keySchema.partitionKey.name, keySchema.sortKey?.name);
+
+const attributeDefinitions = (
+	table: ConnectedTable,
+	gsis: GSIDefinition[],
+	includeTableKeys = true,
+	lsis: LSIDefinition[] = [],
+): AttributeDefinition[] => {
+	const keyTypes = new Map<string, KeyAttributeType>();
+	for (const attribute of [table.keySchema.partitionKey, table.keySchema.sortKey]) {
+		if (attribute) keyTypes.set(attribute.name, attribute.type ?? "S");
+	}
+	const names = new Set<string>(includeTableKeys ? keyTypes.keys() : []);
+	for (const gsi of gsis) {
+		names.add(gsi.partitionKey);
+		if (gsi.sortKey) names.add(gsi.sortKey);
+	}
+	for (const lsi of lsis) names.add(lsi.sortKey);
+	// Index key attributes are strings unless they reuse a table key attribute
+	return [...names].map((name) => ({ AttributeName: name, AttributeType: keyTypes.get(name) ?? "S" }));
+};
+
+const throughputOf = (options: EnsureTableOptions) =>
+	options.billingMode === "PROVISIONED" && options.provisionedThroughput
+		? {
+				ReadCapacityUnits: options.provisionedThroughput.readCapacityUnits,
+				WriteCapacityUnits: options.provisionedThroughput.writeCapacityUnits,
+			}
+		: undefined;
+
+const globalSecondaryIndexOf = (gsi: GSIDefinition, options: EnsureTableOptions): GlobalSecondaryIndex => ({
+	IndexName: indexNameOf(gsi),
+	KeySchema: keySchemaOf(gsi.partitionKey, gsi.sortKey),
+	Projection: projectionOf(gsi),
+	ProvisionedThroughput: throughputOf(options),
+});
+
+const localSecondaryIndexOf = (table: ConnectedTable, lsi: LSIDefinition): LocalSecondaryIndex => ({
+	IndexName: indexNameOf(lsi),
+	KeySchema: keySchemaOf(table.keySchema.partitionKey.name, lsi.sortKey),
+	Projection: projectionOf(lsi),
+});
+
+/**
+ * Builds the CreateTable request matching the Table definition:
+ * primary key, GSIs, LSIs and their projections.
+ */
+export const createTableInput = (table: ConnectedTable, options: EnsureTableOptions = {}): CreateTableCommandInput => ({
+	TableName: table.tableName,
+	KeySchema: tableKeySchema(table),
+	AttributeDefinitions: attributeDefinitions(table, table.gsis, true, table.lsis),
+	BillingMode: options.billingMode ?? "PAY_PER_REQUEST",
+	ProvisionedThroughput: throughputOf(options),
+	GlobalSecondaryIndexes: table.gsis.length ? table.gsis.map((gsi) => globalSecondaryIndexOf(gsi, options)) : undefined,
+	LocalSecondaryIndexes: table.lsis.length ? table.lsis.map((lsi) => localSecondaryIndexOf(table, lsi)) : undefined,
+});
+
+/** TTL drift of an existing table; only checked when the Table declares a TTL attribute */
+const compareTimeToLive = (table: ConnectedTable, live: TimeToLiveDescription | undefined): TableDrift[] => {
+	const expected = table.options.ttlAttribute;
+	if (!expected || !live) return [];
+	const enabled = live.TimeToLiveStatus === "ENABLED" || live.TimeToLiveStatus === "ENABLING";
+	if (!enabled) {
+		return [{ type: "TTL_DISABLED", message: `TTL is not enabled, expected on '${expected}'`, expected }];
+	}
+	if (live.AttributeName !== expected) {
+		return [
+			{
+				type: "TTL_MISMATCH",
+				message: `TTL is enabled on '${live.AttributeName}', expected '${expected}'`,
+				expected,
+				actual: live.AttributeName,
+			},
+		];
+	}
+	return [];
+};
+
+/** Compares a live table description (and its TTL settings) against the Table definition */
+export const compareTable = (
+	table: ConnectedTable,
+	live: TableDescription | undefined,
+	timeToLive?: TimeToLiveDescription,
+): TableDiff => {
+	if (!live) {
+		return {
+			tableName: table.tableName,
+			exists: false,
+			inSync: false,
+			drifts: [{ type: "TABLE_MISSING", message: `Table '${table.tableName}' does not exist` }],
+		};
+	}
+
+	const drifts: TableDrift[] = [];
+	const expectedKeys = tableKeySchema(table);
+	if (!sameKeySchema(expectedKeys, live.KeySchema)) {
+		drifts.push({
+			type: "KEY_SCHEMA_MISMATCH",
+			message: `Table key schema is ${formatKeySchema(live.KeySchema)}, expected ${formatKeySchema(expectedKeys)}`,
+			expected: expectedKeys,
+			actual: live.KeySchema,
+		});
+	}
+
+	const liveIndexes = live.GlobalSecondaryIndexes ?? [];
+	for (const gsi of table.gsis) {
+		const indexName = indexNameOf(gsi);
+		const current = liveIndexes.find((index) => index.IndexName === indexName);
+		if (!current) {
+			drifts.push({ type: "GSI_MISSING", indexName, message: `GSI '${indexName}' does not exist` });
+			continue;
+		}
+		const expectedIndexKeys = keySchemaOf(gsi.partitionKey, gsi.sortKey);
+		if (!sameKeySchema(expectedIndexKeys, current.KeySchema)) {
+			drifts.push({
+				type: "GSI_KEY_MISMATCH",
+				indexName,
+				message: `GSI '${indexName}' key schema is ${formatKeySchema(current.KeySchema)}, expected ${formatKeySchema(expectedIndexKeys)}`,
+				expected: expectedIndexKeys,
+				actual: current.KeySchema,
+			});
+		}
+		const expectedProjection = projectionOf(gsi);
+		if (!sameProjection(expectedProjection, current.Projection)) {
+			drifts.push({
+				type: "GSI_PROJECTION_MISMATCH",
+				indexName,
+				message: `GSI '${indexName}' projection is ${current.Projection?.ProjectionType}, expected ${expectedProjection.ProjectionType}`,
+				expected: expectedProjection,
+				actual: current.Projection,
+			});
+		}
+	}
+	for (const index of liveIndexes) {
+		if (!table.gsis.some((gsi) => indexNameOf(gsi) === index.IndexName)) {
+			drifts.push({
+				type: "GSI_UNDECLARED",
+				indexName: index.IndexName,
+				message: `GSI '${index.IndexName}' exists but is not declared on the Table`,
+				actual: index.KeySchema,
+			});
+		}
+	}
+
+	// LSIs are fixed at table creation: their drift is reported but never applied
+	const liveLocalIndexes = live.LocalSecondaryIndexes ?? [];
+	for (const lsi of table.lsis) {
+		const indexName = indexNameOf(lsi);
+		const current = liveLocalIndexes.find((index) => index.IndexName === indexName);
+		if (!current) {
+			drifts.push({ type: "LSI_MISSING", indexName, message: `LSI '${indexName}' does not exist` });
+			continue;
+		}
+		const expected = localSecondaryIndexOf(table, lsi);
+		if (!sameKeySchema(expected.KeySchema, current.KeySchema)) {
+			drifts.push({
+				type: "LSI_KEY_MISMATCH",
+				indexName,
+				message: `LSI '${indexName}' key schema is ${formatKeySchema(current.KeySchema)}, expected ${formatKeySchema(expected.KeySchema)}`,
+				expected: expected.KeySchema,
+				actual: current.KeySchema,
+			});
+		}
+		if (!sameProjection(expected.Projection as Projection, current.Projection)) {
+			drifts.push({
+				type: "LSI_PROJECTION_MISMATCH",
+				indexName,
+				message: `LSI '${indexName}' projection is ${current.Projection?.ProjectionType}, expected ${expected.Projection?.ProjectionType}`,
+				expected: expected.Projection,
+				actual: current.Projection,
+			});
+		}
+	}
+	for (const index of liveLocalIndexes) {
+		if (!table.lsis.some((lsi) => indexNameOf(lsi) === index.IndexName)) {
+			drifts.push({
+				type: "LSI_UNDECLARED",
+				indexName: index.IndexName,
+				message: `LSI '${index.IndexName}' exists but is not declared on the Table`,
+				actual: index.KeySchema,
+			});
+		}
+	}
+
+	drifts.push(...compareTimeToLive(table, timeToLive));
+
+	return { tableName: table.tableName, exists: true, inSync: drifts.length === 0, drifts };
+};
+
+const describe = async (table: ConnectedTable): Promise<TableDescription | undefined> => {
+	try {
+		const output = (await table.client.send(
+			new DescribeTableCommand({ TableName: table.tableName }),
+		)) as DescribeTableCommandOutput;
+		return output.Table;
+	} catch (error: unknown) {
+		if ((error as { name?: string }).name === "ResourceNotFoundException") return undefined;
+		throw error;
+	}
+};
+
+const describeTimeToLive = async (table: ConnectedTable): Promise<TimeToLiveDescription | undefined> => {
+	if (!table.options.ttlAttribute) return undefined;
+	const output = (await table.client.send(
+		new DescribeTimeToLiveCommand({ TableName: table.tableName }),
+	)) as DescribeTimeToLiveCommandOutput;
+	return output.TimeToLiveDescription;
+};
+
+/** Describes the table and, for existing tables declaring a TTL attribute, its TTL settings */
+const compareLive = async (table: ConnectedTable) => {
+	const live = await describe(table);
+	return compareTable(table, live, live ? await describeTimeToLive(table) : undefined);
+};
+
+const isSettled = (live: TableDescription | undefined, gone?: string) =>
+	live?.TableStatus === "ACTIVE" &&
+	(live.GlobalSecondaryIndexes ?? []).every(
+		(index: GlobalSecondaryIndexDescription) => index.IndexStatus === "ACTIVE" && index.IndexName !== gone,
+	);
+
+const waitUntilActive = async (table: ConnectedTable, options: EnsureTableOptions, gone?: string) => {
+	if (options.waitForActive === false) return;
+	const deadline = Date.now() + (options.timeoutMs ?? 10 * 60 * 1000);
+	while (!isSettled(await describe(table), gone)) {
+		if (Date.now() > deadline) {
+			throw new DynamoOperationError(`Timed out waiting for table '${table.tableName}' to become ACTIVE`);
+		}
+		await sleep(options.pollIntervalMs ?? 2000);
+	}
+};
+
+/**
+ * Compares the live table (DescribeTable) with the Table definition
+ * and reports the drift without changing anything.
+ */
+export async function diffTable(table: ConnectedTable): Promise<DynamoResult<TableDiff>> {
+	try {
+		return [await compareLive(table), null];
+	} catch (error: unknown) {
+		return [null, new DynamoOperationError("DynamoDB operation failed", { cause: error })];
+	}
+}
+
+/**
+ * Creates the table when missing and reconciles its GSIs with the Table definition.
+ *
+ * Missing indexes are always created. Indexes with drifted keys or projection are
+ * recreated only with `recreateMismatchedIndexes`, and undeclared indexes are dropped
+ * only with `dropUndeclaredIndexes`. TTL is enabled on the declared attribute when
+ * disabled. Key schema, LSI and TTL attribute drift cannot be fixed in place and are
+ * reported as pending.
+ */
+export async function ensureTable(
+	table: ConnectedTable,
+	options: EnsureTableOptions = {},
+): Promise<DynamoResult<EnsureTableResult>> {
+	try {
+		const diff = await compareLive(table);
+		if (!diff.exists) {
+			await table.client.send(new CreateTableCommand(createTableInput(table, options)));
+			await waitUntilActive(table, options);
+			const applied = [...diff.drifts];
+			if (table.options.ttlAttribute) {
+				await enableTimeToLive(table, table.options.ttlAttribute);
+				applied.push(...compareTimeToLive(table, { TimeToLiveStatus: "DISABLED" }));
+			}
+			return [{ created: true, applied, pending: [] }, null];
+		}
+
+		const applied: TableDrift[] = [];
+		const pending: TableDrift[] = [];
+		const recreated = new Set<string>();
+		for (const drift of diff.drifts) {
+			const gsi = table.gsis.find((candidate) => indexNameOf(candidate) === drift.indexName);
+			const mismatched = drift.type === "GSI_KEY_MISMATCH" || drift.type === "GSI_PROJECTION_MISMATCH";
+
+			if (drift.type === "GSI_UNDECLARED" && options.dropUndeclaredIndexes && drift.indexName) {
+				await deleteIndex(table, drift.indexName, options);
+			} else if (mismatched && options.recreateMismatchedIndexes && gsi) {
+				// Projection and keys cannot be altered in place: drop the index and build it again
+				if (!recreated.has(indexNameOf(gsi))) {
+					recreated.add(indexNameOf(gsi));
+					await deleteIndex(table, indexNameOf(gsi), options);
+					await createIndex(table, gsi, options);
+				}
+			} else if (drift.type === "GSI_MISSING" && gsi) {
+				await createIndex(table, gsi, options);
+			} else if (drift.type === "TTL_DISABLED" && table.options.ttlAttribute) {
+				await enableTimeToLive(table, table.options.ttlAttribute);
+			} else {
+				pending.push(drift);
+				continue;
+			}
+			applied.push(drift);
+		}
+		return [{ created: false, applied, pending }, null];
+	} catch (error: unknown) {
+		if (error instanceof DynamoOperationError) return [null, error];
+		return [null, new DynamoOperationError("DynamoDB operation failed", { cause: error })];
+	}
+}
+
+// DynamoDB accepts a single index creation or deletion per UpdateTable call
+async function createIndex(table: ConnectedTable, gsi: GSIDefinition, options: EnsureTableOptions) {
+	await table.client.send(
+		new UpdateTableCommand({
+			TableName: table.tableName,
+			AttributeDefinitions: attributeDefinitions(table, [gsi], false),
+			GlobalSecondaryIndexUpdates: [{ Create: globalSecondaryIndexOf(gsi, options) }],
+		}),
+	);
+	await waitUntilActive(table, options);
+}
+
+async function deleteIndex(table: ConnectedTable, indexName: string, options: EnsureTableOptions) {
+	await table.client.send(
+		new UpdateTableCommand({
+			TableName: table.tableName,
+			GlobalSecondaryIndexUpdates: [{ Delete: { IndexName: indexName } }],
+		}),
+	);
+	await waitUntilActive(table, options, indexName);
+}
+
+async function enableTimeToLive(table: ConnectedTable, attributeName: string) {
+	await table.client.send(
+		new UpdateTimeToLiveCommand({
+			TableName: table.tableName,
+			TimeToLiveSpecification: { Enabled: true, AttributeName: attributeName },
+		}),
+	);
+}
@@ -1,26 +1,81 @@
 import { DynamoDBClient, type DynamoDBClientConfig } from "@aws-sdk/client-dynamodb";
 import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
+import { type KeyProvider, Keyring } from "../common/encryption.js";
+import type { ConsumedCapacityMode, MetricsCollector } from "../common/metrics.js";
+import type { Middleware } from "../common/middleware.js";
+import type { RetryPolicy } from "../common/retry.js";
 import type { CaseTransformer } from "../common/transformer.js";
-import type { GSIDefinition } from "../common/types.js";
+import type { GSIDefinition, LSIDefinition, TableKeySchema, TimestampsConfig } from "../common/types.js";
+import type { DynamoResult } from "../operations/base-operation.js";
+import { InMemoryClient } from "./memory/client.js";
+import {
+	type EnsureTableOptions,
+	type EnsureTableResult,
+	diffTable,
+	ensureTable,
+	type TableDiff,
+} from "./provisioning.js";
 
 export interface TableOptions {
 	caseStyle?: CaseTransformer;
 	clientConfig?: DynamoDBClientConfig;
+	/** Retry policy for throttled and transient failures (overridable per operation) */
+	retry?: RetryPolicy;
+	/** Requests the consumed capacity of every operation (overridable per operation) */
+	consumedCapacity?: ConsumedCapacityMode;
+	/** Managed createdAt/updatedAt timestamps */
+	timestamps?: boolean | TimestampsConfig;
+	/**
+	 * Attribute storing the entity name on every write (default: '_et'; false disables it).
+	 * Breaking change: enabled by default, so existing items gain the attribute on their next write.
+	 */
+	entityTypeAttribute?: string | false;
+	/** Attribute DynamoDB TTL reads expiration times from (epoch seconds, see `zdynamo.ttl()`) */
+	ttlAttribute?: string;
+	/** Collector aggregating capacity and execution metrics per entity and operation */
+	metrics?: MetricsCollector;
+	/** Provider of the keys encrypting fields declared with `zdynamo.encrypted()` */
+	encryption?: KeyProvider;
+}
+
+/**
+ * Contract of the client used to execute commands: satisfied by
+ * `DynamoDBDocumentClient` and by the `InMemoryClient` used in tests.
+ */
+export interface DocumentClient {
+	send(command: object): Promise<object>;
 }
 
 export interface ConnectedTable {
 	tableName: string;
-	client: DynamoDBDocumentClient;
+	client: DocumentClient;
+	keySchema: TableKeySchema;
 	gsis: GSIDefinition[];
+	lsis: LSIDefinition[];
 	options: TableOptions;
+	/** Middleware run for every command sent against the table */
+	middleware: Middleware[];
+	/** Keys of the encrypted fields, cached from the table's key provider */
+	keyring?: Keyring;
 	getGsiByAlias(alias: string): GSIDefinition | undefined;
+	getLsiByAlias(alias: string): LSIDefinition | undefined;
+	/** Creates the table if missing and reconciles its GSIs with the definition */
+	ensureTable(options?: EnsureTableOptions): Promise<DynamoResult<EnsureTableResult>>;
+	/** Reports the drift between the live table and the definition */
+	diff(): Promise<DynamoResult<TableDiff>>;
 }
 
 export class Table {
 	private tableName?: string;
-	private clientInstance?: DynamoDBDocumentClient;
+	private clientInstance?: DocumentClient;
 	private gsiList: GSIDefinition[] = [];
+	private lsiList: LSIDefinition[] = [];
+	private keySchema: TableKeySchema = {
+		partitionKey: { name: "pk", type: "S" },
+		sortKey: { name: "sk", type: "S" },
+	};
 	private tableOptions: TableOptions = {};
+	private middlewareList: Middleware[] = [];
 
 	/** Inicializa a conexão com o nome da tabela e região opcional */
 	public static connect(name: string, region?: string) {
@@ -38,18 +93,111 @@ export class Table {
 		return this;
 	}
 
-	/** Define uma instância customizada do DynamoDBDocumentClient */
-	public client(client: DynamoDBDocumentClient) {
+	/** Define uma instância customizada do DynamoDBDocumentClient (ou um InMemoryClient) */
+	public client(client: DocumentClient) {
 		this.clientInstance = client;
 		return this;
 	}
 
+	/**
+	 * Define os atributos físicos da chave primária (padrão: `pk`/`sk` do tipo S).
+	 * Os campos `pk`/`sk` do schema são mapeados para esses atributos.
+	 */
+	public keys(keySchema: TableKeySchema) {
+		this.keySchema = {
+			partitionKey: { type: "S", ...keySchema.partitionKey },
+			sortKey: keySchema.sortKey && { type: "S", ...keySchema.sortKey },
+		};
+		return this;
+	}
+
+	/**
+	 * Define a política de retry para throttling e falhas transitórias.
+	 * Cada operação pode sobrescrevê-la com `.retry(policy)`.
+	 */
+	public retry(policy: RetryPolicy) {
+		this.tableOptions.retry = policy;
+		return this;
+	}
+
+	/**
+	 * Solicita a capacidade consumida (`ReturnConsumedCapacity`) em todas as operações.
+	 * Cada operação pode sobrescrevê-la com `.consumedCapacity(mode)`.
+	 */
+	public consumedCapacity(mode: ConsumedCapacityMode = "TOTAL") {
+		this.tableOptions.consumedCapacity = mode;
+		return this;
+	}
+
+	/**
+	 * Define o atributo de TTL da tabela (em epoch seconds, veja `zdynamo.ttl()`).
+	 * `ensureTable()` habilita o TTL nesse atributo.
+	 */
+	public ttl(attribute: string) {
+		this.tableOptions.ttlAttribute = attribute;
+		return this;
+	}
+
+	/**
+	 * Define o atributo que guarda o nome da entidade em cada escrita (padrão: `_et`),
+	 * usado para ignorar itens de outras entidades nas leituras. `false` desativa.
+	 *
+	 * Mudança incompatível: o atributo vem ativado por padrão, então toda escrita passa
+	 * a gravá-lo, inclusive em itens já existentes. Use `false` para manter os itens como estavam.
+	 */
+	public entityType(attribute: string | false) {
+		this.tableOptions.entityTypeAttribute = attribute;
+		return this;
+	}
+
+	/**
+	 * Ativa os timestamps gerenciados: `createdAt` é definido uma única vez e
+	 * `updatedAt` é atualizado em toda escrita. Nomes e formato são configuráveis.
+	 */
+	public timestamps(config: boolean | TimestampsConfig = true) {
+		this.tableOptions.timestamps = config;
+		return this;
+	}
+
+	/**
+	 * Define o provedor das chaves que criptografam os campos declarados com
+	 * `zdynamo.encrypted()` (AES-GCM, no cliente). As chaves obtidas ficam em cache na tabela.
+	 */
+	public encryption(provider: KeyProvider) {
+		this.tableOptions.encryption = provider;
+		return this;
+	}
+
+	/** Define o coletor que agrega capacidade e execuções por entidade e operação */
+	public metrics(collector: MetricsCollector) {
+		this.tableOptions.metrics = collector;
+		return this;
+	}
+
+	/**
+	 * Registra middlewares executados em volta de cada comando enviado pelas operações,
+	 * na ordem de registro e antes dos middlewares da entidade.
+	 */
+	public use(...middleware: Middleware[]) {
+		this.middlewareList.push(...middleware);
+		return this;
+	}
+
 	/** Define as GSIs da tabela */
 	public gsis(gsis: GSIDefinition[]) {
 		this.gsiList = gsis;
 		return this;
 	}
 
+	/**
+	 * Define as LSIs da tabela (mesma partition key, sort key alternativa).
+	 * LSIs só podem ser criadas junto com a tabela.
+	 */
+	public lsis(lsis: LSIDefinition[]) {
+		this.lsiList = lsis;
+		return this;
+	}
+
 	/** Define opções adicionais da tabela */
 	public options(options: TableOptions) {
 		this.tableOptions = options;
@@ -68,12 +216,31 @@ export class Table {
 		const client =
 			this.clientInstance ?? DynamoDBDocumentClient.from(new DynamoDBClient(this.tableOptions.clientConfig ?? {}));
 
-		return {
+		if (client instanceof InMemoryClient && client.autoCreateTables) {
+			client.defineTable({
+				tableName: this.tableName,
+				partitionKey: this.keySchema.partitionKey.name,
+				sortKey: this.keySchema.sortKey?.name,
+				gsis: this.gsiList,
+				lsis: this.lsiList,
+				ttlAttribute: this.tableOptions.ttlAttribute,
+			});
+		}
+
+		const table: ConnectedTable = {
 			tableName: this.tableName,
 			client,
+			keySchema: this.keySchema,
 			gsis: this.gsiList,
+			lsis: this.lsiList,
 			options: this.tableOptions,
+			middleware: this.middlewareList,
+			keyring: this.tableOptions.encryption && new Keyring(this.tableOptions.encryption),
 			getGsiByAlias: (alias: string) => this.gsiList.find((gsi) => gsi.alias === alias),
+			getLsiByAlias: (alias: string) => this.lsiList.find((lsi) => lsi.alias === alias),
+			ensureTable: (options?: EnsureTableOptions) => ensureTable(table, options),
+			diff: () => diffTable(table),
 		};
+		return table;
 	}
 }
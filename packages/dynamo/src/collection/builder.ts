@@ -0,0 +1,63 @@
+import { type CollectionEntities, Collection as SkadiCollection } from "./collection.js";
+
+/**
+ * Builder for creating collection definitions
+ *
+ * @template TName - The literal type of the collection name
+ */
+export class CollectionBuilder<TName extends string> {
+	constructor(private collectionName: TName) {}
+
+	/**
+	 * Sets the entities of the collection
+	 *
+	 * @param entities - Entities sharing one table, by the key their items are grouped under
+	 * @returns Collection instance ready for queries
+	 * @throws Error if the entities do not share a table
+	 *
+	 * @example
+	 * ```typescript
+	 * const UserCollection = Collection.define('UserAccounts')
+	 *   .entities({ user: UserEntity, accounts: AccountEntity });
+	 * ```
+	 */
+	entities<TEntities extends CollectionEntities>(entities: TEntities) {
+		const members = Object.values(entities);
+		const [first] = members;
+		if (!first) {
+			throw new Error(`Collection ${this.collectionName}: At least one entity is required`);
+		}
+		for (const entity of members) {
+			if (entity.table.tableName !== first.table.tableName) {
+				throw new Error(
+					`Collection ${this.collectionName}: Entity ${entity.entityName} is on table '${entity.table.tableName}', not '${first.table.tableName}'`,
+				);
+			}
+		}
+		return new SkadiCollection(this.collectionName, first.table, entities);
+	}
+}
+
+/**
+ * Static factory for creating collection definitions
+ *
+ * Entry point for the collection definition fluent interface.
+ */
+export const Collection = {
+	/**
+	 * Creates a new collection builder with the specified name
+	 *
+	 * @template TName - The literal type of the collection name
+	 * @param name - Name of the collection (reported to middleware and metrics)
+	 * @returns CollectionBuilder instance for further configuration
+	 *
+	 * @example
+	 * ```typescript
+	 * const UserCollection = Collection.define('UserAccounts')
+	 *   .entities({ user: UserEntity, accounts: AccountEntity });
+	 * ```
+	 */
+	define<TName extends string>(name: TName) {
+		return new CollectionBuilder(name);
+	},
+};
@@ -0,0 +1,60 @@
+import type { z } from "zod";
+import type { ConnectedTable } from "../client/table.js";
+import type { EntitySchemaDefinition } from "../common/types.js";
+import type { Entity } from "../entity/entity.js";
+import { CollectionQueryBuilder } from "../operations/index.js";
+
+type AnyEntity = Entity<string, z.ZodObject<EntitySchemaDefinition>>;
+
+/** Entities of a collection, by the key their items are grouped under */
+export type CollectionEntities = Record<string, AnyEntity>;
+
+/** Items read by a collection query, grouped by entity */
+export type CollectionItems<TEntities extends CollectionEntities> = {
+	[K in keyof TEntities]: z.infer<TEntities[K]["schema"]>[];
+};
+
+type UnionToIntersection<U> = (U extends unknown ? (value: U) => void : never) extends (value: infer I) => void
+	? I
+	: never;
+
+/** Key data every entity of the collection builds its partition key from */
+export type CollectionKey<TEntities extends CollectionEntities> = UnionToIntersection<
+	{ [K in keyof TEntities]: z.input<TEntities[K]["schema"]["shape"]["pk"]> }[keyof TEntities]
+>;
+
+/**
+ * Groups entities sharing a table and a partition (single-table design),
+ * so that one query reads them all, each item parsed with its own schema.
+ *
+ * @template TName - The literal type of the collection name
+ * @template TEntities - The entities of the collection, by key
+ */
+export class Collection<TName extends string, TEntities extends CollectionEntities> {
+	constructor(
+		/** The name of the collection */
+		public readonly collectionName: TName,
+		/** The connected table the entities share */
+		public readonly table: ConnectedTable,
+		/** The entities of the collection, by key */
+		public readonly entities: TEntities,
+	) {}
+
+	/**
+	 * Creates a query reading the items of every entity in a partition
+	 *
+	 * @returns CollectionQueryBuilder grouping the items by entity
+	 *
+	 * @example
+	 * ```typescript
+	 * const [result] = await UserCollection.query()
+	 *   .pk({ userId: 'user-123' })
+	 *   .exec();
+	 * result.items.user;     // User[]
+	 * result.items.accounts; // Account[]
+	 * ```
+	 */
+	query() {
+		return new CollectionQueryBuilder(this.table, this.collectionName, this.entities);
+	}
+}
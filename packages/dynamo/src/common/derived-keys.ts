@@ -0,0 +1,51 @@
+import type { z } from "zod";
+import type { EntitySchemaDefinition } from "./types.js";
+
+type UnknownObject = Record<string, unknown>;
+
+/** A key field computed from sibling fields (see `zdynamo.derivedKey`) */
+export interface DerivedKey {
+	field: string;
+	/** Fields the key template reads */
+	sources: string[];
+	schema: z.ZodTypeAny;
+}
+
+/** Derived key fields of an entity schema */
+export const derivedKeysOf = (schema: z.ZodObject<EntitySchemaDefinition>): DerivedKey[] =>
+	Object.entries(schema.shape).flatMap(([field, fieldSchema]) => {
+		const meta = (fieldSchema as z.ZodTypeAny & { _skadiDerived?: { sources: string[] } })._skadiDerived;
+		return meta ? [{ field, sources: meta.sources, schema: fieldSchema }] : [];
+	});
+
+/**
+ * Renders the given derived keys from `values`. Keys missing a source are left out,
+ * so sparse indexes stay sparse.
+ */
+export const deriveKeys = (values: UnknownObject, keys: DerivedKey[]): UnknownObject =>
+	Object.fromEntries(
+		keys
+			.filter(({ sources }) => sources.every((source) => values[source] !== undefined && values[source] !== null))
+			.map(({ field, sources, schema }) => [
+				field,
+				schema.parse(Object.fromEntries(sources.map((source) => [source, values[source]]))),
+			]),
+	);
+
+/** Fills the derived keys of an item being created from its fields */
+export const withDerivedKeys = <T extends UnknownObject>(schema: z.ZodObject<EntitySchemaDefinition>, item: T): T => {
+	const keys = derivedKeysOf(schema);
+	return keys.length > 0 ? { ...item, ...deriveKeys(item, keys) } : item;
+};
+
+/**
+ * Derived keys an update must recompute: those (outside the primary key, which
+ * cannot change) reading an updated field, along with the sources the update lacks.
+ */
+export const staleKeys = (schema: z.ZodObject<EntitySchemaDefinition>, updates: UnknownObject) => {
+	const keys = derivedKeysOf(schema).filter(
+		({ field, sources }) => field !== "pk" && field !== "sk" && sources.some((source) => source in updates),
+	);
+	const missing = keys.flatMap(({ sources }) => sources.filter((source) => !(source in updates)));
+	return { keys, missing: [...new Set(missing)] };
+};
@@ -0,0 +1,159 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+import type { z } from "zod";
+import { EncryptionError } from "./errors.js";
+
+/** Prefix of encrypted attribute values: `$enc:v1:<key id>:<iv>:<ciphertext and tag>` */
+const ENCRYPTED_PREFIX = "$enc:v1:";
+
+const ALGORITHM = "aes-256-gcm";
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+/** A 256-bit AES key, identified by the id stored along with the values it encrypts */
+export interface DataKey {
+	id: string;
+	key: Uint8Array;
+}
+
+/**
+ * Source of the keys encrypting fields declared with `zdynamo.encrypted()`.
+ *
+ * KMS-style providers do envelope encryption: `encryptionKey()` generates a data key
+ * and returns its wrapped (encrypted) form as the id, and `decryptionKey()` unwraps it.
+ * Keys are cached by the table, so each is requested once.
+ */
+export interface KeyProvider {
+	/** Data key new values are encrypted with */
+	encryptionKey(): DataKey | Promise<DataKey>;
+	/** Data key of a stored value, by the id it was written with */
+	decryptionKey(id: string): Uint8Array | Promise<Uint8Array>;
+}
+
+/**
+ * Key provider holding a single local key, for tests and local development
+ *
+ * @example
+ * ```typescript
+ * const table = Table.connect('app').encryption(new LocalKeyProvider(randomBytes(32))).build();
+ * ```
+ */
+export class LocalKeyProvider implements KeyProvider {
+	constructor(
+		private readonly key: Uint8Array,
+		private readonly id = "local",
+	) {
+		if (key.length !== 32) throw new Error("LocalKeyProvider requires a 256-bit (32 byte) key");
+	}
+
+	encryptionKey(): DataKey {
+		return { id: this.id, key: this.key };
+	}
+
+	decryptionKey(id: string): Uint8Array {
+		if (id !== this.id) throw new Error(`Unknown encryption key '${id}'`);
+		return this.key;
+	}
+}
+
+/** Whether a field schema was declared with `zdynamo.encrypted()` (looking through optional/nullable/default) */
+export const isEncryptedField = (field: unknown): boolean => {
+	let current = field as (z.ZodTypeAny & { _skadiEncrypted?: boolean; _def?: { innerType?: unknown } }) | undefined;
+	while (current) {
+		if (current._skadiEncrypted) return true;
+		current = current._def?.innerType as typeof current;
+	}
+	return false;
+};
+
+/** Names of the schema fields declared with `zdynamo.encrypted()` */
+export const encryptedFields = (schema?: z.ZodObject<Record<string, z.ZodTypeAny>>): string[] =>
+	Object.entries(schema?.shape ?? {})
+		.filter(([, field]) => isEncryptedField(field))
+		.map(([name]) => name);
+
+const isEncryptedValue = (value: unknown): value is string =>
+	typeof value === "string" && value.startsWith(ENCRYPTED_PREFIX);
+
+/**
+ * Encrypts and decrypts field values with AES-GCM (the field name is bound as
+ * additional data). Keys come from the table's provider and are resolved ahead of
+ * time by the operations, so that serialization stays synchronous.
+ */
+export class Keyring {
+	private current?: DataKey;
+	private keys = new Map<string, Uint8Array>();
+
+	constructor(private readonly provider: KeyProvider) {}
+
+	/** Resolves the key new values are encrypted with (once) */
+	async prepareEncryption() {
+		if (this.current) return;
+		try {
+			this.current = await this.provider.encryptionKey();
+		} catch (error) {
+			throw new EncryptionError("Could not get the encryption key", error);
+		}
+		this.keys.set(this.current.id, this.current.key);
+	}
+
+	/** Resolves the keys of every encrypted value found in a command output */
+	async prepareDecryption(output: unknown) {
+		const ids = new Set<string>();
+		const collect = (value: unknown) => {
+			if (isEncryptedValue(value)) ids.add(this.parse(value).id);
+			else if (Array.isArray(value)) value.forEach(collect);
+			else if (value && typeof value === "object" && !(value instanceof Uint8Array)) {
+				Object.values(value).forEach(collect);
+			}
+		};
+		collect(output);
+		for (const id of ids) {
+			if (this.keys.has(id)) continue;
+			try {
+				this.keys.set(id, await this.provider.decryptionKey(id));
+			} catch (error) {
+				throw new EncryptionError(`Could not get the decryption key '${id}'`, error);
+			}
+		}
+	}
+
+	/**
+	 * Encrypts a (marshalled) field value into a string attribute
+	 *
+	 * @throws EncryptionError if the encryption key was not resolved
+	 */
+	encrypt(field: string, value: unknown): string {
+		if (!this.current) throw new EncryptionError("Encryption key not resolved");
+		const iv = randomBytes(IV_BYTES);
+		const cipher = createCipheriv(ALGORITHM, this.current.key, iv);
+		cipher.setAAD(Buffer.from(field));
+		const data = Buffer.concat([cipher.update(JSON.stringify(value), "utf8"), cipher.final(), cipher.getAuthTag()]);
+		return `${ENCRYPTED_PREFIX}${encodeURIComponent(this.current.id)}:${iv.toString("base64")}:${data.toString("base64")}`;
+	}
+
+	/**
+	 * Decrypts a field value written by `encrypt`; other values are returned as is
+	 *
+	 * @throws EncryptionError if the key was not resolved or the value was tampered with
+	 */
+	decrypt(field: string, value: unknown): unknown {
+		if (!isEncryptedValue(value)) return value;
+		const { id, iv, data } = this.parse(value);
+		const key = this.keys.get(id);
+		if (!key) throw new EncryptionError(`Decryption key '${id}' not resolved`);
+		try {
+			const decipher = createDecipheriv(ALGORITHM, key, iv);
+			decipher.setAAD(Buffer.from(field));
+			decipher.setAuthTag(data.subarray(data.length - TAG_BYTES));
+			const plain = Buffer.concat([decipher.update(data.subarray(0, data.length - TAG_BYTES)), decipher.final()]);
+			return JSON.parse(plain.toString("utf8"));
+		} catch (error) {
+			throw new EncryptionError(`Could not decrypt field '${field}'`, error);
+		}
+	}
+
+	private parse(value: string) {
+		const [id = "", iv = "", data = ""] = value.slice(ENCRYPTED_PREFIX.length).split(":");
+		return { id: decodeURIComponent(id), iv: Buffer.from(iv, "base64"), data: Buffer.from(data, "base64") };
+	}
+}
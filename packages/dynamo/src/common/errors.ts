@@ -27,8 +27,175 @@ export class MissingKeyError extends SkadiDynamoError {
 /** Thrown for general DynamoDB operation failures */
 export class DynamoOperationError extends SkadiDynamoError {
 	public override readonly cause?: unknown;
-	constructor(message: string, cause?: unknown) {
-		super("DYNAMO_OPERATION_ERROR", message);
+	constructor(message: string, cause?: unknown, code = "DYNAMO_OPERATION_ERROR") {
+		super(code, message);
 		this.cause = cause;
 	}
 }
+
+/** Thrown when a condition expression evaluates to false */
+export class ConditionalCheckFailedError extends DynamoOperationError {
+	/** Item as stored, when the operation asked for it on condition failure */
+	public readonly item?: Record<string, unknown>;
+	constructor(message: string, cause?: unknown, item?: Record<string, unknown>, code = "CONDITIONAL_CHECK_FAILED") {
+		super(message, cause, code);
+		this.item = item;
+	}
+}
+
+/** Thrown when `create()` finds an item already stored under the key (use `put()` to overwrite it) */
+export class ItemAlreadyExistsError extends ConditionalCheckFailedError {
+	constructor(cause?: unknown, item?: Record<string, unknown>) {
+		super("Item already exists", cause, item, "ITEM_ALREADY_EXISTS");
+	}
+}
+
+/** Thrown when a versioned write finds the item at another version than expected (optimistic locking) */
+export class VersionConflictError extends ConditionalCheckFailedError {
+	/** Version the write expected */
+	public readonly expectedVersion: number;
+	/** Version currently stored; undefined when the item does not exist */
+	public readonly currentVersion?: number;
+	constructor(
+		message: string,
+		expectedVersion: number,
+		currentVersion?: number,
+		cause?: unknown,
+		item?: Record<string, unknown>,
+	) {
+		super(message, cause, item, "VERSION_CONFLICT");
+		this.expectedVersion = expectedVersion;
+		this.currentVersion = currentVersion;
+	}
+}
+
+/** Thrown when a write would give a unique field a value another item holds (see the `unique` entity option) */
+export class UniqueConstraintError extends ConditionalCheckFailedError {
+	/** Unique field whose value is taken */
+	public readonly field: string;
+	public readonly value: unknown;
+	constructor(field: string, value: unknown, cause?: unknown) {
+		super(`Value of unique field '${field}' is already taken`, cause, undefined, "UNIQUE_CONSTRAINT_VIOLATION");
+		this.field = field;
+		this.value = value;
+	}
+}
+
+/** Why a single transaction item was rejected */
+export interface TransactionCancellationReason {
+	/** Position of the item in the transaction (order of the builder calls) */
+	index: number;
+	/** Builder call that added the item */
+	operation?: "put" | "update" | "delete";
+	/** DynamoDB key of the item */
+	key?: Record<string, unknown>;
+	/** DynamoDB cancellation code (e.g. 'ConditionalCheckFailed', 'TransactionConflict') */
+	reason: string;
+	message?: string;
+	/** Item as stored, when returned by DynamoDB */
+	item?: Record<string, unknown>;
+}
+
+/** Thrown when DynamoDB cancels a transaction; lists only the items that caused it */
+export class TransactionCanceledError extends DynamoOperationError {
+	public readonly reasons: TransactionCancellationReason[];
+	constructor(message: string, cause?: unknown, reasons: TransactionCancellationReason[] = []) {
+		super(message, cause, "TRANSACTION_CANCELED");
+		this.reasons = reasons;
+	}
+}
+
+/** Thrown when requests keep being throttled after every retry attempt */
+export class ThrottledError extends DynamoOperationError {
+	constructor(message: string, cause?: unknown) {
+		super(message, cause, "THROTTLED");
+	}
+}
+
+/** Thrown when an item exceeds DynamoDB's 400 KB limit */
+export class ItemTooLargeError extends DynamoOperationError {
+	constructor(message: string, cause?: unknown) {
+		super(message, cause, "ITEM_TOO_LARGE");
+	}
+}
+
+/** Thrown when the table or index does not exist */
+export class ResourceNotFoundError extends DynamoOperationError {
+	constructor(message: string, cause?: unknown) {
+		super(message, cause, "RESOURCE_NOT_FOUND");
+	}
+}
+
+/** Thrown when encrypted fields cannot be encrypted or decrypted (missing key, provider failure, tampering) */
+export class EncryptionError extends DynamoOperationError {
+	constructor(message: string, cause?: unknown) {
+		super(message, cause, "ENCRYPTION_ERROR");
+	}
+}
+
+/** Thrown when an entity lifecycle hook throws, rejecting the operation */
+export class HookRejectedError extends DynamoOperationError {
+	/** Hook that threw (e.g. 'beforeCreate') */
+	public readonly hook: string;
+	constructor(message: string, hook: string, cause?: unknown) {
+		super(message, cause, "HOOK_REJECTED");
+		this.hook = hook;
+	}
+}
+
+/** Type guard for errors raised by this library */
+export const isSkadiDynamoError = (error: unknown): error is SkadiDynamoError => error instanceof SkadiDynamoError;
+
+type AwsError = {
+	name?: string;
+	message?: string;
+	Item?: Record<string, unknown>;
+	CancellationReasons?: Array<{ Code?: string; Message?: string; Item?: Record<string, unknown> }>;
+};
+
+/** Error names DynamoDB uses to signal throttling */
+const THROTTLING_ERRORS = new Set([
+	"ProvisionedThroughputExceededException",
+	"ThrottlingException",
+	"RequestLimitExceeded",
+]);
+
+/** Whether an AWS SDK exception signals throttling */
+export const isThrottlingError = (error: unknown): boolean =>
+	THROTTLING_ERRORS.has((error as AwsError | undefined)?.name ?? "");
+
+/**
+ * Maps an AWS SDK exception onto the matching error class.
+ * `decodeItem` converts items returned in the exception (wire format) into entity attributes.
+ */
+export const toOperationError = (
+	error: unknown,
+	decodeItem: (item: Record<string, unknown>) => Record<string, unknown>,
+): DynamoOperationError => {
+	// Errors raised by middleware are passed through untouched
+	if (error instanceof DynamoOperationError) return error;
+	const { name = "", message = "", Item, CancellationReasons } = (error ?? {}) as AwsError;
+	const cause = { cause: error };
+
+	if (name === "ConditionalCheckFailedException") {
+		return new ConditionalCheckFailedError("Condition check failed", cause, Item && decodeItem(Item));
+	}
+	if (name === "TransactionCanceledException") {
+		const reasons = (CancellationReasons ?? []).flatMap((reason, index) =>
+			!reason.Code || reason.Code === "None"
+				? []
+				: [{ index, reason: reason.Code, message: reason.Message, item: reason.Item && decodeItem(reason.Item) }],
+		);
+		return new TransactionCanceledError("Transaction canceled", cause, reasons);
+	}
+	if (isThrottlingError(error)) {
+		return new ThrottledError("Request throttled by DynamoDB", cause);
+	}
+	if (name === "ValidationException" && /item size .*exceeded/i.test(message)) {
+		return new ItemTooLargeError("Item exceeds the maximum allowed size", cause);
+	}
+	if (name === "ResourceNotFoundException") {
+		return new ResourceNotFoundError("Table or index not found", cause);
+	}
+	return new DynamoOperationError("DynamoDB operation failed", cause);
+};
@@ -0,0 +1,78 @@
+import type { z } from "zod";
+import { HookRejectedError, isSkadiDynamoError } from "./errors.js";
+import type { OperationKind } from "./middleware.js";
+import type { EntitySchemaDefinition } from "./types.js";
+
+type UnknownObject = Record<string, unknown>;
+
+type Awaitable<T> = T | Promise<T>;
+
+/** What a hook sees about the operation running it */
+export interface HookContext {
+	entityName: string;
+	/** Builder operation running the hook (`transaction` for transaction writes) */
+	operation: OperationKind;
+	/** DynamoDB key of the item, for updates and deletes */
+	key?: UnknownObject;
+}
+
+/**
+ * Lifecycle hooks of an entity, declared with `schema(definition, { hooks })`.
+ *
+ * `before*` hooks run before the command is built: they may mutate their input or
+ * return a replacement, and throw to reject the operation (surfaced as `HookRejectedError`,
+ * unless a library error is thrown). `after*` hooks run once DynamoDB accepted the write;
+ * if they throw, the write is kept and the error is returned.
+ * `afterLoad` runs for every item read by get, query and batchGet, and may return a replacement.
+ * `put()` runs the create hooks, and `upsert()` (an UpdateItem) the update hooks.
+ *
+ * Transactions run the hooks of each put/update/delete; as TransactWriteItems returns
+ * no items, `afterUpdate` and `afterDelete` receive `null` there.
+ *
+ * @example
+ * ```typescript
+ * const hooks: EntityHooks<typeof schema> = {
+ *   beforeCreate: (item) => ({ ...item, slug: slugify(item.title) }),
+ *   beforeDelete: (key) => {
+ *     if (key.pk === 'USER#root') throw new Error('root cannot be deleted');
+ *   },
+ * };
+ * ```
+ */
+export interface EntityHooks<
+	TSchema extends z.ZodObject<EntitySchemaDefinition> = z.ZodObject<EntitySchemaDefinition>,
+> {
+	beforeCreate?(item: z.infer<TSchema>, context: HookContext): Awaitable<z.infer<TSchema> | undefined>;
+	afterCreate?(item: z.infer<TSchema>, context: HookContext): Awaitable<void>;
+	beforeUpdate?(
+		updates: Partial<z.input<TSchema>>,
+		context: HookContext,
+	): Awaitable<Partial<z.input<TSchema>> | undefined>;
+	afterUpdate?(item: z.infer<TSchema> | null, context: HookContext): Awaitable<void>;
+	beforeDelete?(key: UnknownObject, context: HookContext): Awaitable<void>;
+	afterDelete?(item: UnknownObject | null, context: HookContext): Awaitable<void>;
+	afterLoad?(item: z.infer<TSchema>, context: HookContext): Awaitable<z.infer<TSchema> | undefined>;
+}
+
+export type HookName = keyof EntityHooks;
+
+/**
+ * Runs a hook if declared and returns its replacement value, or the (possibly mutated) input.
+ * Errors thrown by the hook are wrapped in `HookRejectedError`.
+ */
+export const runHook = async <T>(
+	hooks: EntityHooks | undefined,
+	name: HookName,
+	value: T,
+	context: HookContext,
+): Promise<T> => {
+	const hook = hooks?.[name] as ((value: T, context: HookContext) => Awaitable<T | undefined>) | undefined;
+	if (!hook) return value;
+	try {
+		return (await hook.call(hooks, value, context)) ?? value;
+	} catch (error: unknown) {
+		if (isSkadiDynamoError(error)) throw error;
+		const message = error instanceof Error ? error.message : String(error);
+		throw new HookRejectedError(`Hook '${name}' rejected the operation: ${message}`, name, error);
+	}
+};
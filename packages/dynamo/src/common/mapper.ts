@@ -0,0 +1,261 @@
+import type { z } from "zod";
+import type { ConnectedTable } from "../client/table.js";
+import { encryptedFields } from "./encryption.js";
+import { INDEX_KEYS_STASH } from "./soft-delete.js";
+import { aliasOf, deserialize, type FieldEncryption, serialize, storageName } from "./transformer.js";
+import type { EntitySchemaDefinition, KeyAttribute, TimestampFormat } from "./types.js";
+
+type UnknownObject = Record<string, unknown>;
+
+type EntitySchema = z.ZodObject<EntitySchemaDefinition>;
+
+/** Field schema as seen by the mapper: zdynamo markers and Zod wrapper internals */
+type MarkedSchema = z.ZodTypeAny & { _skadiTtl?: boolean; _def?: { innerType?: MarkedSchema } };
+
+/** Reads a zdynamo marker of a field, looking through optional/nullable/default wrappers */
+const markerOf = <K extends keyof MarkedSchema>(field: unknown, marker: K): MarkedSchema[K] | undefined => {
+	let current = field as MarkedSchema | undefined;
+	while (current) {
+		if (current[marker] !== undefined) return current[marker];
+		current = current._def?.innerType;
+	}
+	return undefined;
+};
+
+/** Names of the schema fields declared with `zdynamo.ttl()` */
+const ttlFields = (schema?: EntitySchema) =>
+	Object.entries(schema?.shape ?? {})
+		.filter(([, field]) => markerOf(field, "_skadiTtl"))
+		.map(([name]) => name);
+
+/** Managed timestamp fields of a table, resolved from `Table.timestamps()` */
+export interface ManagedTimestamps {
+	createdAt?: string;
+	updatedAt?: string;
+	format: TimestampFormat;
+}
+
+export const managedTimestamps = (table: ConnectedTable): ManagedTimestamps | undefined => {
+	const config = table.options.timestamps;
+	if (!config) return undefined;
+	const { createdAt = "createdAt", updatedAt = "updatedAt", format = "iso" } = config === true ? {} : config;
+	return { createdAt: createdAt || undefined, updatedAt: updatedAt || undefined, format };
+};
+
+/** Fields written in epoch milliseconds: managed timestamps in the 'epoch' format */
+const epochFields = (table: ConnectedTable) => {
+	const timestamps = managedTimestamps(table);
+	return timestamps?.format === "epoch" ? [timestamps.createdAt, timestamps.updatedAt].flatMap((f) => f ?? []) : [];
+};
+
+/**
+ * Stamps both managed timestamps with the write time. Puts write them as is;
+ * updates write `createdAt` with `if_not_exists` (see {@link setOnceAttributes}),
+ * so it keeps the time the item was first written.
+ */
+export const stampTimestamps = <T extends UnknownObject>(table: ConnectedTable, item: T, now = new Date()): T => {
+	const timestamps = managedTimestamps(table);
+	if (!timestamps) return item;
+	const stamped: UnknownObject = { ...item };
+	if (timestamps.createdAt) stamped[timestamps.createdAt] = now;
+	if (timestamps.updatedAt) stamped[timestamps.updatedAt] = now;
+	return stamped as T;
+};
+
+/** Name an entity field is stored under: its alias (see `zdynamo.alias()`), or the name after the table's case style */
+export const storedName = (table: ConnectedTable, field: string, schema?: EntitySchema): string =>
+	storageName(field, table.options.caseStyle, schema);
+
+/** Stored names of the attributes an update may only set when missing (`if_not_exists`) */
+export const setOnceAttributes = (table: ConnectedTable, schema?: EntitySchema): string[] => {
+	const createdAt = managedTimestamps(table)?.createdAt;
+	return createdAt ? [storedName(table, createdAt, schema)] : [];
+};
+
+/** Encryption of the schema's encrypted fields, on tables with a key provider */
+const fieldEncryption = (table: ConnectedTable, schema?: EntitySchema): FieldEncryption | undefined =>
+	table.keyring ? { keyring: table.keyring, fields: encryptedFields(schema) } : undefined;
+
+/** Converts TTL fields to epoch seconds and epoch timestamps to milliseconds, leaving the rest untouched */
+const encodeFields = (table: ConnectedTable, data: UnknownObject, schema?: EntitySchema): UnknownObject => {
+	const encoded = { ...data };
+	for (const name of ttlFields(schema)) {
+		const value = encoded[name];
+		if (value instanceof Date) encoded[name] = Math.floor(value.getTime() / 1000);
+	}
+	for (const name of epochFields(table)) {
+		const value = encoded[name];
+		if (value instanceof Date) encoded[name] = value.getTime();
+	}
+	return encoded;
+};
+
+/** Converts TTL fields read as epoch seconds (and epoch timestamps the schema expects as dates) back to dates */
+const decodeFields = (table: ConnectedTable, data: UnknownObject, schema?: EntitySchema): UnknownObject => {
+	for (const name of ttlFields(schema)) {
+		const value = data[name];
+		if (typeof value === "number") data[name] = new Date(value * 1000);
+	}
+	for (const name of epochFields(table)) {
+		const value = data[name];
+		const field = schema?.shape[name];
+		if (typeof value === "number" && field && !field.safeParse(value).success) data[name] = new Date(value);
+	}
+	return data;
+};
+
+/**
+ * Whether an item's TTL (the table's TTL attribute, in epoch seconds) has passed.
+ * DynamoDB deletes expired items lazily, so they can still be read for a while.
+ */
+export const isExpired = (table: ConnectedTable, raw: UnknownObject, now = Date.now()): boolean => {
+	const attribute = table.options.ttlAttribute;
+	const expiresAt = attribute ? raw[attribute] : undefined;
+	return typeof expiresAt === "number" && expiresAt * 1000 <= now;
+};
+
+/** Attribute holding the entity type, unless disabled on the table */
+export const entityTypeAttribute = (table: ConnectedTable): string | undefined =>
+	table.options.entityTypeAttribute === false ? undefined : (table.options.entityTypeAttribute ?? "_et");
+
+/**
+ * Whether a stored item belongs to another entity sharing the table.
+ * Items written without a type attribute are assumed to match.
+ */
+export const isForeignItem = (table: ConnectedTable, entityName: string, raw: UnknownObject): boolean => {
+	const attribute = entityTypeAttribute(table);
+	return attribute !== undefined && raw[attribute] !== undefined && raw[attribute] !== entityName;
+};
+
+/**
+ * Converts a key value produced by a schema template into the
+ * representation required by the key attribute type.
+ */
+export const encodeKeyValue = (attribute: KeyAttribute, value: unknown): unknown => {
+	switch (attribute.type) {
+		case "N":
+			return typeof value === "number" ? value : Number(value);
+		case "B":
+			return value instanceof Uint8Array ? value : new Uint8Array(Buffer.from(String(value)));
+		default:
+			return value;
+	}
+};
+
+/** Reverses {@link encodeKeyValue} so the schema sees the template string again */
+export const decodeKeyValue = (attribute: KeyAttribute, value: unknown): unknown => {
+	if (value === undefined) return value;
+	switch (attribute.type) {
+		case "N":
+			return String(value);
+		case "B":
+			return value instanceof Uint8Array ? Buffer.from(value).toString() : value;
+		default:
+			return value;
+	}
+};
+
+/**
+ * Builds the DynamoDB primary key from template key data,
+ * using the table's physical key attribute names and types.
+ */
+export const toDynamoKey = (table: ConnectedTable, schema: EntitySchema, keyData: unknown): UnknownObject => {
+	const { partitionKey, sortKey } = table.keySchema;
+	const key: UnknownObject = { [partitionKey.name]: encodeKeyValue(partitionKey, schema.shape.pk.parse(keyData)) };
+	if (sortKey && schema.shape.sk) {
+		key[sortKey.name] = encodeKeyValue(sortKey, schema.shape.sk.parse(keyData));
+	}
+	return key;
+};
+
+/** Primary key attributes of a stored item */
+export const keyOf = (table: ConnectedTable, stored: UnknownObject): UnknownObject => {
+	const { partitionKey, sortKey } = table.keySchema;
+	const key: UnknownObject = { [partitionKey.name]: stored[partitionKey.name] };
+	if (sortKey) key[sortKey.name] = stored[sortKey.name];
+	return key;
+};
+
+/** Writes the entity type attribute, which is never case-transformed */
+const withEntityType = (table: ConnectedTable, stored: UnknownObject, entityName?: string): UnknownObject => {
+	const attribute = entityTypeAttribute(table);
+	if (attribute && entityName) stored[attribute] = entityName;
+	return stored;
+};
+
+/**
+ * Serializes a parsed entity into a DynamoDB item. Aliases and case style apply
+ * to the attributes only: `pk`/`sk` are written under the table's key attribute
+ * names, and the entity type under the table's type attribute.
+ */
+export const toDynamoItem = (
+	table: ConnectedTable,
+	item: UnknownObject,
+	schema?: EntitySchema,
+	entityName?: string,
+): UnknownObject => {
+	const { partitionKey, sortKey } = table.keySchema;
+	const { pk, sk, ...attributes } = item;
+	const stored = withEntityType(
+		table,
+		serialize(encodeFields(table, attributes, schema), table.options.caseStyle, fieldEncryption(table, schema), schema),
+		entityName,
+	);
+	stored[partitionKey.name] = encodeKeyValue(partitionKey, pk);
+	if (sortKey && sk !== undefined) {
+		stored[sortKey.name] = encodeKeyValue(sortKey, sk);
+	}
+	return stored;
+};
+
+/** Serializes the attributes of an update (SET values), applying the same field encoding as items */
+export const toDynamoUpdates = (
+	table: ConnectedTable,
+	updates: UnknownObject,
+	schema?: EntitySchema,
+	entityName?: string,
+): UnknownObject =>
+	withEntityType(
+		table,
+		serialize(encodeFields(table, updates, schema), table.options.caseStyle, fieldEncryption(table, schema), schema),
+		entityName,
+	);
+
+/** Deserializes a DynamoDB item back into the entity shape (before schema parsing) */
+export const fromDynamoItem = (table: ConnectedTable, raw: UnknownObject, schema?: EntitySchema): UnknownObject => {
+	const { partitionKey, sortKey } = table.keySchema;
+	// GSI keys moved aside by a soft delete still belong to the entity
+	const attributes = { ...(raw[INDEX_KEYS_STASH] as UnknownObject | undefined), ...raw };
+	const pk = decodeKeyValue(partitionKey, attributes[partitionKey.name]);
+	const sk = sortKey ? decodeKeyValue(sortKey, attributes[sortKey.name]) : undefined;
+	delete attributes[partitionKey.name];
+	if (sortKey) delete attributes[sortKey.name];
+	const typeAttribute = entityTypeAttribute(table);
+	if (typeAttribute) delete attributes[typeAttribute];
+	delete attributes[INDEX_KEYS_STASH];
+
+	const keys: UnknownObject = { pk };
+	if (sk !== undefined) keys.sk = sk;
+	return decodeFields(
+		table,
+		deserialize({ ...attributes, ...keys }, schema, table.keyring, table.options.caseStyle),
+		schema,
+	);
+};
+
+/**
+ * Decodes an item returned by a failed condition. Aliased attributes map back to
+ * their fields, while keys and encrypted values are left as stored.
+ */
+export const fromConditionItem = (table: ConnectedTable, raw: UnknownObject, schema?: EntitySchema): UnknownObject => {
+	const fields = new Map(
+		Object.entries(schema?.shape ?? {}).flatMap(([field, fieldSchema]) => {
+			const alias = aliasOf(fieldSchema);
+			return alias ? [[alias, field] as const] : [];
+		}),
+	);
+	return fromDynamoItem(
+		table,
+		Object.fromEntries(Object.entries(raw).map(([attribute, value]) => [fields.get(attribute) ?? attribute, value])),
+	);
+};
@@ -0,0 +1,130 @@
+import type { OperationKind } from "./middleware.js";
+
+/** Level of detail requested through `ReturnConsumedCapacity` */
+export type ConsumedCapacityMode = "TOTAL" | "INDEXES";
+
+/** Capacity units consumed by an operation, summed over every request it sent */
+export interface CapacitySummary {
+	capacityUnits: number;
+	readCapacityUnits: number;
+	writeCapacityUnits: number;
+	/** Units per table and index (`table` or `table/index`), reported with the 'INDEXES' mode */
+	byResource: Record<string, number>;
+}
+
+/** Aggregated metrics of one entity operation */
+export interface OperationMetrics extends Omit<CapacitySummary, "byResource"> {
+	entityName: string;
+	operation: OperationKind;
+	/** Number of executions */
+	count: number;
+	/** Number of executions that returned an error */
+	errors: number;
+	/** Number of retried requests */
+	retries: number;
+}
+
+type RawCapacity = {
+	TableName?: string;
+	CapacityUnits?: number;
+	ReadCapacityUnits?: number;
+	WriteCapacityUnits?: number;
+	Table?: { CapacityUnits?: number };
+	GlobalSecondaryIndexes?: Record<string, { CapacityUnits?: number }>;
+	LocalSecondaryIndexes?: Record<string, { CapacityUnits?: number }>;
+};
+
+const READ_OPERATIONS = new Set<OperationKind>(["get", "query", "scan", "batchGet"]);
+
+export const emptyCapacity = (): CapacitySummary => ({
+	capacityUnits: 0,
+	readCapacityUnits: 0,
+	writeCapacityUnits: 0,
+	byResource: {},
+});
+
+/**
+ * Adds the `ConsumedCapacity` of a command output (a single entry or a list,
+ * as returned by batch and transaction commands) to the summary.
+ */
+export const addConsumedCapacity = (summary: CapacitySummary, consumed: unknown, operation: OperationKind) => {
+	const entries = (Array.isArray(consumed) ? consumed : consumed ? [consumed] : []) as RawCapacity[];
+	for (const entry of entries) {
+		const units = entry.CapacityUnits ?? 0;
+		summary.capacityUnits += units;
+		if (entry.ReadCapacityUnits !== undefined || entry.WriteCapacityUnits !== undefined) {
+			summary.readCapacityUnits += entry.ReadCapacityUnits ?? 0;
+			summary.writeCapacityUnits += entry.WriteCapacityUnits ?? 0;
+		} else if (READ_OPERATIONS.has(operation)) {
+			summary.readCapacityUnits += units;
+		} else {
+			summary.writeCapacityUnits += units;
+		}
+
+		const tableName = entry.TableName ?? "";
+		const resources: Array<[string, { CapacityUnits?: number } | undefined]> = [
+			[tableName, entry.Table],
+			...Object.entries({ ...entry.GlobalSecondaryIndexes, ...entry.LocalSecondaryIndexes }).map(
+				([indexName, capacity]): [string, { CapacityUnits?: number }] => [`${tableName}/${indexName}`, capacity],
+			),
+		];
+		for (const [resource, capacity] of resources) {
+			if (capacity?.CapacityUnits === undefined) continue;
+			summary.byResource[resource] = (summary.byResource[resource] ?? 0) + capacity.CapacityUnits;
+		}
+	}
+};
+
+/**
+ * Aggregates capacity, execution and error counts per entity and operation.
+ *
+ * Register it with `Table.metrics(collector)` and combine with
+ * `Table.consumedCapacity()` to attribute RCU/WCU costs per access pattern.
+ *
+ * @example
+ * ```typescript
+ * const metrics = new MetricsCollector();
+ * const table = Table.connect('app-table').consumedCapacity().metrics(metrics).build();
+ * // ...
+ * console.table(metrics.snapshot());
+ * ```
+ */
+export class MetricsCollector {
+	private readonly entries = new Map<string, OperationMetrics>();
+
+	/** Records one execution of an entity operation */
+	record(
+		entityName: string,
+		operation: OperationKind,
+		execution: { capacity: CapacitySummary; retries: number; failed: boolean },
+	) {
+		const id = `${entityName}|${operation}`;
+		const entry = this.entries.get(id) ?? {
+			entityName,
+			operation,
+			count: 0,
+			errors: 0,
+			retries: 0,
+			capacityUnits: 0,
+			readCapacityUnits: 0,
+			writeCapacityUnits: 0,
+		};
+		entry.count++;
+		if (execution.failed) entry.errors++;
+		entry.retries += execution.retries;
+		entry.capacityUnits += execution.capacity.capacityUnits;
+		entry.readCapacityUnits += execution.capacity.readCapacityUnits;
+		entry.writeCapacityUnits += execution.capacity.writeCapacityUnits;
+		this.entries.set(id, entry);
+	}
+
+	/** Returns a copy of the aggregated metrics, one entry per entity and operation */
+	snapshot(): OperationMetrics[] {
+		return [...this.entries.values()].map((entry) => ({ ...entry }));
+	}
+
+	/** Clears every aggregated metric */
+	reset() {
+		this.entries.clear();
+	}
+}
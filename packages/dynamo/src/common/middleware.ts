@@ -0,0 +1,64 @@
+/** Builder operation that issued a command */
+export type OperationKind =
+	| "get"
+	| "create"
+	| "put"
+	| "upsert"
+	| "update"
+	| "delete"
+	| "restore"
+	| "query"
+	| "scan"
+	| "batchGet"
+	| "transaction"
+	// Write-back of items migrated on read (see `schemaVersion.writeBack`)
+	| "migrate";
+
+/** What a middleware sees about the command being sent */
+export interface OperationContext {
+	/** Name of the entity issuing the command */
+	entityName: string;
+	/** Builder operation issuing the command */
+	operation: OperationKind;
+	tableName: string;
+	/** Fully built command input; changes made before calling `next()` are sent */
+	input: Record<string, unknown>;
+	/** Free-form state shared by the middleware of a single command */
+	state: Record<string, unknown>;
+}
+
+/**
+ * Wraps every command sent by the operation builders.
+ *
+ * Call `next()` to continue the chain and get the command output (or catch its error);
+ * return without calling it to short-circuit with a custom output, or throw to fail the operation.
+ *
+ * @example
+ * ```typescript
+ * const logger: Middleware = async (context, next) => {
+ *   const started = Date.now();
+ *   try {
+ *     return await next();
+ *   } finally {
+ *     console.log(context.entityName, context.operation, Date.now() - started);
+ *   }
+ * };
+ * ```
+ */
+export type Middleware = (
+	context: OperationContext,
+	next: () => Promise<Record<string, unknown>>,
+) => Promise<Record<string, unknown>>;
+
+/** Runs the middleware chain in order, ending with the actual send */
+export const runMiddleware = (
+	middleware: Middleware[],
+	context: OperationContext,
+	send: () => Promise<Record<string, unknown>>,
+): Promise<Record<string, unknown>> => {
+	const dispatch = (index: number): Promise<Record<string, unknown>> => {
+		const current = middleware[index];
+		return current ? current(context, () => dispatch(index + 1)) : send();
+	};
+	return dispatch(0);
+};
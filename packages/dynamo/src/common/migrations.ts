@@ -0,0 +1,61 @@
+import type { EntityOptions } from "./types.js";
+
+type UnknownObject = Record<string, unknown>;
+
+/** Upgrades an item from one schema version to the next */
+export type Migration = (item: UnknownObject) => UnknownObject;
+
+/** Schema versioning of an entity */
+export interface SchemaVersioning {
+	/**
+	 * Upgrades in order: `migrations[n]` turns an item at version `n` into version `n + 1`.
+	 * The current version is the number of migrations; items written before versioning are at 0.
+	 */
+	migrations: Migration[];
+	/** Attribute the schema version is stored under (default: '_sv') */
+	attribute?: string;
+	/** Writes migrated items back after reading them (only if unchanged since the read) */
+	writeBack?: boolean;
+}
+
+/** Schema versioning settings, resolved from `EntityOptions.schemaVersion` */
+export interface ResolvedVersioning {
+	attribute: string;
+	current: number;
+	migrations: Migration[];
+	writeBack: boolean;
+}
+
+export const schemaVersioningOf = (options: EntityOptions): ResolvedVersioning | undefined => {
+	const config = options.schemaVersion;
+	if (!config) return undefined;
+	const { migrations, attribute = "_sv", writeBack = false } = config;
+	return { attribute, current: migrations.length, migrations, writeBack };
+};
+
+/** Stamps the current schema version on a serialized item (the attribute is never case-transformed) */
+export const withSchemaVersion = (options: EntityOptions, stored: UnknownObject): UnknownObject => {
+	const versioning = schemaVersioningOf(options);
+	if (versioning) stored[versioning.attribute] = versioning.current;
+	return stored;
+};
+
+/** Schema version a stored item was written at */
+export const storedSchemaVersion = (versioning: ResolvedVersioning, raw: UnknownObject): number => {
+	const version = raw[versioning.attribute];
+	return typeof version === "number" ? version : 0;
+};
+
+/** Runs the migrations an item written at version `from` still needs */
+export const migrate = (versioning: ResolvedVersioning, item: UnknownObject, from: number): UnknownObject =>
+	versioning.migrations.slice(from).reduce((migrated, migration) => migration(migrated), item);
+
+/** Condition holding while a stored item has every attribute it had when read */
+export const unchangedCondition = (raw: UnknownObject) => {
+	const attributes = Object.keys(raw);
+	return {
+		ConditionExpression: attributes.map((_, i) => `#skadiRead${i} = :skadiRead${i}`).join(" AND "),
+		ExpressionAttributeNames: Object.fromEntries(attributes.map((name, i) => [`#skadiRead${i}`, name])),
+		ExpressionAttributeValues: Object.fromEntries(attributes.map((name, i) => [`:skadiRead${i}`, raw[name]])),
+	};
+};
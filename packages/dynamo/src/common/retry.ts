@@ -0,0 +1,85 @@
+import { isThrottlingError } from "./errors.js";
+
+/**
+ * Retry policy applied to the commands sent by the operation builders
+ *
+ * Retries run on top of the AWS SDK's own retry strategy and only apply
+ * to errors deemed retryable (throttling and server-side failures by default).
+ */
+export interface RetryPolicy {
+	/** Total number of attempts, including the first one (default: 1, i.e. no retries) */
+	maxAttempts?: number;
+	/** Base delay for the exponential backoff, in milliseconds (default: 50) */
+	baseDelayMs?: number;
+	/** Upper bound for a single backoff delay, in milliseconds (default: 5000) */
+	maxDelayMs?: number;
+	/** Applies full jitter to each delay (default: true) */
+	jitter?: boolean;
+	/** Custom predicate deciding whether an error should be retried */
+	retryable?: (error: unknown) => boolean;
+}
+
+/** Retry bookkeeping of an executed operation */
+export interface RetryMetadata {
+	/** Number of requests sent to DynamoDB */
+	attempts: number;
+	/** Number of those requests that were retries */
+	retries: number;
+	/** Total time spent waiting between attempts, in milliseconds */
+	delayMs: number;
+}
+
+type ResolvedRetryPolicy = Required<RetryPolicy>;
+
+/** Whether an error is a throttling or transient server-side failure */
+export const isRetryableError = (error: unknown): boolean => {
+	if (!error || typeof error !== "object") return false;
+	if (isThrottlingError(error)) return true;
+	const { $fault, $metadata } = error as {
+		$fault?: string;
+		$metadata?: { httpStatusCode?: number };
+	};
+	return $fault === "server" || ($metadata?.httpStatusCode ?? 0) >= 500;
+};
+
+/** Merges the table policy with a per-operation override */
+export const resolveRetryPolicy = (...policies: Array<RetryPolicy | undefined>): ResolvedRetryPolicy =>
+	Object.assign(
+		{ maxAttempts: 1, baseDelayMs: 50, maxDelayMs: 5000, jitter: true, retryable: isRetryableError },
+		...policies.map((policy) => Object.fromEntries(Object.entries(policy ?? {}).filter(([, v]) => v !== undefined))),
+	);
+
+/** Exponential backoff delay before the given retry (1-based) */
+export const backoffDelay = (policy: ResolvedRetryPolicy, retry: number): number => {
+	const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+	return policy.jitter ? Math.round(Math.random() * delay) : delay;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs an operation, retrying retryable failures according to the policy.
+ * Never throws: the last error is returned alongside the retry metadata.
+ */
+export const withRetry = async <T>(
+	operation: () => Promise<T>,
+	policy: ResolvedRetryPolicy,
+): Promise<[T | null, unknown, RetryMetadata]> => {
+	const metadata: RetryMetadata = { attempts: 0, retries: 0, delayMs: 0 };
+	const maxAttempts = Math.max(1, policy.maxAttempts);
+
+	while (true) {
+		metadata.attempts++;
+		try {
+			return [await operation(), null, metadata];
+		} catch (error: unknown) {
+			if (metadata.attempts >= maxAttempts || !policy.retryable(error)) {
+				return [null, error, metadata];
+			}
+			const delay = backoffDelay(policy, metadata.attempts);
+			metadata.retries++;
+			metadata.delayMs += delay;
+			await sleep(delay);
+		}
+	}
+};
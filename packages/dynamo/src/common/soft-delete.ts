@@ -0,0 +1,38 @@
+import type { z } from "zod";
+import type { ConnectedTable } from "../client/table.js";
+import { storedName } from "./mapper.js";
+import type { EntityOptions, EntitySchemaDefinition } from "./types.js";
+
+/** Attribute stashing the GSI keys of an item soft-deleted with `hideFromIndexes` */
+export const INDEX_KEYS_STASH = "_skadiIndexKeys";
+
+/** Soft delete settings of an entity, resolved from `EntityOptions.softDelete` */
+export interface SoftDelete {
+	/** Entity field holding the deletion time */
+	field: string;
+	/** Attribute the deletion time is stored under */
+	attribute: string;
+	/** Whether GSI keys are moved aside so the item drops out of sparse indexes */
+	hideFromIndexes: boolean;
+}
+
+export const softDeleteOf = (
+	table: ConnectedTable,
+	schema: z.ZodObject<EntitySchemaDefinition>,
+	options: EntityOptions,
+): SoftDelete | undefined => {
+	const config = options.softDelete;
+	if (!config) return undefined;
+	const { field = "deletedAt", hideFromIndexes = false } = config === true ? {} : config;
+	return { field, attribute: storedName(table, field, schema), hideFromIndexes };
+};
+
+/** Whether a stored item carries the soft delete marker */
+export const isSoftDeleted = (softDelete: SoftDelete | undefined, raw: Record<string, unknown>): boolean =>
+	softDelete !== undefined && raw[softDelete.attribute] !== undefined;
+
+/** GSI key attributes present on a stored item, with their values */
+export const indexKeysOf = (table: ConnectedTable, raw: Record<string, unknown>): Record<string, unknown> => {
+	const names = new Set(table.gsis.flatMap((gsi) => [gsi.partitionKey, gsi.sortKey ?? []].flat()));
+	return Object.fromEntries([...names].filter((name) => raw[name] !== undefined).map((name) => [name, raw[name]]));
+};
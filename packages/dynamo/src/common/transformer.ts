@@ -1,6 +1,7 @@
 import { isValid, parse, parseISO } from "date-fns";
 import { camelCase as lodashCamelCase, snakeCase as lodashSnakeCase, upperFirst } from "lodash-es";
 import type { z } from "zod";
+import { encryptedFields, type Keyring } from "./encryption.js";
 
 export type CaseTransformer = "camelCase" | "snakeCase" | "pascalCase";
 type CaseFunction = (input: string) => string;
@@ -127,8 +128,15 @@ function reverseTemplate(
 		rawObj[p.key] = res[i + 1];
 	});
 
-	// Coerce common primitives first (e.g., ISO date strings to Date)
-	const coerced = unmarshallWithDateConversion(rawObj) as Record<string, unknown>;
+	// Coerce common primitives (e.g., ISO date strings to Date, numeric strings to numbers),
+	// keeping the first candidate the param schema accepts
+	const coerced: Record<string, unknown> = {};
+	for (const [key, raw] of Object.entries(rawObj)) {
+		const param = paramSchema.shape[key];
+		const asDate = unmarshallWithDateConversion(raw);
+		const candidates = [raw, asDate, Number(raw)];
+		coerced[key] = candidates.find((candidate) => param?.safeParse(candidate).success) ?? asDate;
+	}
 
 	try {
 		return paramSchema.parse(coerced);
@@ -158,27 +166,113 @@ function rehydrateKeysWithSchema(
 	return out;
 }
 
-export const serialize = (data: UnknownObject, caseStyle?: CaseTransformer): UnknownObject => {
-	const value = marshallWithDateConversion(data);
+/** Template params of the key fields of an item, merged (e.g. `{ userId }` from `pk: 'USER#u1'`) */
+export const keyParams = (data: UnknownObject, schema: z.ZodObject<Record<string, z.ZodTypeAny>>): UnknownObject => {
+	const rehydrated = rehydrateKeysWithSchema(data, schema);
+	return Object.assign(
+		{},
+		...Object.entries(rehydrated).flatMap(([field, value]) =>
+			value !== data[field] && isObject(value) ? [value] : [],
+		),
+	);
+};
+
+type FieldSchema = z.ZodTypeAny & { _skadiAlias?: string; _def?: { innerType?: FieldSchema } };
 
-	if (caseStyle && caseFunctions[caseStyle]) {
-		const transformFn = caseFunctions[caseStyle] as CaseFunction;
-		return transformObjectKeys(value, transformFn) as UnknownObject;
+/** Storage name declared with `zdynamo.alias()`, looking through optional/nullable/default wrappers */
+export const aliasOf = (field: unknown): string | undefined => {
+	let current = field as FieldSchema | undefined;
+	while (current) {
+		if (current._skadiAlias) return current._skadiAlias;
+		current = current._def?.innerType;
 	}
+	return undefined;
+};
 
-	return value as UnknownObject;
+/**
+ * Name a (top-level) field is stored under: its alias, or the field name after
+ * the case style. Nested keys only follow the case style.
+ */
+export const storageName = (
+	field: string,
+	caseStyle?: CaseTransformer,
+	schema?: z.ZodObject<Record<string, z.ZodTypeAny>>,
+): string => {
+	const alias = aliasOf(schema?.shape[field]);
+	if (alias) return alias;
+	const transformFn = caseStyle ? caseFunctions[caseStyle] : undefined;
+	return transformFn ? transformFn(field) : field;
 };
 
-export function deserialize(data: UnknownObject, schema?: z.ZodObject<Record<string, z.ZodTypeAny>>): UnknownObject {
-	// For deserialization, we always convert back to camelCase first
-	const transformFn = caseFunctions.camelCase as CaseFunction;
-	const transformedData = transformObjectKeys(data, transformFn) as UnknownObject;
+/** Fields to encrypt on write, with the keyring of the table */
+export interface FieldEncryption {
+	keyring: Keyring;
+	fields: string[];
+}
+
+/** Replaces the values of the given fields with their ciphertext (after date conversion) */
+const encryptFields = (data: UnknownObject, { keyring, fields }: FieldEncryption): UnknownObject => {
+	const encrypted = { ...data };
+	for (const field of fields) {
+		if (encrypted[field] !== undefined && encrypted[field] !== null) {
+			encrypted[field] = keyring.encrypt(field, encrypted[field]);
+		}
+	}
+	return encrypted;
+};
+
+export const serialize = (
+	data: UnknownObject,
+	caseStyle?: CaseTransformer,
+	encryption?: FieldEncryption,
+	schema?: z.ZodObject<Record<string, z.ZodTypeAny>>,
+): UnknownObject => {
+	const marshalled = marshallWithDateConversion(data) as UnknownObject;
+	const value = encryption ? encryptFields(marshalled, encryption) : marshalled;
+	const transformFn = caseStyle ? caseFunctions[caseStyle] : undefined;
+
+	return Object.fromEntries(
+		Object.entries(value).map(([field, fieldValue]) => [
+			storageName(field, caseStyle, schema),
+			transformFn ? transformObjectKeys(fieldValue, transformFn) : fieldValue,
+		]),
+	);
+};
+
+export function deserialize(
+	data: UnknownObject,
+	schema?: z.ZodObject<Record<string, z.ZodTypeAny>>,
+	keyring?: Keyring,
+	caseStyle?: CaseTransformer,
+): UnknownObject {
+	// Stored names map back to the schema fields (aliases and case style); other
+	// attributes, and nested keys, are converted back to camelCase when a case style applies
+	const fields = new Map(
+		Object.keys(schema?.shape ?? {}).map((field) => [storageName(field, caseStyle, schema), field]),
+	);
+	const transformFn = caseStyle ? (caseFunctions.camelCase as CaseFunction) : undefined;
+	const transformedData: UnknownObject = Object.fromEntries(
+		Object.entries(data).map(([attribute, value]) => [
+			fields.get(attribute) ?? (transformFn ? transformFn(attribute) : attribute),
+			transformFn ? transformObjectKeys(value, transformFn) : value,
+		]),
+	);
+
+	// Fields declared with zdynamo.encrypted() are decrypted before date conversion
+	if (keyring) {
+		for (const field of encryptedFields(schema)) {
+			if (field in transformedData) transformedData[field] = keyring.decrypt(field, transformedData[field]);
+		}
+	}
 
 	// Rehydrate template-based keys (pk/sk/GSIs) when schema is provided
 	const withKeys = rehydrateKeysWithSchema(transformedData, schema);
 
-	// Convert ISO strings to Date instances
-	const withDates = unmarshallWithDateConversion(withKeys) as UnknownObject;
-
-	return withDates;
+	// Convert ISO strings to Date instances; rehydrated keys were already coerced by their template params
+	return Object.fromEntries(
+		Object.entries(withKeys).map(([field, value]) => [
+			field,
+			value !== transformedData[field] ? value : unmarshallWithDateConversion(value),
+		]),
+	);
 }
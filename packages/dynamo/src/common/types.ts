@@ -2,6 +2,9 @@ import type { DynamoDBClient } from "@aws-sdk/client-dynamodb";
 import type { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
 import type { z } from "zod";
 import type { Entity } from "../entity/entity.js";
+import type { EntityHooks } from "./hooks.js";
+import type { Middleware } from "./middleware.js";
+import type { SchemaVersioning } from "./migrations.js";
 
 /**
  * Configuration options for DynamoDB table connections
@@ -21,11 +24,96 @@ export interface TableConfig {
 		/** Case style transformation for attribute names */
 		caseStyle?: "snake_case" | "camelCase";
 
-		/** Whether to automatically add timestamp fields */
-		timestamps?: boolean;
+		/** Whether to automatically manage createdAt/updatedAt (see `Table.timestamps()`) */
+		timestamps?: boolean | TimestampsConfig;
 	};
 }
 
+/** Storage format of managed timestamps: ISO 8601 strings or epoch milliseconds */
+export type TimestampFormat = "iso" | "epoch";
+
+/**
+ * Managed createdAt/updatedAt timestamps
+ *
+ * `createdAt` is set when the item is first written and kept by updates
+ * (`if_not_exists`); `updatedAt` is refreshed by every write.
+ */
+export interface TimestampsConfig {
+	/** Field holding the creation time (default: 'createdAt'; false disables it) */
+	createdAt?: string | false;
+	/** Field holding the last write time (default: 'updatedAt'; false disables it) */
+	updatedAt?: string | false;
+	/** Storage format (default: 'iso') */
+	format?: TimestampFormat;
+}
+
+/**
+ * Per-entity behavior, passed as the second argument of `schema()`
+ */
+export interface EntityOptions<
+	TSchema extends z.ZodObject<EntitySchemaDefinition> = z.ZodObject<EntitySchemaDefinition>,
+> {
+	/** Middleware run for this entity's commands, after the table's middleware */
+	middleware?: Middleware[];
+	/** Lifecycle hooks run around this entity's operations */
+	hooks?: EntityHooks<TSchema>;
+	/**
+	 * Numeric field used for optimistic locking: set to 1 on create and incremented by
+	 * every update. Updates and deletes given an expected version (`expectVersion()`)
+	 * fail with `VersionConflictError` when the stored version differs.
+	 */
+	version?: keyof z.infer<TSchema> & string;
+	/**
+	 * Turns `delete()` into setting a deletion marker; reads skip marked items unless
+	 * `withDeleted()` is used, `restore()` clears the marker and `purge()` deletes for good.
+	 */
+	softDelete?: boolean | SoftDeleteConfig;
+	/** Stamps a schema version on written items and migrates older items on read */
+	schemaVersion?: SchemaVersioning;
+	/**
+	 * Fields whose values no two items of the entity may share. Each value is reserved
+	 * by a sentinel item written in the same transaction as the entity item, so creates,
+	 * updates and deletes touching these fields run as transactions (and read the item
+	 * first, for updates and deletes). Violations fail with `UniqueConstraintError`.
+	 */
+	unique?: Array<keyof z.infer<TSchema> & string>;
+}
+
+/** Soft delete settings of an entity */
+export interface SoftDeleteConfig {
+	/** Field holding the deletion time (default: 'deletedAt') */
+	field?: string;
+	/**
+	 * Moves the item's GSI keys aside on delete (and back on restore), so it drops
+	 * out of sparse indexes. Costs an extra read per delete and restore.
+	 */
+	hideFromIndexes?: boolean;
+}
+
+/** DynamoDB scalar types allowed for key attributes */
+export type KeyAttributeType = "S" | "N" | "B";
+
+/** Physical attribute backing one of the table's primary key fields */
+export interface KeyAttribute {
+	/** Attribute name in DynamoDB (e.g. 'PK', 'id', 'tenant_id') */
+	name: string;
+	/** Attribute type (default: 'S') */
+	type?: KeyAttributeType;
+}
+
+/**
+ * Primary key declaration of a table
+ *
+ * Maps the schema's `pk`/`sk` fields onto the table's physical key attributes.
+ * Defaults to `pk`/`sk` string attributes.
+ */
+export interface TableKeySchema {
+	/** Attribute backing the schema's `pk` field */
+	partitionKey: KeyAttribute;
+	/** Attribute backing the schema's `sk` field (omit for partition-key-only tables) */
+	sortKey?: KeyAttribute;
+}
+
 /**
  * Definition for a Global Secondary Index
  *
@@ -47,6 +135,26 @@ export interface GSIDefinition {
 	projectedAttributes?: string[];
 }
 
+/**
+ * Definition for a Local Secondary Index
+ *
+ * Shares the table's partition key and provides an alternate sort key,
+ * so items of a partition can be read in a different order.
+ * LSIs can only be created together with the table.
+ */
+export interface LSIDefinition {
+	/** Unique alias for referencing this LSI in queries */
+	alias: string;
+	/** Real DynamoDB IndexName (if different from alias) */
+	indexName?: string;
+	/** Sort key attribute name for the LSI */
+	sortKey: string;
+	/** Type of attribute projection for the LSI */
+	projectionType?: "ALL" | "KEYS_ONLY" | "INCLUDE";
+	/** Specific attributes to include when projectionType is 'INCLUDE' */
+	projectedAttributes?: string[];
+}
+
 /**
  * Schema definition structure for DynamoDB entities
  *
@@ -64,6 +172,27 @@ export type EntitySchemaDefinition = {
 	sk?: StringOutputSchema;
 } & Record<string, z.ZodTypeAny>;
 
+/**
+ * Result structure for collection queries
+ *
+ * Contains the queried items grouped by entity, along with pagination and count information.
+ *
+ * @template TItems - The items of each entity, by collection key
+ */
+export interface CollectionQueryResult<TItems> {
+	/** Items of each entity of the collection, under the entity's collection key */
+	items: TItems;
+
+	/** Pagination cursor for retrieving the next page of results */
+	cursor?: Record<string, unknown>;
+
+	/** Number of items returned in this result, across entities */
+	count: number;
+
+	/** Total number of items examined during the query */
+	scannedCount?: number;
+}
+
 /**
  * Result structure for DynamoDB Query operations
  *
@@ -141,3 +270,16 @@ export type EntityKey<T extends Entity<string, z.ZodObject<EntitySchemaDefinitio
 			} & (TShape["sk"] extends z.ZodTypeAny ? { sk: z.input<TShape["sk"]> } : Record<string, never>)
 		: never
 	: never;
+
+/**
+ * Result structure for `count()` on queries and scans
+ *
+ * Totals over every page read, from the cursor set (if any) to the last one.
+ */
+export interface CountResult {
+	/** Number of items matching the key conditions and filters */
+	count: number;
+
+	/** Total number of items examined, before filters were applied */
+	scannedCount: number;
+}
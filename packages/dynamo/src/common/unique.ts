@@ -0,0 +1,165 @@
+import type { z } from "zod";
+import type { ConnectedTable } from "../client/table.js";
+import {
+	ConditionalCheckFailedError,
+	type DynamoOperationError,
+	TransactionCanceledError,
+	UniqueConstraintError,
+	type VersionConflictError,
+} from "./errors.js";
+import { encodeKeyValue, entityTypeAttribute, storedName, toDynamoUpdates } from "./mapper.js";
+import type { EntityOptions, EntitySchemaDefinition } from "./types.js";
+import { toVersionConflict, type VersionedWrite } from "./version.js";
+
+type UnknownObject = Record<string, unknown>;
+
+/** Entity type written on sentinel items, so reads of entities skip them */
+export const UNIQUE_SENTINEL_TYPE = "UNIQUE";
+
+/** Attribute of a sentinel item identifying the item holding the value */
+const OWNER_ATTRIBUTE = "_skadiOwner";
+
+/** A value of a unique field */
+export interface UniqueValue {
+	field: string;
+	value: unknown;
+}
+
+/** Sentinel item write sent in the same transaction as an entity write */
+export interface SentinelWrite {
+	unique: UniqueValue;
+	/** Whether the write reserves the value (a Put) or releases it (a Delete) */
+	reserve: boolean;
+	write: UnknownObject;
+}
+
+/** Unique fields of an entity, from `EntityOptions.unique` */
+export const uniqueFieldsOf = (options: EntityOptions): string[] => options.unique ?? [];
+
+/** Values of the unique fields set on an item */
+export const uniqueValues = (options: EntityOptions, item: UnknownObject): UniqueValue[] =>
+	uniqueFieldsOf(options).flatMap((field) =>
+		item[field] === undefined || item[field] === null ? [] : [{ field, value: item[field] }],
+	);
+
+const renderValue = (value: unknown) => (value instanceof Date ? value.toISOString() : String(value));
+
+/**
+ * Unique values an update changes: the new values to reserve, the ones they
+ * replace to release, and the fields involved.
+ */
+export const uniqueChanges = (options: EntityOptions, before: UnknownObject, updates: UnknownObject) => {
+	const fields = uniqueFieldsOf(options).filter((field) => {
+		if (!(field in updates)) return false;
+		const [next, previous] = [updates[field], before[field]];
+		if (next === undefined || next === null) return previous !== undefined && previous !== null;
+		return previous === undefined || previous === null || renderValue(next) !== renderValue(previous);
+	});
+	const pick = (item: UnknownObject) => uniqueValues({ unique: fields }, item);
+	return { fields, reserve: pick(updates), release: pick(before) };
+};
+
+/** Primary key of the sentinel item of a unique value (e.g. `UNIQUE#User#email#ada@example.com`) */
+const sentinelKey = (table: ConnectedTable, entityName: string, { field, value }: UniqueValue): UnknownObject => {
+	const { partitionKey, sortKey } = table.keySchema;
+	const id = `UNIQUE#${entityName}#${field}#${renderValue(value)}`;
+	const key: UnknownObject = { [partitionKey.name]: encodeKeyValue(partitionKey, id) };
+	if (sortKey) key[sortKey.name] = encodeKeyValue(sortKey, id);
+	return key;
+};
+
+/** Condition letting a sentinel write through when the sentinel is missing or held by the item at `key` */
+const ownerCondition = (table: ConnectedTable, key: UnknownObject) => ({
+	ConditionExpression: "attribute_not_exists(#skadiPk) OR #skadiOwner = :skadiOwner",
+	ExpressionAttributeNames: { "#skadiPk": table.keySchema.partitionKey.name, "#skadiOwner": OWNER_ATTRIBUTE },
+	ExpressionAttributeValues: { ":skadiOwner": JSON.stringify(Object.values(key)) },
+});
+
+/** Puts the sentinel of a unique value for the item at `key`; fails when another item holds the value */
+export const reserveUnique = (
+	table: ConnectedTable,
+	entityName: string,
+	key: UnknownObject,
+	unique: UniqueValue,
+): SentinelWrite => {
+	const typeAttribute = entityTypeAttribute(table);
+	const item: UnknownObject = {
+		...sentinelKey(table, entityName, unique),
+		[OWNER_ATTRIBUTE]: JSON.stringify(Object.values(key)),
+	};
+	if (typeAttribute) item[typeAttribute] = UNIQUE_SENTINEL_TYPE;
+	return {
+		unique,
+		reserve: true,
+		write: { Put: { TableName: table.tableName, Item: item, ...ownerCondition(table, key) } },
+	};
+};
+
+/** Deletes the sentinel of a unique value held by the item at `key` */
+export const releaseUnique = (
+	table: ConnectedTable,
+	entityName: string,
+	key: UnknownObject,
+	unique: UniqueValue,
+): SentinelWrite => ({
+	unique,
+	reserve: false,
+	write: {
+		Delete: { TableName: table.tableName, Key: sentinelKey(table, entityName, unique), ...ownerCondition(table, key) },
+	},
+});
+
+/**
+ * Condition checking that the unique fields of an item still hold the values read
+ * (and released) before the write, so concurrent updates cannot leak sentinels.
+ */
+export const uniqueGuard = (
+	table: ConnectedTable,
+	schema: z.ZodObject<EntitySchemaDefinition>,
+	before: UnknownObject,
+	fields: string[],
+) => {
+	if (fields.length === 0) return undefined;
+	const names: Record<string, string> = {};
+	const values: UnknownObject = {};
+	const checks = fields.map((field, i) => {
+		const attribute = storedName(table, field, schema);
+		names[`#skadiUnique${i}`] = attribute;
+		if (before[field] === undefined || before[field] === null) return `attribute_not_exists(#skadiUnique${i})`;
+		values[`:skadiUnique${i}`] = toDynamoUpdates(table, { [field]: before[field] }, schema)[attribute];
+		return `#skadiUnique${i} = :skadiUnique${i}`;
+	});
+	return { expression: checks.join(" AND "), names, values };
+};
+
+/** Uniqueness violation behind a transaction item rejected by its condition, if it reserved a value */
+export const uniqueViolation = (
+	sentinel: SentinelWrite | undefined,
+	reason: string,
+	cause: unknown,
+): UniqueConstraintError | undefined =>
+	sentinel?.reserve && reason === "ConditionalCheckFailed"
+		? new UniqueConstraintError(sentinel.unique.field, sentinel.unique.value, cause)
+		: undefined;
+
+/**
+ * Error of an entity write sent as the first item of a transaction along with its
+ * sentinel writes: a uniqueness violation, or the write's own condition failure.
+ */
+export const toSentinelWriteError = (
+	error: DynamoOperationError,
+	sentinels: SentinelWrite[],
+	version?: VersionedWrite,
+): DynamoOperationError | VersionConflictError => {
+	if (!(error instanceof TransactionCanceledError)) return error;
+	for (const { index, reason } of error.reasons) {
+		const violation = uniqueViolation(sentinels[index - 1], reason, error);
+		if (violation) return violation;
+	}
+	const own = error.reasons.find(({ index }) => index === 0);
+	if (own?.reason !== "ConditionalCheckFailed") return error;
+	return toVersionConflict(
+		new ConditionalCheckFailedError(own.message ?? "Condition check failed", error, own.item),
+		version,
+	);
+};
@@ -0,0 +1,80 @@
+import type { z } from "zod";
+import type { ConnectedTable } from "../client/table.js";
+import { ConditionalCheckFailedError, type DynamoOperationError, VersionConflictError } from "./errors.js";
+import { storedName } from "./mapper.js";
+import type { EntityOptions, EntitySchemaDefinition } from "./types.js";
+
+/** Version bookkeeping of a write on an entity with optimistic locking */
+export interface VersionedWrite {
+	/** Entity field holding the version */
+	field: string;
+	/** Attribute the version is stored under */
+	attribute: string;
+	/** Version the item must have for the write to apply */
+	expected?: number;
+}
+
+/** Resolves the version field of the entity, if it uses optimistic locking */
+export const versionedWrite = (
+	table: ConnectedTable,
+	schema: z.ZodObject<EntitySchemaDefinition>,
+	options: EntityOptions,
+	expected?: number,
+): VersionedWrite | undefined =>
+	options.version
+		? { field: options.version, attribute: storedName(table, options.version, schema), expected }
+		: undefined;
+
+/**
+ * Version an update expects: the one given explicitly, or else the version field
+ * supplied with the values written (the version the caller read)
+ */
+export const expectedVersionOf = (
+	options: EntityOptions,
+	values: Record<string, unknown>,
+	expected?: number,
+): number | undefined => {
+	if (expected !== undefined || !options.version) return expected;
+	const supplied = values[options.version];
+	return typeof supplied === "number" ? supplied : undefined;
+};
+
+/** Condition checking the stored version, when the write expects one */
+export const versionCondition = (version: VersionedWrite | undefined) =>
+	version?.expected === undefined
+		? undefined
+		: {
+				expression: `#${version.attribute} = :skadiExpectedVersion`,
+				names: { [`#${version.attribute}`]: version.attribute },
+				values: { ":skadiExpectedVersion": version.expected },
+			};
+
+/** Joins condition expressions with AND, skipping missing ones */
+export const joinConditions = (...expressions: Array<string | undefined>): string | undefined => {
+	const present = expressions.filter((expression): expression is string => Boolean(expression));
+	return present.length > 1 ? present.map((expression) => `(${expression})`).join(" AND ") : present[0];
+};
+
+/**
+ * Turns a failed condition of a versioned write into a `VersionConflictError`
+ * when the stored item (returned on failure) is at another version.
+ */
+export const toVersionConflict = <T extends DynamoOperationError>(
+	error: T,
+	version: VersionedWrite | undefined,
+): T | VersionConflictError => {
+	if (!(error instanceof ConditionalCheckFailedError) || version?.expected === undefined) return error;
+	const current = error.item?.[version.field] as number | undefined;
+	if (current === version.expected) return error;
+	return new VersionConflictError(
+		`Expected version ${version.expected}, found ${current ?? "no item"}`,
+		version.expected,
+		current,
+		error.cause,
+		error.item,
+	);
+};
+
+/** Starts an item being created at version 1 */
+export const withInitialVersion = <T extends Record<string, unknown>>(options: EntityOptions, item: T): T =>
+	options.version ? { ...item, [options.version]: 1 } : item;
@@ -1,6 +1,10 @@
 import { z } from "zod";
 import type { ConnectedTable } from "../client/table.js";
-import type { EntitySchemaDefinition } from "../common/types.js";
+import { derivedKeysOf } from "../common/derived-keys.js";
+import { encryptedFields } from "../common/encryption.js";
+import { entityTypeAttribute, storedName } from "../common/mapper.js";
+import { aliasOf } from "../common/transformer.js";
+import type { EntityOptions, EntitySchemaDefinition } from "../common/types.js";
 import { Entity as SkadiEntity } from "./entity.js";
 
 /**
@@ -48,6 +52,7 @@ class EntityTableBuilder<TName extends string> {
 	 *
 	 * @template TSchema - The entity schema definition type
 	 * @param schema - Zod schema object defining entity structure
+	 * @param options - Per-entity behavior such as middleware and lifecycle hooks
 	 * @returns CompleteEntity instance ready for CRUD operations
 	 *
 	 * @example
@@ -63,21 +68,98 @@ class EntityTableBuilder<TName extends string> {
 	 *   });
 	 * ```
 	 */
-	schema<TSchema extends EntitySchemaDefinition>(schema: TSchema) {
+	schema<TSchema extends EntitySchemaDefinition>(schema: TSchema, options: EntityOptions<z.ZodObject<TSchema>> = {}) {
 		this.validateRequiredKeys(schema);
-		return new SkadiEntity(this.entityName, this.table, z.object(schema));
+		const entitySchema = z.object(schema);
+		this.validateEncryptedFields(entitySchema, options);
+		this.validateStoredNames(entitySchema);
+		return new SkadiEntity(this.entityName, this.table, entitySchema, options);
+	}
+
+	/**
+	 * Validates that encrypted fields can be written and are not relied upon in plain text
+	 *
+	 * @param schema - The entity schema to validate
+	 * @param options - The entity options to validate
+	 * @throws Error if the table has no key provider, or an encrypted field is unique or a derived key source
+	 */
+	private validateEncryptedFields(schema: z.ZodObject<EntitySchemaDefinition>, options: EntityOptions) {
+		const encrypted = encryptedFields(schema);
+		if (encrypted.length === 0) return;
+		if (!this.table.keyring) {
+			throw new Error(
+				`Entity ${this.entityName}: Table '${this.table.tableName}' has no key provider for encrypted fields (see Table.encryption())`,
+			);
+		}
+		const unique = options.unique?.find((field) => encrypted.includes(field));
+		if (unique) {
+			throw new Error(`Entity ${this.entityName}: Encrypted field '${unique}' cannot be unique`);
+		}
+		for (const { field, sources } of derivedKeysOf(schema)) {
+			const source = sources.find((name) => encrypted.includes(name));
+			if (source) {
+				throw new Error(`Entity ${this.entityName}: Encrypted field '${source}' cannot be part of key '${field}'`);
+			}
+		}
+	}
+
+	/**
+	 * Validates that every field is stored under its own attribute name, after
+	 * aliases and the table's case style
+	 *
+	 * @param schema - The entity schema to validate
+	 * @throws Error if pk/sk are aliased, or two fields (or a field and a table attribute) share a stored name
+	 */
+	private validateStoredNames(schema: z.ZodObject<EntitySchemaDefinition>) {
+		const { partitionKey, sortKey } = this.table.keySchema;
+		const owners = new Map<string, string>();
+		for (const attribute of [partitionKey.name, sortKey?.name, entityTypeAttribute(this.table)]) {
+			if (attribute) owners.set(attribute, "");
+		}
+		for (const field of Object.keys(schema.shape)) {
+			if (field === "pk" || field === "sk") {
+				if (aliasOf(schema.shape[field])) {
+					throw new Error(
+						`Entity ${this.entityName}: Key field '${field}' is stored under the table key and cannot be aliased`,
+					);
+				}
+				continue;
+			}
+			const attribute = storedName(this.table, field, schema);
+			const owner = owners.get(attribute);
+			if (owner === "") {
+				throw new Error(
+					`Entity ${this.entityName}: Field '${field}' is stored as '${attribute}', reserved by the table`,
+				);
+			}
+			if (owner) {
+				throw new Error(
+					`Entity ${this.entityName}: Fields '${owner}' and '${field}' are both stored as '${attribute}'`,
+				);
+			}
+			owners.set(attribute, field);
+		}
 	}
 
 	/**
 	 * Validates that required keys are present in the schema
 	 *
 	 * @param schema - The entity schema to validate
-	 * @throws Error if partition key is missing
+	 * @throws Error if partition key is missing or the sort key doesn't match the table key schema
 	 */
 	private validateRequiredKeys(schema: EntitySchemaDefinition) {
 		if (!schema.pk) {
 			throw new Error(`Entity ${this.entityName}: Partition key (pk) is mandatory`);
 		}
+		const sortKey = this.table.keySchema.sortKey;
+		if (sortKey && !schema.sk) {
+			throw new Error(`Entity ${this.entityName}: Table sort key '${sortKey.name}' requires a sort key (sk) field`);
+		}
+		if (!sortKey && schema.sk) {
+			throw new Error(
+				`Entity ${this.entityName}: Table '${this.table.tableName}' has no sort key, remove the sk field`,
+			);
+		}
 	}
 }
 
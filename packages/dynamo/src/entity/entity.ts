@@ -1,15 +1,21 @@
 import type { z } from "zod";
 import type { ConnectedTable } from "../client/table.js";
-import type { EntitySchemaDefinition } from "../common/types.js";
+import type { EntityOptions, EntitySchemaDefinition } from "../common/types.js";
+import { resolveIndex } from "../operations/indexes.js";
 import {
 	EntityBatchGetBuilder,
 	EntityCreateBuilder,
 	EntityDeleteBuilder,
 	EntityGetBuilder,
+	EntityPutBuilder,
 	EntityQueryBuilder,
+	EntityRestoreBuilder,
+	EntityScanBuilder,
 	EntityTransactionBuilder,
 	EntityUpdateBuilder,
+	EntityUpsertBuilder,
 } from "../operations/index.js";
+import type { Relations } from "./relations.js";
 
 /**
  * Represents a fully configured DynamoDB entity that provides access
@@ -18,8 +24,13 @@ import {
  *
  * @template TName - The literal type of the entity name
  * @template TSchema - The Zod schema type for the entity
+ * @template TRelations - Relationships of the entity, loadable with `include()`
  */
-export class Entity<TName extends string, TSchema extends z.ZodObject<EntitySchemaDefinition>> {
+export class Entity<
+	TName extends string,
+	TSchema extends z.ZodObject<EntitySchemaDefinition>,
+	TRelations extends Relations = Record<never, never>,
+> {
 	constructor(
 		/** The name of the entity */
 		public readonly entityName: TName,
@@ -27,10 +38,45 @@ export class Entity<TName extends string, TSchema extends z.ZodObject<EntitySche
 		public readonly table: ConnectedTable,
 		/** The Zod schema for the entity */
 		public readonly schema: TSchema,
+		/** Per-entity behavior (middleware, hooks) */
+		public readonly options: EntityOptions<TSchema> = {},
+		/** Relationships to other entities, by name */
+		public readonly relations: TRelations = {} as TRelations,
 	) {}
 
 	/**
-	 * Creates a new item creation builder
+	 * Declares relationships to other entities of the table, loadable with
+	 * `include()` on gets and queries
+	 *
+	 * @param relations - Relationships by name (see `Relation.hasMany` and `Relation.belongsTo`)
+	 * @returns A copy of the entity with the relationships added
+	 * @throws Error if a related entity is on another table, or a relationship names an unknown index
+	 *
+	 * @example
+	 * ```typescript
+	 * const User = UserEntity.relate({
+	 *   accounts: Relation.hasMany(AccountEntity, { pk: 'USER#{userId}', sk: 'ACCOUNT#' }),
+	 * });
+	 * ```
+	 */
+	relate<TMore extends Relations>(relations: TMore) {
+		for (const [name, relation] of Object.entries(relations)) {
+			if (relation.target.table.tableName !== this.table.tableName) {
+				throw new Error(
+					`Entity ${this.entityName}: Relation '${name}' targets ${relation.target.entityName} on table '${relation.target.table.tableName}', not '${this.table.tableName}'`,
+				);
+			}
+			if (relation.index) resolveIndex(this.table, relation.index);
+		}
+		return new Entity(this.entityName, this.table, this.schema, this.options, {
+			...this.relations,
+			...relations,
+		} as TRelations & TMore);
+	}
+
+	/**
+	 * Creates a new item creation builder, failing with `ItemAlreadyExistsError`
+	 * when an item is already stored under the key
 	 *
 	 * @returns EntityCreateBuilder for inserting new items
 	 *
@@ -46,7 +92,39 @@ export class Entity<TName extends string, TSchema extends z.ZodObject<EntitySche
 	 * ```
 	 */
 	create() {
-		return new EntityCreateBuilder(this.table, this.schema);
+		return new EntityCreateBuilder(this.table, this.schema, this);
+	}
+
+	/**
+	 * Creates a new item write builder that replaces any item stored under the key
+	 *
+	 * @returns EntityPutBuilder for writing whole items
+	 *
+	 * @example
+	 * ```typescript
+	 * const user = await UserEntity.put()
+	 *   .item({ userId: 'user-123', name: 'John Doe', email: 'john@example.com' })
+	 *   .exec();
+	 * ```
+	 */
+	put() {
+		return new EntityPutBuilder(this.table, this.schema, this);
+	}
+
+	/**
+	 * Creates a new item upsert builder, merging the item into the stored one (or creating it)
+	 *
+	 * @returns EntityUpsertBuilder for creating or updating items
+	 *
+	 * @example
+	 * ```typescript
+	 * const [user] = await UserEntity.upsert()
+	 *   .item({ userId: 'user-123', name: 'John Doe', email: 'john@example.com' })
+	 *   .exec();
+	 * ```
+	 */
+	upsert() {
+		return new EntityUpsertBuilder(this.table, this.schema, this);
 	}
 
 	/**
@@ -62,7 +140,7 @@ export class Entity<TName extends string, TSchema extends z.ZodObject<EntitySche
 	 * ```
 	 */
 	get() {
-		return new EntityGetBuilder(this.table, this.schema);
+		return new EntityGetBuilder<TSchema, TRelations>(this.table, this.schema, this);
 	}
 
 	/**
@@ -80,7 +158,23 @@ export class Entity<TName extends string, TSchema extends z.ZodObject<EntitySche
 	 * ```
 	 */
 	query() {
-		return new EntityQueryBuilder(this.table, this.schema);
+		return new EntityQueryBuilder<TSchema, TRelations>(this.table, this.schema, this);
+	}
+
+	/**
+	 * Creates a new scan builder, reading every item of the entity
+	 *
+	 * @returns EntityScanBuilder for scanning the table or one of its indexes
+	 *
+	 * @example
+	 * ```typescript
+	 * for await (const user of UserEntity.scan().filter('isActive', '=', false).parallel(4)) {
+	 *   await archive(user);
+	 * }
+	 * ```
+	 */
+	scan() {
+		return new EntityScanBuilder<TSchema>(this.table, this.schema, this);
 	}
 
 	/**
@@ -97,11 +191,12 @@ export class Entity<TName extends string, TSchema extends z.ZodObject<EntitySche
 	 * ```
 	 */
 	update() {
-		return new EntityUpdateBuilder(this.table, this.schema);
+		return new EntityUpdateBuilder(this.table, this.schema, this);
 	}
 
 	/**
 	 * Creates a new item deletion builder
+	 * (marks the item as deleted on entities with soft delete)
 	 *
 	 * @returns EntityDeleteBuilder for removing items
 	 *
@@ -114,7 +209,40 @@ export class Entity<TName extends string, TSchema extends z.ZodObject<EntitySche
 	 * ```
 	 */
 	delete() {
-		return new EntityDeleteBuilder(this.table, this.schema);
+		return new EntityDeleteBuilder(this.table, this.schema, this);
+	}
+
+	/**
+	 * Creates a builder deleting an item for good, bypassing soft delete
+	 *
+	 * @returns EntityDeleteBuilder for removing items permanently
+	 *
+	 * @example
+	 * ```typescript
+	 * await UserEntity.purge()
+	 *   .key({ userId: 'user-123' })
+	 *   .exec();
+	 * ```
+	 */
+	purge() {
+		return new EntityDeleteBuilder(this.table, this.schema, this, true);
+	}
+
+	/**
+	 * Creates a builder bringing back a soft-deleted item
+	 *
+	 * @returns EntityRestoreBuilder for undoing soft deletes
+	 * @throws Error if the entity does not use soft delete
+	 *
+	 * @example
+	 * ```typescript
+	 * const user = await UserEntity.restore()
+	 *   .key({ userId: 'user-123' })
+	 *   .exec();
+	 * ```
+	 */
+	restore() {
+		return new EntityRestoreBuilder(this.table, this.schema, this);
 	}
 
 	/**
@@ -134,7 +262,7 @@ export class Entity<TName extends string, TSchema extends z.ZodObject<EntitySche
 	 * ```
 	 */
 	batchGet() {
-		return new EntityBatchGetBuilder(this.table, this.schema);
+		return new EntityBatchGetBuilder(this.table, this.schema, this);
 	}
 
 	/**
@@ -156,6 +284,6 @@ export class Entity<TName extends string, TSchema extends z.ZodObject<EntitySche
 	 * ```
 	 */
 	transaction() {
-		return new EntityTransactionBuilder(this.table, this.schema);
+		return new EntityTransactionBuilder(this.table, this.schema, this);
 	}
 }
@@ -0,0 +1,76 @@
+import type { z } from "zod";
+import type { EntitySchemaDefinition } from "../common/types.js";
+import type { Entity } from "./entity.js";
+
+// biome-ignore lint/suspicious/noExplicitAny: related entities may declare relations of their own
+type AnyEntity = Entity<string, z.ZodObject<EntitySchemaDefinition>, any>;
+
+/**
+ * Where the related items live, as templates over the fields of the item they relate to
+ * (key fields contribute their template params, e.g. `userId` from `pk: 'USER#{userId}'`)
+ */
+export interface RelationKeys {
+	/** Partition key value, of the table or of `index` (e.g. 'USER#{userId}') */
+	pk: string;
+	/** Sort key value: a prefix (`begins_with`) for hasMany, the exact value for belongsTo */
+	sk?: string;
+	/** Alias of the GSI or LSI the keys belong to */
+	index?: string;
+}
+
+/** A relationship to another entity, declared with `Relation.hasMany` or `Relation.belongsTo` */
+export interface RelationDefinition<TTarget extends AnyEntity = AnyEntity, TMany extends boolean = boolean>
+	extends RelationKeys {
+	target: TTarget;
+	many: TMany;
+}
+
+/** Relationships of an entity, by name */
+export type Relations = Record<string, RelationDefinition>;
+
+/** Related items loaded through a relationship */
+export type RelatedItems<TRelation> = TRelation extends RelationDefinition<infer TTarget, infer TMany>
+	? TMany extends true
+		? z.infer<TTarget["schema"]>[]
+		: z.infer<TTarget["schema"]> | null
+	: never;
+
+/** Fields an `include()` adds to the items read */
+export type Included<TRelations extends Relations, K extends keyof TRelations> = {
+	[P in K]: RelatedItems<TRelations[P]>;
+};
+
+/**
+ * Factories for relationships between entities
+ *
+ * @example
+ * ```typescript
+ * const User = UserEntity.relate({
+ *   accounts: Relation.hasMany(AccountEntity, { pk: 'USER#{userId}', sk: 'ACCOUNT#' }),
+ * });
+ * const Account = AccountEntity.relate({
+ *   owner: Relation.belongsTo(UserEntity, { pk: 'USER#{userId}', sk: 'PROFILE' }),
+ * });
+ * ```
+ */
+export const Relation = {
+	/**
+	 * One-to-many: the related items share a partition (of the table or an index),
+	 * optionally narrowed by a sort key prefix.
+	 */
+	hasMany: <TTarget extends AnyEntity>(target: TTarget, keys: RelationKeys): RelationDefinition<TTarget, true> => ({
+		...keys,
+		target,
+		many: true,
+	}),
+
+	/**
+	 * Many-to-one: the keys identify a single related item (the first one
+	 * of the partition when they do not make a full primary key).
+	 */
+	belongsTo: <TTarget extends AnyEntity>(target: TTarget, keys: RelationKeys): RelationDefinition<TTarget, false> => ({
+		...keys,
+		target,
+		many: false,
+	}),
+};
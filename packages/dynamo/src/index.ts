@@ -1,5 +1,40 @@
+export {
+	InMemoryClient,
+	type InMemoryClientOptions,
+	type InMemoryTableDefinition,
+} from "./client/memory/index.js";
+export type {
+	EnsureTableOptions,
+	EnsureTableResult,
+	TableDiff,
+	TableDrift,
+	TableDriftType,
+} from "./client/provisioning.js";
 export { Table } from "./client/table.js";
+export { Collection } from "./collection/builder.js";
+export type { CollectionEntities, CollectionItems, CollectionKey } from "./collection/collection.js";
+export { type DataKey, type KeyProvider, LocalKeyProvider } from "./common/encryption.js";
 export * from "./common/errors.js";
+export type { EntityHooks, HookContext, HookName } from "./common/hooks.js";
+export {
+	type CapacitySummary,
+	type ConsumedCapacityMode,
+	MetricsCollector,
+	type OperationMetrics,
+} from "./common/metrics.js";
+export type { Middleware, OperationContext, OperationKind } from "./common/middleware.js";
+export type { Migration, SchemaVersioning } from "./common/migrations.js";
+export { isRetryableError, type RetryMetadata, type RetryPolicy } from "./common/retry.js";
 export * from "./common/types.js";
 export { Entity } from "./entity/builder.js";
+export {
+	type Included,
+	type RelatedItems,
+	Relation,
+	type RelationDefinition,
+	type RelationKeys,
+	type Relations,
+} from "./entity/relations.js";
+export type { DynamoResult, OperationMetadata } from "./operations/base-operation.js";
+export type { ParallelScanOptions } from "./operations/scan.js";
 export { zdynamo } from "./schema/zdynamo.js";
@@ -1,11 +1,13 @@
-import type {
-	BatchGetCommand,
-	DeleteCommand,
+import {
+	type BatchGetCommand,
+	type DeleteCommand,
 	GetCommand,
+	type GetCommandOutput,
 	PutCommand,
-	QueryCommand,
-	TransactWriteCommand,
-	UpdateCommand,
+	type QueryCommand,
+	type ScanCommand,
+	type TransactWriteCommand,
+	type UpdateCommand,
 } from "@aws-sdk/lib-dynamodb";
 
 export type DynamoDBBuilderCommand =
@@ -15,43 +17,407 @@ export type DynamoDBBuilderCommand =
 	| DeleteCommand
 	| BatchGetCommand
 	| TransactWriteCommand
-	| QueryCommand;
+	| QueryCommand
+	| ScanCommand;
 
+import type { AttributeValue } from "@aws-sdk/client-dynamodb";
+import { unmarshall } from "@aws-sdk/util-dynamodb";
 import type { ConnectedTable } from "../client/table.js";
-import { DynamoOperationError } from "../common/errors.js";
+import type { z } from "zod";
+import { deriveKeys, staleKeys } from "../common/derived-keys.js";
+import { type DynamoOperationError, isSkadiDynamoError, toOperationError } from "../common/errors.js";
+import { type HookContext, type HookName, runHook } from "../common/hooks.js";
+import { fromConditionItem, fromDynamoItem, managedTimestamps, toDynamoItem } from "../common/mapper.js";
+import {
+	addConsumedCapacity,
+	type CapacitySummary,
+	type ConsumedCapacityMode,
+	emptyCapacity,
+} from "../common/metrics.js";
+import { type OperationContext, type OperationKind, runMiddleware } from "../common/middleware.js";
+import {
+	migrate,
+	schemaVersioningOf,
+	storedSchemaVersion,
+	unchangedCondition,
+	withSchemaVersion,
+} from "../common/migrations.js";
+import { INDEX_KEYS_STASH, softDeleteOf } from "../common/soft-delete.js";
+import {
+	releaseUnique,
+	reserveUnique,
+	type SentinelWrite,
+	uniqueChanges,
+	uniqueFieldsOf,
+	uniqueGuard,
+	uniqueValues,
+} from "../common/unique.js";
+import { type RetryMetadata, type RetryPolicy, resolveRetryPolicy, withRetry } from "../common/retry.js";
+import type { EntityOptions, EntitySchemaDefinition } from "../common/types.js";
+import { type VersionedWrite, versionedWrite } from "../common/version.js";
+import type { Relations } from "../entity/relations.js";
 
-export type DynamoResult<T> = [T | null, DynamoOperationError | null];
+type EntitySchema = z.ZodObject<EntitySchemaDefinition>;
+
+/** Execution details reported alongside every operation result */
+export interface OperationMetadata {
+	/** Retry bookkeeping, summed over every request the operation sent */
+	retry: RetryMetadata;
+	/** Capacity consumed by the operation, when requested via `consumedCapacity()` */
+	consumedCapacity?: CapacitySummary;
+	/** Item collection size estimates returned by writes on tables with local secondary indexes */
+	itemCollectionMetrics?: Record<string, unknown>[];
+}
+
+const WRITE_OPERATIONS = new Set<OperationKind>([
+	"create",
+	"put",
+	"upsert",
+	"update",
+	"delete",
+	"restore",
+	"transaction",
+	"migrate",
+]);
+
+const newMetadata = (): OperationMetadata => ({ retry: { attempts: 0, retries: 0, delayMs: 0 } });
+
+/** Options for operations guarded by a condition expression */
+export interface ConditionOptions {
+	/** Returns the stored item in `ConditionalCheckFailedError.item` when the condition fails */
+	returnOldItem?: boolean;
+}
+
+/** Entity on whose behalf a builder runs */
+export interface EntityContext {
+	entityName: string;
+	options: EntityOptions;
+	/** Schema of the entity, mapping the attributes of items returned by failed conditions */
+	schema?: EntitySchema;
+	/** Relationships `include()` can load */
+	relations?: Relations;
+}
+
+export type DynamoResult<T> = [T | null, DynamoOperationError | null, OperationMetadata?];
 
 /**
  * Abstract base class for all DynamoDB operation builders.
- * Provides common logic for table access and error handling.
+ * Provides common logic for table access, retries and error handling.
  */
 export abstract class BaseBuilder<TResult> {
 	protected readonly table: ConnectedTable;
+	protected readonly entity: EntityContext;
+	/** Operation kind reported to middleware */
+	protected abstract readonly operation: OperationKind;
+	private retryPolicy?: RetryPolicy;
+	private capacityMode?: ConsumedCapacityMode;
+	private metadata: OperationMetadata = newMetadata();
+	/** Items migrated on read, written back by `afterLoad` when the entity asks for it */
+	private migrated: Array<{
+		raw: Record<string, unknown>;
+		item: Record<string, unknown>;
+		schema: EntitySchema;
+		entity: EntityContext;
+	}> = [];
 
-	constructor(table: ConnectedTable) {
+	constructor(table: ConnectedTable, entity: EntityContext) {
 		this.table = table;
+		this.entity = entity;
 	}
 
 	/**
-	 * Sends a command to DynamoDB and wraps errors in DynamoOperationError.
+	 * Overrides the table's retry policy for this operation.
 	 */
-	protected async send<TOutput extends object>(command: DynamoDBBuilderCommand): Promise<DynamoResult<TOutput>> {
+	public retry(policy: RetryPolicy) {
+		this.retryPolicy = policy;
+		return this;
+	}
+
+	/**
+	 * Requests the consumed capacity for this operation, overriding the table setting.
+	 */
+	public consumedCapacity(mode: ConsumedCapacityMode = "TOTAL") {
+		this.capacityMode = mode;
+		return this;
+	}
+
+	/** Takes over the retry policy and capacity mode set on another builder */
+	protected withOptionsOf(other: BaseBuilder<unknown>) {
+		this.retryPolicy = other.retryPolicy;
+		this.capacityMode = other.capacityMode;
+		return this;
+	}
+
+	/**
+	 * Sends a command to DynamoDB through the table and entity middleware,
+	 * retrying throttled and transient failures per the retry policy,
+	 * and maps errors onto the DynamoOperationError subclasses. Commands are reported
+	 * under the builder's operation, unless sent on behalf of another (`operation`).
+	 */
+	protected async send<TOutput extends object>(
+		command: DynamoDBBuilderCommand,
+		operation: OperationKind = this.operation,
+	): Promise<DynamoResult<TOutput>> {
+		const policy = resolveRetryPolicy(this.table.options.retry, this.retryPolicy);
+		const capacityMode = this.capacityMode ?? this.table.options.consumedCapacity;
+		const input = command.input as Record<string, unknown>;
+		if (capacityMode) {
+			input.ReturnConsumedCapacity = capacityMode;
+			if (WRITE_OPERATIONS.has(operation)) input.ReturnItemCollectionMetrics = "SIZE";
+		}
+		const context: OperationContext = {
+			entityName: this.entity.entityName,
+			operation,
+			tableName: this.table.tableName,
+			input,
+			state: {},
+		};
+		const middleware = [...this.table.middleware, ...(this.entity.options.middleware ?? [])];
 		try {
-			const result = await this.table.client.send(command as unknown as Parameters<typeof this.table.client.send>[0]);
+			const result = await runMiddleware(middleware, context, async () => {
+				const [output, error, retry] = await withRetry(() => this.table.client.send(command), policy);
+				this.metadata.retry.attempts += retry.attempts;
+				this.metadata.retry.retries += retry.retries;
+				this.metadata.retry.delayMs += retry.delayMs;
+				if (error) throw error;
+				this.collectMetrics(output as Record<string, unknown>, operation);
+				return output as Record<string, unknown>;
+			});
+			// Keys of the encrypted values read, for the (synchronous) deserialization
+			await this.table.keyring?.prepareDecryption(result);
 			return [result as TOutput, null];
 		} catch (error: unknown) {
 			return [
 				null,
-				new DynamoOperationError("DynamoDB operation failed", {
-					cause: error,
-				}),
+				toOperationError(error, (item) =>
+					fromConditionItem(this.table, unmarshall(item as Record<string, AttributeValue>), this.entity.schema),
+				),
 			];
 		}
 	}
 
+	/** Accumulates the consumed capacity and item collection metrics of a command output */
+	private collectMetrics(
+		{ ConsumedCapacity, ItemCollectionMetrics }: Record<string, unknown>,
+		operation: OperationKind,
+	) {
+		if (ConsumedCapacity) {
+			this.metadata.consumedCapacity ??= emptyCapacity();
+			addConsumedCapacity(this.metadata.consumedCapacity, ConsumedCapacity, operation);
+		}
+		if (ItemCollectionMetrics) {
+			// Transactions return the metrics grouped by table
+			const metrics = Array.isArray(ItemCollectionMetrics)
+				? ItemCollectionMetrics
+				: "ItemCollectionKey" in (ItemCollectionMetrics as object)
+					? [ItemCollectionMetrics]
+					: Object.values(ItemCollectionMetrics as Record<string, unknown[]>).flat();
+			this.metadata.itemCollectionMetrics = [...(this.metadata.itemCollectionMetrics ?? []), ...metrics];
+		}
+	}
+
+	/**
+	 * Runs one of the entity's lifecycle hooks, returning the value to continue with.
+	 * A rejection is thrown and turned into the operation's error by `exec()`.
+	 */
+	protected runHook<T>(
+		name: HookName,
+		value: T,
+		context: Partial<HookContext> = {},
+		entity: EntityContext = this.entity,
+	): Promise<T> {
+		return runHook(entity.options.hooks, name, value, {
+			entityName: entity.entityName,
+			operation: this.operation,
+			...context,
+		});
+	}
+
+	/**
+	 * Deserializes and parses a stored item, migrating it first when it was
+	 * written at an older schema version.
+	 *
+	 * @throws ZodError if the (migrated) item does not match the schema
+	 */
+	protected parseItem<TSchema extends EntitySchema>(
+		schema: TSchema,
+		raw: Record<string, unknown>,
+		entity: EntityContext = this.entity,
+	): z.infer<TSchema> {
+		const deserialized = fromDynamoItem(this.table, raw, schema);
+		const versioning = schemaVersioningOf(entity.options);
+		const from = versioning ? storedSchemaVersion(versioning, raw) : 0;
+		if (!versioning || from >= versioning.current) return schema.parse(deserialized);
+		const parsed = schema.parse(migrate(versioning, deserialized, from));
+		if (versioning.writeBack) this.migrated.push({ raw, item: parsed, schema, entity });
+		return parsed;
+	}
+
+	/**
+	 * Writes migrated items back at the current schema version, unless they changed
+	 * since the read. Best effort: a failed write-back leaves the item to migrate again.
+	 */
+	private async writeBackMigrated() {
+		const migrated = this.migrated;
+		this.migrated = [];
+		for (const { raw, item, schema, entity } of migrated) {
+			const softDelete = softDeleteOf(this.table, schema, entity.options);
+			// Bookkeeping outside the schema survives the rewrite
+			const carried = Object.fromEntries(
+				[INDEX_KEYS_STASH, softDelete?.attribute].flatMap((name) =>
+					name && raw[name] !== undefined ? [[name, raw[name]]] : [],
+				),
+			);
+			const stored = withSchemaVersion(entity.options, {
+				...carried,
+				...toDynamoItem(this.table, item, schema, entity.entityName),
+			});
+			await this.send(
+				new PutCommand({ TableName: this.table.tableName, Item: stored, ...unchangedCondition(raw) }),
+				"migrate",
+			);
+		}
+	}
+
+	/** Runs `afterLoad` on every item read, in order (after writing back migrated items) */
+	protected async afterLoad<T>(items: T[], entity: EntityContext = this.entity): Promise<T[]> {
+		if (this.migrated.length > 0) await this.writeBackMigrated();
+		if (!entity.options.hooks?.afterLoad) return items;
+		const loaded: T[] = [];
+		for (const item of items) loaded.push(await this.runHook("afterLoad", item, {}, entity));
+		return loaded;
+	}
+
+	/**
+	 * Executes the operation and returns the result along with its execution metadata.
+	 */
+	public async exec(): Promise<DynamoResult<TResult>> {
+		return this.run(() => this.execute());
+	}
+
+	/**
+	 * Runs one of the builder's terminals (`execute()` for `exec()`), resetting and
+	 * recording the operation metadata around it.
+	 */
+	protected async run<T>(terminal: () => Promise<DynamoResult<T>>): Promise<DynamoResult<T>> {
+		this.metadata = newMetadata();
+		const [result, error] = await this.prepareKeys()
+			.then(() => terminal())
+			.catch((error: unknown): DynamoResult<T> => {
+				// Hook rejections (and reads failing mid-operation) are thrown from within execute()
+				if (isSkadiDynamoError(error)) return [null, error as DynamoOperationError];
+				throw error;
+			});
+		this.table.options.metrics?.record(this.entity.entityName, this.operation, {
+			capacity: this.metadata.consumedCapacity ?? emptyCapacity(),
+			retries: this.metadata.retry.retries,
+			failed: error !== null,
+		});
+		return [result, error, this.metadata];
+	}
+
+	/** Resolves the key of the encrypted fields written, for the (synchronous) serialization */
+	private async prepareKeys() {
+		await this.table.keyring?.prepareEncryption();
+	}
+
+	/**
+	 * Reads the stored item (consistently) for writes that depend on it.
+	 * Read errors are thrown from within execute(), like hook rejections.
+	 */
+	protected async readItem(key: Record<string, unknown>): Promise<Record<string, unknown> | undefined> {
+		const [output, error] = await this.send<GetCommandOutput>(
+			new GetCommand({ TableName: this.table.tableName, Key: key, ConsistentRead: true }),
+		);
+		if (error) throw error;
+		return output?.Item;
+	}
+
+	/**
+	 * Carries the stored `createdAt` over to an item replacing the one under its key,
+	 * and moves its version on from the stored one (or `expected`, checked by the
+	 * returned version condition). Reads the stored item only on entities that
+	 * manage either.
+	 */
+	protected async replacing<T extends Record<string, unknown>>(
+		schema: EntitySchema,
+		key: Record<string, unknown>,
+		item: T,
+		expected?: number,
+	): Promise<{ item: T; version?: VersionedWrite }> {
+		const createdAt = managedTimestamps(this.table)?.createdAt;
+		const version = versionedWrite(this.table, schema, this.entity.options, expected);
+		if (!createdAt && !version) return { item };
+		const stored = await this.readItem(key);
+		const current = stored ? fromDynamoItem(this.table, stored, schema) : {};
+		const replaced: Record<string, unknown> = { ...item };
+		if (createdAt && current[createdAt] !== undefined) replaced[createdAt] = current[createdAt];
+		if (!version) return { item: replaced as T };
+		// Without an expected version, the write checks the version read is still stored
+		const checked = { ...version, expected: expected ?? (current[version.field] as number | undefined) };
+		replaced[version.field] = (checked.expected ?? 0) + 1;
+		return { item: replaced as T, version: checked };
+	}
+
+	/**
+	 * Adds the derived keys reading an updated field to the update, reading the
+	 * stored item first when the update lacks some of their sources.
+	 */
+	protected async withDerivedKeyUpdates<T extends Record<string, unknown>>(
+		schema: EntitySchema,
+		key: Record<string, unknown>,
+		updates: T,
+	): Promise<T> {
+		const { keys, missing } = staleKeys(schema, updates);
+		if (keys.length === 0) return updates;
+		const stored = missing.length > 0 ? await this.readItem(key) : undefined;
+		const current = stored ? fromDynamoItem(this.table, stored, schema) : {};
+		return { ...updates, ...deriveKeys({ ...current, ...updates }, keys) };
+	}
+
+	/**
+	 * Sentinel writes moving the unique values an update changes, with the condition
+	 * guarding the values read. Reads the stored item when the update sets a unique field.
+	 */
+	protected async uniqueUpdate(
+		schema: EntitySchema,
+		key: Record<string, unknown>,
+		updates: Record<string, unknown>,
+	): Promise<{ sentinels: SentinelWrite[]; guard?: ReturnType<typeof uniqueGuard> }> {
+		if (!uniqueFieldsOf(this.entity.options).some((field) => field in updates)) return { sentinels: [] };
+		const stored = await this.readItem(key);
+		const before = stored ? fromDynamoItem(this.table, stored, schema) : {};
+		const { fields, reserve, release } = uniqueChanges(this.entity.options, before, updates);
+		const { entityName } = this.entity;
+		return {
+			sentinels: [
+				...release.map((unique) => releaseUnique(this.table, entityName, key, unique)),
+				...reserve.map((unique) => reserveUnique(this.table, entityName, key, unique)),
+			],
+			guard: uniqueGuard(this.table, schema, before, fields),
+		};
+	}
+
+	/**
+	 * Sentinel writes releasing the unique values of an item being deleted, along
+	 * with the stored item they were read from (only read for entities with unique fields).
+	 */
+	protected async uniqueRelease(
+		schema: EntitySchema,
+		key: Record<string, unknown>,
+	): Promise<{ sentinels: SentinelWrite[]; stored?: Record<string, unknown> }> {
+		if (uniqueFieldsOf(this.entity.options).length === 0) return { sentinels: [] };
+		const stored = await this.readItem(key);
+		if (!stored) return { sentinels: [] };
+		const values = uniqueValues(this.entity.options, fromDynamoItem(this.table, stored, schema));
+		return {
+			sentinels: values.map((unique) => releaseUnique(this.table, this.entity.entityName, key, unique)),
+			stored,
+		};
+	}
+
 	/**
-	 * Executes the operation and returns the result.
+	 * Builds and sends the operation's command(s).
 	 */
-	public abstract exec(): Promise<DynamoResult<TResult>>;
+	protected abstract execute(): Promise<DynamoResult<TResult>>;
 }
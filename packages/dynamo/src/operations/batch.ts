@@ -1,19 +1,26 @@
 import { BatchGetCommand, type BatchGetCommandOutput } from "@aws-sdk/lib-dynamodb";
 import { z } from "zod";
 import type { ConnectedTable } from "../client/table.js";
-import { DynamoOperationError, EntityValidationError } from "../common/errors.js";
-import { deserialize } from "../common/transformer.js";
+import { DynamoOperationError, EncryptionError, EntityValidationError } from "../common/errors.js";
+import { isExpired, isForeignItem, toDynamoKey } from "../common/mapper.js";
+import { isSoftDeleted, softDeleteOf } from "../common/soft-delete.js";
 import type { BatchResult, EntitySchemaDefinition } from "../common/types.js";
-import { BaseBuilder, type DynamoResult } from "./base-operation.js";
+import { BaseBuilder, type DynamoResult, type EntityContext } from "./base-operation.js";
+import { type Projection, parseProjected, projectionOf, withProjection } from "./projection.js";
 
-export class EntityBatchGetBuilder<TSchema extends z.ZodObject<EntitySchemaDefinition>> extends BaseBuilder<
-	BatchResult<z.infer<TSchema>>
-> {
+export class EntityBatchGetBuilder<
+	TSchema extends z.ZodObject<EntitySchemaDefinition>,
+	TItem = z.infer<TSchema>,
+> extends BaseBuilder<BatchResult<TItem>> {
 	private _keys: Record<string, unknown>[] = [];
 	private schema: TSchema;
+	private skipExpired = false;
+	private includeDeleted = false;
+	private projection?: Projection;
+	protected readonly operation = "batchGet";
 
-	constructor(table: ConnectedTable, schema: TSchema) {
-		super(table);
+	constructor(table: ConnectedTable, schema: TSchema, entity: EntityContext) {
+		super(table, entity);
 		this.schema = schema;
 	}
 
@@ -24,51 +31,79 @@ export class EntityBatchGetBuilder<TSchema extends z.ZodObject<EntitySchemaDefin
 		>,
 	) {
 		// Transform template-based keys to DynamoDB format
-		this._keys = keys.map((keyData) => {
-			const pkValue = this.schema.shape.pk.parse(keyData);
-			const result: Record<string, unknown> = { pk: pkValue };
+		this._keys = keys.map((keyData) => toDynamoKey(this.table, this.schema, keyData));
+		return this;
+	}
 
-			if (this.schema.shape.sk) {
-				const skValue = this.schema.shape.sk.parse(keyData);
-				result.sk = skValue;
-			}
+	/**
+	 * Reads only the picked fields (with a ProjectionExpression), validating the items
+	 * against them. Projected items are not migrated and skip the `afterLoad` hook.
+	 *
+	 * @throws Error if no field is picked, or if one is not part of the schema
+	 */
+	select<K extends keyof z.infer<TSchema> & string>(fields: K[]) {
+		this.projection = projectionOf(this.table, this.schema, this.entity, fields);
+		return this as unknown as EntityBatchGetBuilder<TSchema, Pick<z.infer<TSchema>, K>>;
+	}
 
-			return result;
-		});
+	/**
+	 * Includes soft-deleted items, which are skipped by default
+	 * (entities with soft delete).
+	 */
+	withDeleted() {
+		this.includeDeleted = true;
 		return this;
 	}
 
-	async exec(): Promise<DynamoResult<BatchResult<z.infer<TSchema>>>> {
+	/**
+	 * Drops items whose TTL has passed but that DynamoDB has not deleted yet
+	 * (deletion is lazy and can take a while).
+	 *
+	 * @throws Error if the table has no TTL attribute (see `Table.ttl()`)
+	 */
+	excludeExpired() {
+		if (!this.table.options.ttlAttribute) {
+			throw new Error(`Table '${this.table.tableName}' has no TTL attribute`);
+		}
+		this.skipExpired = true;
+		return this;
+	}
+
+	protected async execute(): Promise<DynamoResult<BatchResult<TItem>>> {
 		if (!this._keys.length) {
 			return [null, new DynamoOperationError("No keys provided")];
 		}
 		const params = {
 			RequestItems: {
-				[this.table.tableName]: {
-					Keys: this._keys,
-				},
+				[this.table.tableName]: withProjection(this.projection, { Keys: this._keys }),
 			},
 		};
 		const [output, opErr] = await this.send<BatchGetCommandOutput>(new BatchGetCommand(params));
 		if (opErr) return [null, opErr];
+		const softDelete = softDeleteOf(this.table, this.schema, this.entity.options);
+		let items: Record<string, unknown>[];
 		try {
-			const items = (output?.Responses?.[this.table.tableName] ?? []).map((item: Record<string, unknown>) => {
-				const deserialized = deserialize(item, this.schema);
-				return this.schema.parse(deserialized);
-			});
-			const unprocessed = output?.UnprocessedKeys?.[this.table.tableName]?.Keys ?? [];
-			return [
-				{
-					items,
-					unprocessedKeys: unprocessed,
-				},
-				null,
-			];
+			items = (output?.Responses?.[this.table.tableName] ?? [])
+				.filter((item: Record<string, unknown>) => !this.skipExpired || !isExpired(this.table, item))
+				.filter((item: Record<string, unknown>) => !isForeignItem(this.table, this.entity.entityName, item))
+				.filter((item: Record<string, unknown>) => this.includeDeleted || !isSoftDeleted(softDelete, item))
+				.map((item: Record<string, unknown>) =>
+					this.projection ? parseProjected(this.table, this.projection, item) : this.parseItem(this.schema, item),
+				);
 		} catch (err) {
+			if (err instanceof EncryptionError) return [null, err];
 			return [
 				null,
 				new EntityValidationError("Entity validation failed", err instanceof z.ZodError ? err.issues : undefined),
 			];
 		}
+		const unprocessed = output?.UnprocessedKeys?.[this.table.tableName]?.Keys ?? [];
+		return [
+			{
+				items: (this.projection ? items : await this.afterLoad(items)) as TItem[],
+				unprocessedKeys: unprocessed,
+			},
+			null,
+		];
 	}
 }
@@ -0,0 +1,161 @@
+import { QueryCommand, type QueryCommandInput, type QueryCommandOutput } from "@aws-sdk/lib-dynamodb";
+import { z } from "zod";
+import type { ConnectedTable } from "../client/table.js";
+import type { CollectionEntities, CollectionItems, CollectionKey } from "../collection/collection.js";
+import { EncryptionError, EntityValidationError, MissingKeyError } from "../common/errors.js";
+import { encodeKeyValue, entityTypeAttribute, fromDynamoItem } from "../common/mapper.js";
+import { isSoftDeleted, softDeleteOf } from "../common/soft-delete.js";
+import type { CollectionQueryResult } from "../common/types.js";
+import { BaseBuilder, type DynamoResult } from "./base-operation.js";
+
+type SortKeyOperator = "=" | "<" | "<=" | ">" | ">=" | "between" | "begins_with";
+
+/**
+ * Builder for querying a partition shared by the entities of a collection
+ *
+ * Runs a single Query and routes each item to its entity by the entity type
+ * attribute; items without it go to the first entity whose schema accepts them,
+ * and items of entities outside the collection are skipped.
+ *
+ * @template TEntities - The entities of the collection, by key
+ */
+export class CollectionQueryBuilder<TEntities extends CollectionEntities> extends BaseBuilder<
+	CollectionQueryResult<CollectionItems<TEntities>>
+> {
+	private pkValue?: unknown;
+	private skCondition?: { operator: SortKeyOperator; values: unknown[] };
+	private limitValue?: number;
+	private cursorValue?: Record<string, unknown>;
+	private ascending = true;
+	private entities: TEntities;
+	protected readonly operation = "query";
+
+	constructor(table: ConnectedTable, collectionName: string, entities: TEntities) {
+		super(table, { entityName: collectionName, options: {} });
+		this.entities = entities;
+	}
+
+	/**
+	 * Sets the partition to read
+	 *
+	 * @param keyData - Key data every entity of the collection builds its partition key from
+	 * @returns This builder instance
+	 * @throws Error if the entities build different partition keys from the data
+	 */
+	pk(keyData: CollectionKey<TEntities>) {
+		const values = new Set(Object.values(this.entities).map((entity) => entity.schema.shape.pk.parse(keyData)));
+		if (values.size > 1) {
+			throw new Error(`Collection ${this.entity.entityName}: Entities build different partition keys`);
+		}
+		[this.pkValue] = values;
+		return this;
+	}
+
+	/**
+	 * Adds a sort key condition, on the table's sort key values
+	 *
+	 * @example
+	 * ```typescript
+	 * .sk('begins_with', 'ACCOUNT#')
+	 * .sk('between', 'ORDER#2024-01', 'ORDER#2024-12')
+	 * ```
+	 */
+	sk(operator: SortKeyOperator, value: unknown, value2?: unknown) {
+		this.skCondition = { operator, values: value2 === undefined ? [value] : [value, value2] };
+		return this;
+	}
+
+	/** Sets the maximum number of items to read */
+	limit(count: number) {
+		this.limitValue = count;
+		return this;
+	}
+
+	/** Continues from the `cursor` returned by the previous query */
+	cursor(cursor?: Record<string, unknown>) {
+		this.cursorValue = cursor;
+		return this;
+	}
+
+	/** Sets the sort direction of the sort key */
+	sortBy(direction: "ASC" | "DESC") {
+		this.ascending = direction === "ASC";
+		return this;
+	}
+
+	protected async execute(): Promise<DynamoResult<CollectionQueryResult<CollectionItems<TEntities>>>> {
+		if (this.pkValue === undefined) {
+			return [null, new MissingKeyError("A partition key must be provided for the collection query.")];
+		}
+		const { partitionKey, sortKey } = this.table.keySchema;
+		let keyExpr = "#pk = :pk";
+		const names: Record<string, string> = { "#pk": partitionKey.name };
+		const values: Record<string, unknown> = { ":pk": encodeKeyValue(partitionKey, this.pkValue) };
+		if (this.skCondition && sortKey) {
+			const { operator, values: operands } = this.skCondition;
+			names["#sk"] = sortKey.name;
+			operands.forEach((operand, i) => {
+				values[`:sk${i}`] = encodeKeyValue(sortKey, operand);
+			});
+			if (operator === "begins_with") keyExpr += " AND begins_with(#sk, :sk0)";
+			else if (operator === "between") keyExpr += " AND #sk BETWEEN :sk0 AND :sk1";
+			else keyExpr += ` AND #sk ${operator} :sk0`;
+		}
+		const params: QueryCommandInput = {
+			TableName: this.table.tableName,
+			KeyConditionExpression: keyExpr,
+			ExpressionAttributeNames: names,
+			ExpressionAttributeValues: values,
+			Limit: this.limitValue,
+			ScanIndexForward: this.ascending,
+			ExclusiveStartKey: this.cursorValue,
+		};
+		const [output, opErr] = await this.send<QueryCommandOutput>(new QueryCommand(params));
+		if (opErr) return [null, opErr];
+
+		const entries = Object.entries(this.entities);
+		const grouped: Record<string, unknown[]> = Object.fromEntries(entries.map(([key]) => [key, []]));
+		try {
+			for (const raw of output?.Items ?? []) {
+				const match = this.entryFor(raw);
+				if (!match) continue;
+				const [key, entity] = match;
+				if (isSoftDeleted(softDeleteOf(this.table, entity.schema, entity.options), raw)) continue;
+				grouped[key]?.push(this.parseItem(entity.schema, raw, entity));
+			}
+		} catch (err) {
+			if (err instanceof EncryptionError) return [null, err];
+			return [
+				null,
+				new EntityValidationError("Entity validation failed", err instanceof z.ZodError ? err.issues : undefined),
+			];
+		}
+		let count = 0;
+		for (const [key, entity] of entries) {
+			const loaded = await this.afterLoad(grouped[key] ?? [], entity);
+			grouped[key] = loaded;
+			count += loaded.length;
+		}
+		return [
+			{
+				items: grouped as CollectionItems<TEntities>,
+				cursor: output?.LastEvaluatedKey as Record<string, unknown> | undefined,
+				count,
+				scannedCount: output?.ScannedCount ?? undefined,
+			},
+			null,
+		];
+	}
+
+	/** Entity (and its collection key) an item belongs to */
+	private entryFor(raw: Record<string, unknown>) {
+		const entries = Object.entries(this.entities);
+		const attribute = entityTypeAttribute(this.table);
+		const type = attribute ? raw[attribute] : undefined;
+		if (type !== undefined) return entries.find(([, entity]) => entity.entityName === type);
+		// Items written without the type attribute
+		return entries.find(
+			([, entity]) => entity.schema.safeParse(fromDynamoItem(this.table, raw, entity.schema)).success,
+		);
+	}
+}
@@ -1,20 +1,48 @@
-import { PutCommand, type PutCommandInput } from "@aws-sdk/lib-dynamodb";
+import { PutCommand, type PutCommandInput, TransactWriteCommand } from "@aws-sdk/lib-dynamodb";
 import { ZodError, type z } from "zod";
 import type { ConnectedTable } from "../client/table.js";
-import { EntityValidationError, MissingKeyError } from "../common/errors.js";
-import { serialize } from "../common/transformer.js";
+import { withDerivedKeys } from "../common/derived-keys.js";
+import {
+	ConditionalCheckFailedError,
+	type DynamoOperationError,
+	EntityValidationError,
+	ItemAlreadyExistsError,
+	MissingKeyError,
+} from "../common/errors.js";
+import { keyOf, stampTimestamps, toDynamoItem } from "../common/mapper.js";
+import type { OperationKind } from "../common/middleware.js";
+import { withSchemaVersion } from "../common/migrations.js";
 import type { EntitySchemaDefinition } from "../common/types.js";
-import { BaseBuilder, type DynamoResult } from "./base-operation.js";
+import { reserveUnique, toSentinelWriteError, uniqueFieldsOf, uniqueValues } from "../common/unique.js";
+import { joinConditions, toVersionConflict, versionCondition, withInitialVersion } from "../common/version.js";
+import { BaseBuilder, type ConditionOptions, type DynamoResult, type EntityContext } from "./base-operation.js";
 
+/**
+ * A failed existence check: the stored item returned with the failure tells it
+ * apart from a failure of the caller's own condition
+ */
+const toAlreadyExists = (error: DynamoOperationError): DynamoOperationError =>
+	error instanceof ConditionalCheckFailedError && error.item ? new ItemAlreadyExistsError(error, error.item) : error;
+
+/**
+ * Builder writing a whole item: fails if an item is already stored under its key
+ * (`ItemAlreadyExistsError`). Use `put()` to overwrite it, or `upsert()` to merge into it.
+ */
 export class EntityCreateBuilder<TSchema extends z.ZodObject<EntitySchemaDefinition>> extends BaseBuilder<
 	z.infer<TSchema>
 > {
 	private _item: z.infer<TSchema> | undefined;
 	private _condition?: string;
+	private _conditionOptions: ConditionOptions = {};
+	/** Version the replaced item must be at (puts only) */
+	protected _expectedVersion?: number;
 	private schema: TSchema;
+	protected readonly operation: OperationKind = "create";
+	/** Whether the write replaces an item stored under the same key */
+	protected readonly overwrite: boolean = false;
 
-	constructor(table: ConnectedTable, schema: TSchema) {
-		super(table);
+	constructor(table: ConnectedTable, schema: TSchema, entity: EntityContext) {
+		super(table, entity);
 		this.schema = schema;
 	}
 
@@ -23,30 +51,105 @@ export class EntityCreateBuilder<TSchema extends z.ZodObject<EntitySchemaDefinit
 		return this;
 	}
 
-	condition(expression: string) {
+	condition(expression: string, options: ConditionOptions = {}) {
 		this._condition = expression;
+		this._conditionOptions = options;
 		return this;
 	}
 
-	async exec(): Promise<DynamoResult<z.TypeOf<TSchema>>> {
+	protected async execute(): Promise<DynamoResult<z.TypeOf<TSchema>>> {
 		if (!this._item) {
-			return [null, new MissingKeyError("No item provided for create operation.")];
+			return [null, new MissingKeyError(`No item provided for ${this.operation} operation.`)];
 		}
-		const serializedItem = serialize(this._item, this.table.options.caseStyle);
+		const stamped = withDerivedKeys(
+			this.schema,
+			stampTimestamps(this.table, await this.runHook("beforeCreate", this._item)),
+		);
+		const key = keyOf(this.table, toDynamoItem(this.table, stamped, this.schema, this.entity.entityName));
+		// Overwrites keep the stored createdAt and move the stored version on
+		const { item, version } = this.overwrite
+			? await this.replacing(this.schema, key, stamped, this._expectedVersion)
+			: { item: withInitialVersion(this.entity.options, stamped), version: undefined };
+		const serializedItem = withSchemaVersion(
+			this.entity.options,
+			toDynamoItem(this.table, item, this.schema, this.entity.entityName),
+		);
+		// Values of unique fields are reserved in the same transaction (and, on overwrites, the replaced ones released)
+		const { sentinels, guard } = this.overwrite
+			? await this.uniqueUpdate(
+					this.schema,
+					key,
+					Object.fromEntries(uniqueFieldsOf(this.entity.options).map((field) => [field, item[field] ?? null])),
+				)
+			: {
+					sentinels: uniqueValues(this.entity.options, item).map((unique) =>
+						reserveUnique(this.table, this.entity.entityName, key, unique),
+					),
+					guard: undefined,
+				};
+		const exists = this.overwrite
+			? undefined
+			: { expression: "attribute_not_exists(#skadiPk)", names: { "#skadiPk": this.table.keySchema.partitionKey.name } };
+		const versionCheck = versionCondition(version);
 		const params: PutCommandInput = {
 			TableName: this.table.tableName,
 			Item: serializedItem,
 		};
-		if (this._condition) {
-			params.ConditionExpression = this._condition;
+		if (this._condition || exists || guard || versionCheck) {
+			params.ConditionExpression = joinConditions(
+				exists?.expression,
+				this._condition,
+				guard?.expression,
+				versionCheck?.expression,
+			);
+			if (exists || guard || versionCheck) {
+				params.ExpressionAttributeNames = { ...exists?.names, ...guard?.names, ...versionCheck?.names };
+			}
+			const values = { ...guard?.values, ...versionCheck?.values };
+			if (Object.keys(values).length > 0) params.ExpressionAttributeValues = values;
+			// The stored item tells an existing item (or the version found) apart from other condition failures
+			if (this._conditionOptions.returnOldItem || exists || versionCheck) {
+				params.ReturnValuesOnConditionCheckFailure = "ALL_OLD";
+			}
 		}
 		try {
-			const [_, opErr] = await this.send(new PutCommand(params));
-			if (opErr) return [null, opErr];
-			return [this._item, null];
+			const [_, opErr] =
+				sentinels.length > 0
+					? await this.send(
+							new TransactWriteCommand({ TransactItems: [{ Put: params }, ...sentinels.map(({ write }) => write)] }),
+						)
+					: await this.send(new PutCommand(params));
+			if (opErr) {
+				const error =
+					sentinels.length > 0 ? toSentinelWriteError(opErr, sentinels, version) : toVersionConflict(opErr, version);
+				return [null, exists ? toAlreadyExists(error) : error];
+			}
 		} catch (err) {
 			const issues = err instanceof ZodError ? (err as ZodError).issues : undefined;
 			return [null, new EntityValidationError("Entity validation failed", issues)];
 		}
+		await this.runHook("afterCreate", item);
+		return [item, null];
+	}
+}
+
+/**
+ * Builder writing a whole item, replacing any item stored under its key.
+ * Runs the same validation and `create` hooks as `create()`. The replacement
+ * keeps the stored `createdAt` and moves the stored version on.
+ */
+export class EntityPutBuilder<
+	TSchema extends z.ZodObject<EntitySchemaDefinition>,
+> extends EntityCreateBuilder<TSchema> {
+	protected override readonly operation: OperationKind = "put";
+	protected override readonly overwrite: boolean = true;
+
+	/**
+	 * Replaces the item only if it is at this version (entities with a `version` field).
+	 * A mismatch, or no stored item, fails with `VersionConflictError`.
+	 */
+	expectVersion(version: number) {
+		this._expectedVersion = version;
+		return this;
 	}
 }
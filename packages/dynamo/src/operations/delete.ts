@@ -1,10 +1,77 @@
-import { DeleteCommand, type DeleteCommandInput, type DeleteCommandOutput } from "@aws-sdk/lib-dynamodb";
+import {
+	DeleteCommand,
+	type DeleteCommandInput,
+	type DeleteCommandOutput,
+	TransactWriteCommand,
+	UpdateCommand,
+	type UpdateCommandOutput,
+} from "@aws-sdk/lib-dynamodb";
 import type { z } from "zod";
 import type { ConnectedTable } from "../client/table.js";
-import { MissingKeyError } from "../common/errors.js";
-import { deserialize } from "../common/transformer.js";
+import { ConditionalCheckFailedError, MissingKeyError } from "../common/errors.js";
+import { fromDynamoItem, toDynamoKey } from "../common/mapper.js";
+import { INDEX_KEYS_STASH, indexKeysOf, isSoftDeleted, type SoftDelete, softDeleteOf } from "../common/soft-delete.js";
 import type { EntitySchemaDefinition } from "../common/types.js";
-import { BaseBuilder, type DynamoResult } from "./base-operation.js";
+import { toSentinelWriteError } from "../common/unique.js";
+import {
+	joinConditions,
+	type VersionedWrite,
+	toVersionConflict,
+	versionCondition,
+	versionedWrite,
+} from "../common/version.js";
+import { BaseBuilder, type ConditionOptions, type DynamoResult, type EntityContext } from "./base-operation.js";
+import { entityUpdateExpression } from "./update.js";
+
+/**
+ * UpdateItem parameters soft-deleting an item: sets the deletion time and moves
+ * `indexKeys` (GSI key attributes) into the stash so the item leaves those indexes.
+ * Missing and already deleted items fail the condition.
+ */
+export const softDeleteParams = (
+	table: ConnectedTable,
+	schema: z.ZodObject<EntitySchemaDefinition>,
+	entityName: string,
+	key: Record<string, unknown>,
+	softDelete: SoftDelete,
+	{
+		version,
+		condition,
+		indexKeys = {},
+	}: { version?: VersionedWrite; condition?: string; indexKeys?: Record<string, unknown> } = {},
+) => {
+	const moved = Object.keys(indexKeys);
+	const expression = entityUpdateExpression(
+		table,
+		schema,
+		entityName,
+		{ [softDelete.field]: new Date() },
+		{
+			version,
+			raw: moved.length > 0 ? { [INDEX_KEYS_STASH]: indexKeys } : undefined,
+			remove: moved,
+		},
+	);
+	const partitionKey = table.keySchema.partitionKey.name;
+	const versionCheck = versionCondition(version);
+	return {
+		TableName: table.tableName,
+		Key: key,
+		UpdateExpression: expression.UpdateExpression,
+		ConditionExpression: joinConditions(
+			`attribute_exists(#${partitionKey}) AND attribute_not_exists(#${softDelete.attribute})`,
+			condition,
+			versionCheck?.expression,
+		),
+		ExpressionAttributeNames: {
+			...expression.ExpressionAttributeNames,
+			[`#${partitionKey}`]: partitionKey,
+			[`#${softDelete.attribute}`]: softDelete.attribute,
+			...versionCheck?.names,
+		},
+		ExpressionAttributeValues: { ...expression.ExpressionAttributeValues, ...versionCheck?.values },
+	};
+};
 
 export class EntityDeleteBuilder<TSchema extends z.ZodObject<EntitySchemaDefinition>> extends BaseBuilder<Record<
 	string,
@@ -12,11 +79,17 @@ export class EntityDeleteBuilder<TSchema extends z.ZodObject<EntitySchemaDefinit
 > | null> {
 	private _key: Record<string, unknown> | undefined;
 	private _condition?: string;
+	private _conditionOptions: ConditionOptions = {};
+	private _expectedVersion?: number;
 	private schema: TSchema;
+	/** Deletes the item for good, even on entities with soft delete */
+	private purge: boolean;
+	protected readonly operation = "delete";
 
-	constructor(table: ConnectedTable, schema: TSchema) {
-		super(table);
+	constructor(table: ConnectedTable, schema: TSchema, entity: EntityContext, purge = false) {
+		super(table, entity);
 		this.schema = schema;
+		this.purge = purge;
 	}
 
 	key(
@@ -24,43 +97,107 @@ export class EntityDeleteBuilder<TSchema extends z.ZodObject<EntitySchemaDefinit
 			(TSchema["shape"]["sk"] extends z.ZodTypeAny ? z.input<TSchema["shape"]["sk"]> : Record<string, never>),
 	) {
 		// Transform template-based key to DynamoDB format
-		const pkValue = this.schema.shape.pk.parse(keyData);
-		this._key = { pk: pkValue };
-
-		if (this.schema.shape.sk) {
-			const skValue = this.schema.shape.sk.parse(keyData);
-			this._key.sk = skValue;
-		}
+		this._key = toDynamoKey(this.table, this.schema, keyData);
 
 		return this;
 	}
 
-	condition(expression: string) {
+	condition(expression: string, options: ConditionOptions = {}) {
 		this._condition = expression;
+		this._conditionOptions = options;
 		return this;
 	}
 
-	async exec(): Promise<DynamoResult<Record<string, unknown> | null>> {
+	/**
+	 * Deletes the item only if it is at this version (entities with a `version` field).
+	 * A mismatch fails with `VersionConflictError`.
+	 */
+	expectVersion(version: number) {
+		this._expectedVersion = version;
+		return this;
+	}
+
+	protected async execute(): Promise<DynamoResult<Record<string, unknown> | null>> {
 		if (!this._key) {
 			return [null, new MissingKeyError("A key must be provided for the delete operation.")];
 		}
+		await this.runHook("beforeDelete", this._key, { key: this._key });
+		const version = versionedWrite(this.table, this.schema, this.entity.options, this._expectedVersion);
+		const softDelete = softDeleteOf(this.table, this.schema, this.entity.options);
+		const [deleted, error] =
+			softDelete && !this.purge
+				? await this.softDelete(this._key, softDelete, version)
+				: await this.hardDelete(this._key, version);
+		if (error) return [null, error];
+
+		await this.runHook("afterDelete", deleted, { key: this._key });
+		return [deleted, null];
+	}
+
+	private async hardDelete(
+		key: Record<string, unknown>,
+		version?: VersionedWrite,
+	): Promise<DynamoResult<Record<string, unknown> | null>> {
 		const params: DeleteCommandInput = {
 			TableName: this.table.tableName,
-			Key: this._key,
-			ReturnValues: "ALL_OLD",
+			Key: key,
 		};
-		if (this._condition) {
-			params.ConditionExpression = this._condition;
+		const versionCheck = versionCondition(version);
+		if (this._condition || versionCheck) {
+			params.ConditionExpression = joinConditions(this._condition, versionCheck?.expression);
+			if (versionCheck) {
+				params.ExpressionAttributeNames = versionCheck.names;
+				params.ExpressionAttributeValues = versionCheck.values;
+			}
+			if (this._conditionOptions.returnOldItem || versionCheck) {
+				params.ReturnValuesOnConditionCheckFailure = "ALL_OLD";
+			}
 		}
-		const [output, opErr] = await this.send<DeleteCommandOutput>(new DeleteCommand(params));
-		if (opErr) return [null, opErr];
-
-		if (!output?.Attributes) {
-			return [null, null];
+		// Values of unique fields are released in the same transaction
+		const { sentinels, stored } = await this.uniqueRelease(this.schema, key);
+		if (stored && sentinels.length > 0) {
+			const [, opErr] = await this.send(
+				new TransactWriteCommand({ TransactItems: [{ Delete: params }, ...sentinels.map(({ write }) => write)] }),
+			);
+			if (opErr) return [null, toSentinelWriteError(opErr, sentinels, version)];
+			return [fromDynamoItem(this.table, stored, this.schema), null];
 		}
+		const [output, opErr] = await this.send<DeleteCommandOutput>(
+			new DeleteCommand({ ...params, ReturnValues: "ALL_OLD" }),
+		);
+		if (opErr) return [null, toVersionConflict(opErr, version)];
 
-		const deserialized = deserialize(output.Attributes, this.schema);
+		return [output?.Attributes ? fromDynamoItem(this.table, output.Attributes, this.schema) : null, null];
+	}
+
+	/** Marks the item as deleted; a missing or already deleted item is a no-op, like a hard delete */
+	private async softDelete(
+		key: Record<string, unknown>,
+		softDelete: SoftDelete,
+		version?: VersionedWrite,
+	): Promise<DynamoResult<Record<string, unknown> | null>> {
+		let indexKeys: Record<string, unknown> = {};
+		if (softDelete.hideFromIndexes) {
+			// The stash needs the current GSI key values
+			const current = await this.readItem(key);
+			if (current && isSoftDeleted(softDelete, current)) return [null, null];
+			indexKeys = current ? indexKeysOf(this.table, current) : {};
+		}
+		const params = softDeleteParams(this.table, this.schema, this.entity.entityName, key, softDelete, {
+			version,
+			condition: this._condition,
+			indexKeys,
+		});
+		const [output, opErr] = await this.send<UpdateCommandOutput>(
+			new UpdateCommand({ ...params, ReturnValues: "ALL_NEW", ReturnValuesOnConditionCheckFailure: "ALL_OLD" }),
+		);
+		if (opErr instanceof ConditionalCheckFailedError) {
+			// Missing items only fail when a version was expected (as with a hard delete)
+			const gone = opErr.item ? opErr.item[softDelete.field] !== undefined : version?.expected === undefined;
+			if (gone) return [null, null];
+		}
+		if (opErr) return [null, toVersionConflict(opErr, version)];
 
-		return [deserialized, null];
+		return [output?.Attributes ? fromDynamoItem(this.table, output.Attributes, this.schema) : null, null];
 	}
 }
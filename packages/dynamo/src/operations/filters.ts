@@ -0,0 +1,93 @@
+import type { z } from "zod";
+import type { ConnectedTable } from "../client/table.js";
+import { isEncryptedField } from "../common/encryption.js";
+import { storedName } from "../common/mapper.js";
+import { softDeleteOf } from "../common/soft-delete.js";
+import type { EntitySchemaDefinition } from "../common/types.js";
+import type { EntityContext } from "./base-operation.js";
+
+export type FilterOperator = "=" | "<" | "<=" | ">" | ">=" | "contains" | "begins_with" | "IN";
+
+/** A filter of the `filter()` DSL shared by queries and scans */
+export interface FilterCondition {
+	field: string;
+	operator: FilterOperator;
+	value: unknown;
+}
+
+/** Filters and default exclusions of a read */
+export interface FilterSettings {
+	filters: FilterCondition[];
+	/** Drops items whose TTL has passed (`excludeExpired()`) */
+	skipExpired: boolean;
+	/** Keeps soft-deleted items (`withDeleted()`) */
+	includeDeleted: boolean;
+}
+
+/**
+ * Validates a filter of the `filter()` DSL
+ *
+ * @throws Error if the field is encrypted (see `zdynamo.encrypted()`)
+ */
+export const filterOn = (
+	schema: z.ZodObject<EntitySchemaDefinition>,
+	field: string,
+	operator: FilterOperator,
+	value: unknown,
+): FilterCondition => {
+	if (isEncryptedField(schema.shape[field])) {
+		throw new Error(`Field '${field}' is encrypted and cannot be used in filters`);
+	}
+	return { field, operator, value };
+};
+
+/**
+ * Builds the FilterExpression of a read (empty when there is nothing to filter),
+ * adding its placeholders to the expression attribute names and values
+ */
+export const filterExpression = (
+	table: ConnectedTable,
+	schema: z.ZodObject<EntitySchemaDefinition>,
+	entity: EntityContext,
+	settings: FilterSettings,
+	exprAttrNames: Record<string, string>,
+	exprAttrValues: Record<string, unknown>,
+): string => {
+	let filterExpr = "";
+	for (const filter of settings.filters) {
+		if (filterExpr) filterExpr += " AND ";
+		if (filter.operator === "begins_with") {
+			filterExpr += `begins_with(#${filter.field}, :${filter.field})`;
+		} else if (filter.operator === "contains") {
+			filterExpr += `contains(#${filter.field}, :${filter.field})`;
+		} else if (filter.operator === "IN") {
+			// Handle IN operator with array values
+			const values = Array.isArray(filter.value) ? filter.value : [filter.value];
+			const valueKeys = values.map((_, i) => `:${filter.field}_${i}`);
+			filterExpr += `#${filter.field} IN (${valueKeys.join(", ")})`;
+			values.forEach((val, i) => {
+				exprAttrValues[`:${filter.field}_${i}`] = val;
+			});
+		} else {
+			filterExpr += `#${filter.field} ${filter.operator} :${filter.field}`;
+			exprAttrValues[`:${filter.field}`] = filter.value;
+		}
+		exprAttrNames[`#${filter.field}`] = storedName(table, filter.field, schema);
+		if (filter.operator !== "IN") {
+			exprAttrValues[`:${filter.field}`] = filter.value;
+		}
+	}
+	if (settings.skipExpired && table.options.ttlAttribute) {
+		if (filterExpr) filterExpr += " AND ";
+		filterExpr += "(attribute_not_exists(#skadiTtl) OR #skadiTtl > :skadiNow)";
+		exprAttrNames["#skadiTtl"] = table.options.ttlAttribute;
+		exprAttrValues[":skadiNow"] = Math.floor(Date.now() / 1000);
+	}
+	const softDelete = softDeleteOf(table, schema, entity.options);
+	if (softDelete && !settings.includeDeleted) {
+		if (filterExpr) filterExpr += " AND ";
+		filterExpr += "attribute_not_exists(#skadiDeletedAt)";
+		exprAttrNames["#skadiDeletedAt"] = softDelete.attribute;
+	}
+	return filterExpr;
+};
@@ -1,19 +1,29 @@
 import { GetCommand, type GetCommandInput, type GetCommandOutput } from "@aws-sdk/lib-dynamodb";
 import { ZodError, type z } from "zod";
 import type { ConnectedTable } from "../client/table.js";
-import { type DynamoOperationError, EntityValidationError, MissingKeyError } from "../common/errors.js";
-import { deserialize } from "../common/transformer.js";
+import { EncryptionError, EntityValidationError, MissingKeyError } from "../common/errors.js";
+import { isExpired, isForeignItem, toDynamoKey } from "../common/mapper.js";
+import { isSoftDeleted, softDeleteOf } from "../common/soft-delete.js";
 import type { EntitySchemaDefinition } from "../common/types.js";
-import { BaseBuilder } from "./base-operation.js";
+import type { Included, Relations } from "../entity/relations.js";
+import type { DynamoResult, EntityContext } from "./base-operation.js";
+import { IncludingBuilder } from "./include.js";
+import { type Projection, parseProjected, projectionOf, withProjection } from "./projection.js";
 
 export class EntityGetBuilder<
 	TSchema extends z.ZodObject<EntitySchemaDefinition>,
-> extends BaseBuilder<z.infer<TSchema> | null> {
+	TRelations extends Relations = Record<never, never>,
+	TItem = z.infer<TSchema>,
+> extends IncludingBuilder<TItem | null> {
 	private _key: Record<string, unknown> | undefined;
 	private schema: TSchema;
+	private skipExpired = false;
+	private includeDeleted = false;
+	private projection?: Projection;
+	protected readonly operation = "get";
 
-	constructor(table: ConnectedTable, schema: TSchema) {
-		super(table);
+	constructor(table: ConnectedTable, schema: TSchema, entity: EntityContext) {
+		super(table, entity);
 		this.schema = schema;
 	}
 
@@ -22,18 +32,69 @@ export class EntityGetBuilder<
 			(TSchema["shape"]["sk"] extends z.ZodTypeAny ? z.input<TSchema["shape"]["sk"]> : Record<string, never>),
 	) {
 		// Transform template-based key to DynamoDB format
-		const pkValue = this.schema.shape.pk.parse(keyData);
-		this._key = { pk: pkValue };
+		this._key = toDynamoKey(this.table, this.schema, keyData);
 
-		if (this.schema.shape.sk) {
-			const skValue = this.schema.shape.sk.parse(keyData);
-			this._key.sk = skValue;
-		}
+		return this;
+	}
+
+	/**
+	 * Loads related items along with the item, nested under the relationship names
+	 * (see `Entity.relate()`)
+	 *
+	 * @throws Error if the entity declares no relationship with one of the names
+	 *
+	 * @example
+	 * ```typescript
+	 * const [user] = await User.get().key({ userId: 'u1' }).include('accounts').exec();
+	 * user?.accounts; // Account items
+	 * ```
+	 */
+	include<K extends keyof TRelations & string>(...names: K[]) {
+		this.addIncludes(names);
+		return this as unknown as EntityGetBuilder<TSchema, TRelations, TItem & Included<TRelations, K>>;
+	}
+
+	/**
+	 * Reads only the picked fields (with a ProjectionExpression), validating the item
+	 * against them. Projected items are not migrated and skip the `afterLoad` hook,
+	 * which expect whole items.
+	 *
+	 * @throws Error if no field is picked, or if one is not part of the schema
+	 *
+	 * @example
+	 * ```typescript
+	 * const [user] = await User.get().key({ userId: 'u1' }).select(['name', 'email']).exec();
+	 * ```
+	 */
+	select<K extends keyof z.infer<TSchema> & string>(fields: K[]) {
+		this.projection = projectionOf(this.table, this.schema, this.entity, fields);
+		return this as unknown as EntityGetBuilder<TSchema, TRelations, Pick<z.infer<TSchema>, K>>;
+	}
+
+	/**
+	 * Includes soft-deleted items, which are skipped by default
+	 * (entities with soft delete).
+	 */
+	withDeleted() {
+		this.includeDeleted = true;
+		return this;
+	}
 
+	/**
+	 * Drops items whose TTL has passed but that DynamoDB has not deleted yet
+	 * (deletion is lazy and can take a while).
+	 *
+	 * @throws Error if the table has no TTL attribute (see `Table.ttl()`)
+	 */
+	excludeExpired() {
+		if (!this.table.options.ttlAttribute) {
+			throw new Error(`Table '${this.table.tableName}' has no TTL attribute`);
+		}
+		this.skipExpired = true;
 		return this;
 	}
 
-	async exec(): Promise<[z.TypeOf<TSchema> | null, DynamoOperationError | null]> {
+	protected async execute(): Promise<DynamoResult<TItem | null>> {
 		if (!this._key) {
 			return [null, new MissingKeyError("A key must be provided for the get operation.")];
 		}
@@ -41,16 +102,32 @@ export class EntityGetBuilder<
 			TableName: this.table.tableName,
 			Key: this._key,
 		};
-		const [output, opErr] = await this.send<GetCommandOutput>(new GetCommand(params));
+		const [output, opErr] = await this.send<GetCommandOutput>(new GetCommand(withProjection(this.projection, params)));
 		if (opErr) return [null, opErr];
 		if (!output || !("Item" in output) || !output.Item) return [null, null];
+		if (this.skipExpired && isExpired(this.table, output.Item)) return [null, null];
+		// The key holds an item of another entity sharing the table
+		if (isForeignItem(this.table, this.entity.entityName, output.Item)) return [null, null];
+		if (
+			!this.includeDeleted &&
+			isSoftDeleted(softDeleteOf(this.table, this.schema, this.entity.options), output.Item)
+		) {
+			return [null, null];
+		}
+		let parsed: Record<string, unknown>;
 		try {
-			const deserialized = deserialize(output.Item, this.schema);
-			const parsed = this.schema.parse(deserialized);
-			return [parsed, null];
+			parsed = this.projection
+				? parseProjected(this.table, this.projection, output.Item)
+				: this.parseItem(this.schema, output.Item);
 		} catch (err) {
+			if (err instanceof EncryptionError) return [null, err];
 			const issues = err instanceof ZodError ? (err as ZodError).issues : undefined;
 			return [null, new EntityValidationError("Entity validation failed", issues)];
 		}
+		const [loaded = null] = await this.withIncluded(
+			this.schema,
+			this.projection ? [parsed] : await this.afterLoad([parsed]),
+		);
+		return [loaded as TItem | null, null];
 	}
 }
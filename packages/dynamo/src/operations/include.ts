@@ -0,0 +1,198 @@
+import {
+	BatchGetCommand,
+	type BatchGetCommandOutput,
+	QueryCommand,
+	type QueryCommandInput,
+	type QueryCommandOutput,
+} from "@aws-sdk/lib-dynamodb";
+import { ZodError, type z } from "zod";
+import { EncryptionError, EntityValidationError } from "../common/errors.js";
+import { encodeKeyValue, isForeignItem } from "../common/mapper.js";
+import { isSoftDeleted, softDeleteOf } from "../common/soft-delete.js";
+import { keyParams } from "../common/transformer.js";
+import type { EntitySchemaDefinition } from "../common/types.js";
+import type { RelationDefinition } from "../entity/relations.js";
+import { BaseBuilder } from "./base-operation.js";
+import { resolveIndex } from "./indexes.js";
+
+type UnknownObject = Record<string, unknown>;
+
+/** Keys per BatchGetItem request (the DynamoDB limit) */
+const BATCH_GET_LIMIT = 100;
+
+/** Where the related items of one item live: a partition, narrowed by a sort key (prefix or exact value) */
+interface RelatedLocation {
+	pk: string;
+	sk?: string;
+}
+
+/** Renders a relation key template over the values of an item, or undefined when one is missing */
+const renderTemplate = (template: string, values: UnknownObject): string | undefined => {
+	let complete = true;
+	const rendered = template.replace(/\{(\w+)\}/g, (_, name: string) => {
+		const value = values[name];
+		if (value === undefined || value === null) complete = false;
+		return value instanceof Date ? value.toISOString() : String(value);
+	});
+	return complete ? rendered : undefined;
+};
+
+const locationId = ({ pk, sk }: RelatedLocation) => JSON.stringify([pk, sk]);
+
+/**
+ * Base class of the read builders supporting `include()`: loads the related items
+ * of the items read, one batch of requests per relationship, and nests them under
+ * the relationship's name. Relationships of the related items are not followed.
+ */
+export abstract class IncludingBuilder<TResult> extends BaseBuilder<TResult> {
+	private includes: string[] = [];
+
+	/**
+	 * Adds relationships to load along with the items
+	 *
+	 * @throws Error if the entity declares no relationship with one of the names
+	 */
+	protected addIncludes(names: string[]) {
+		for (const name of names) {
+			if (!this.entity.relations?.[name]) {
+				throw new Error(`Entity ${this.entity.entityName}: Relation '${name}' not found`);
+			}
+		}
+		this.includes.push(...names.filter((name) => !this.includes.includes(name)));
+	}
+
+	/**
+	 * Nests the related items of every included relationship under its name.
+	 * Related items go through the same filtering, parsing and `afterLoad` as reads of their entity.
+	 *
+	 * @throws EntityValidationError if a related item does not match its schema
+	 */
+	protected async withIncluded<T>(schema: z.ZodObject<EntitySchemaDefinition>, items: T[]): Promise<T[]> {
+		if (this.includes.length === 0 || items.length === 0) return items;
+		const sources = items.map((item) => ({ ...keyParams(item as UnknownObject, schema), ...(item as UnknownObject) }));
+		const nested: UnknownObject[] = items.map(() => ({}));
+		for (const name of this.includes) {
+			const relation = this.entity.relations?.[name] as RelationDefinition;
+			const locations = sources.map((values) => this.locate(relation, values));
+			const related = await this.loadRelated(relation, locations);
+			locations.forEach((location, i) => {
+				const found = location ? (related.get(locationId(location)) ?? []) : [];
+				(nested[i] as UnknownObject)[name] = relation.many ? found : (found[0] ?? null);
+			});
+		}
+		return items.map((item, i) => ({ ...item, ...nested[i] }));
+	}
+
+	/** Location of the related items of an item; undefined when the item lacks a field of the key templates */
+	private locate(relation: RelationDefinition, values: UnknownObject): RelatedLocation | undefined {
+		const pk = renderTemplate(relation.pk, values);
+		const sk = relation.sk !== undefined ? renderTemplate(relation.sk, values) : undefined;
+		if (pk === undefined || (relation.sk !== undefined && sk === undefined)) return undefined;
+		return { pk, sk };
+	}
+
+	/** Loads the related items of every location (once per distinct location), by location id */
+	private async loadRelated(
+		relation: RelationDefinition,
+		locations: Array<RelatedLocation | undefined>,
+	): Promise<Map<string, unknown[]>> {
+		const distinct = new Map<string, RelatedLocation>();
+		for (const location of locations) if (location) distinct.set(locationId(location), location);
+		const { sortKey } = this.table.keySchema;
+		// A belongsTo naming a full primary key is fetched by key, anything else is queried
+		const byKey = !relation.many && !relation.index && (relation.sk !== undefined || !sortKey);
+		const raws = byKey
+			? await this.getRelated([...distinct.values()])
+			: await this.queryRelated(relation, [...distinct.values()]);
+
+		const { target } = relation;
+		const softDelete = softDeleteOf(this.table, target.schema, target.options);
+		const related = new Map<string, unknown[]>();
+		for (const [id, found] of raws) {
+			let parsed: unknown[];
+			try {
+				parsed = found
+					.filter((raw) => !isForeignItem(this.table, target.entityName, raw) && !isSoftDeleted(softDelete, raw))
+					.map((raw) => this.parseItem(target.schema, raw, target));
+			} catch (err) {
+				if (err instanceof EncryptionError) throw err;
+				const issues = err instanceof ZodError ? err.issues : undefined;
+				throw new EntityValidationError("Entity validation failed", issues);
+			}
+			related.set(id, await this.afterLoad(parsed, target));
+		}
+		return related;
+	}
+
+	/** Queries the partition of every location, following pagination, with `begins_with` on the sort key */
+	private async queryRelated(
+		relation: RelationDefinition,
+		locations: RelatedLocation[],
+	): Promise<Map<string, UnknownObject[]>> {
+		const { partitionKey, sortKey } = this.table.keySchema;
+		const index = relation.index ? resolveIndex(this.table, relation.index) : undefined;
+		// Table key values follow the table's key attribute types (LSIs share the partition key)
+		const encodePk = (value: unknown) => (index && !index.local ? value : encodeKeyValue(partitionKey, value));
+		const encodeSk = (value: unknown) => (index || !sortKey ? value : encodeKeyValue(sortKey, value));
+		const skAttr = index ? index.sortKey : sortKey?.name;
+
+		const found = new Map<string, UnknownObject[]>();
+		for (const location of locations) {
+			const items: UnknownObject[] = [];
+			const prefixed = location.sk !== undefined && location.sk !== "" && skAttr !== undefined;
+			const params: QueryCommandInput = {
+				TableName: this.table.tableName,
+				KeyConditionExpression: prefixed ? "#pk = :pk AND begins_with(#sk, :sk)" : "#pk = :pk",
+				ExpressionAttributeNames: {
+					"#pk": index ? index.partitionKey : partitionKey.name,
+					...(prefixed && { "#sk": skAttr }),
+				},
+				ExpressionAttributeValues: {
+					":pk": encodePk(location.pk),
+					...(prefixed && { ":sk": encodeSk(location.sk) }),
+				},
+				...(index && { IndexName: index.indexName }),
+			};
+			let cursor: UnknownObject | undefined;
+			do {
+				const [output, error] = await this.send<QueryCommandOutput>(
+					new QueryCommand({ ...params, ...(cursor && { ExclusiveStartKey: cursor }) }),
+				);
+				if (error) throw error;
+				items.push(...(output?.Items ?? []));
+				cursor = output?.LastEvaluatedKey;
+			} while (cursor);
+			found.set(locationId(location), items);
+		}
+		return found;
+	}
+
+	/** Fetches the item at every location through BatchGetItem, retrying unprocessed keys */
+	private async getRelated(locations: RelatedLocation[]): Promise<Map<string, UnknownObject[]>> {
+		const { partitionKey, sortKey } = this.table.keySchema;
+		const keyOf = (pk: unknown, sk: unknown) => JSON.stringify([pk, sk]);
+		const byKey = new Map<string, RelatedLocation>();
+		let pending = locations.map((location) => {
+			const key: UnknownObject = { [partitionKey.name]: encodeKeyValue(partitionKey, location.pk) };
+			if (sortKey) key[sortKey.name] = encodeKeyValue(sortKey, location.sk);
+			byKey.set(keyOf(key[partitionKey.name], sortKey && key[sortKey.name]), location);
+			return key;
+		});
+
+		const found = new Map<string, UnknownObject[]>();
+		while (pending.length > 0) {
+			const chunk = pending.slice(0, BATCH_GET_LIMIT);
+			pending = pending.slice(BATCH_GET_LIMIT);
+			const [output, error] = await this.send<BatchGetCommandOutput>(
+				new BatchGetCommand({ RequestItems: { [this.table.tableName]: { Keys: chunk } } }),
+			);
+			if (error) throw error;
+			for (const raw of output?.Responses?.[this.table.tableName] ?? []) {
+				const location = byKey.get(keyOf(raw[partitionKey.name], sortKey && raw[sortKey.name]));
+				if (location) found.set(locationId(location), [raw]);
+			}
+			pending.push(...(output?.UnprocessedKeys?.[this.table.tableName]?.Keys ?? []));
+		}
+		return found;
+	}
+}
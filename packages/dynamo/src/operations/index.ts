@@ -1,7 +1,11 @@
 export { EntityBatchGetBuilder } from "./batch.js";
-export { EntityCreateBuilder } from "./create.js";
+export { CollectionQueryBuilder } from "./collection-query.js";
+export { EntityCreateBuilder, EntityPutBuilder } from "./create.js";
 export { EntityDeleteBuilder } from "./delete.js";
 export { EntityGetBuilder } from "./get.js";
 export { EntityQueryBuilder } from "./query.js";
+export { EntityRestoreBuilder } from "./restore.js";
+export { EntityScanBuilder } from "./scan.js";
 export { EntityTransactionBuilder } from "./transaction.js";
 export { EntityUpdateBuilder } from "./update.js";
+export { EntityUpsertBuilder } from "./upsert.js";
@@ -0,0 +1,40 @@
+import type { ConnectedTable } from "../client/table.js";
+
+/** Secondary index a query runs on */
+export interface IndexConfig {
+	indexName: string;
+	alias: string;
+	partitionKey: string;
+	sortKey?: string;
+	/** Local indexes share the table's partition key (and its key type) */
+	local?: boolean;
+}
+
+/**
+ * Resolves a Global or Local Secondary Index by its alias.
+ * LSIs share the table's partition key.
+ *
+ * @throws Error if no index with the alias is found
+ */
+export const resolveIndex = (table: ConnectedTable, alias: string): IndexConfig => {
+	const gsi = table.getGsiByAlias(alias);
+	if (gsi) {
+		return {
+			indexName: gsi.indexName ?? gsi.alias,
+			alias: gsi.alias,
+			partitionKey: gsi.partitionKey,
+			sortKey: gsi.sortKey,
+		};
+	}
+	const lsi = table.getLsiByAlias(alias);
+	if (!lsi) {
+		throw new Error(`GSI with alias '${alias}' not found`);
+	}
+	return {
+		indexName: lsi.indexName ?? lsi.alias,
+		alias: lsi.alias,
+		partitionKey: table.keySchema.partitionKey.name,
+		sortKey: lsi.sortKey,
+		local: true,
+	};
+};
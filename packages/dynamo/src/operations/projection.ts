@@ -0,0 +1,77 @@
+import type { z } from "zod";
+import type { ConnectedTable } from "../client/table.js";
+import { entityTypeAttribute, fromDynamoItem, storedName } from "../common/mapper.js";
+import { softDeleteOf } from "../common/soft-delete.js";
+import type { EntitySchemaDefinition } from "../common/types.js";
+import type { EntityContext } from "./base-operation.js";
+
+type EntitySchema = z.ZodObject<EntitySchemaDefinition>;
+
+type ProjectedInput = { ProjectionExpression?: string; ExpressionAttributeNames?: Record<string, string> };
+
+/** Fields picked with `select()`, read with a ProjectionExpression */
+export interface Projection {
+	/** The entity schema narrowed to the picked fields, validating the items read */
+	schema: z.ZodObject<Record<string, z.ZodTypeAny>>;
+	/** Attributes to read: the picked fields, plus those the read checks (type, soft delete and TTL) */
+	attributes: string[];
+}
+
+/**
+ * Resolves the fields picked with `select()`
+ *
+ * @throws Error if no field is picked, or if one is not part of the schema
+ */
+export const projectionOf = (
+	table: ConnectedTable,
+	schema: EntitySchema,
+	entity: EntityContext,
+	fields: string[],
+): Projection => {
+	if (fields.length === 0) {
+		throw new Error(`Entity ${entity.entityName}: select() needs at least one field`);
+	}
+	for (const field of fields) {
+		if (!(field in schema.shape)) {
+			throw new Error(`Entity ${entity.entityName}: Field '${field}' is not part of the schema`);
+		}
+	}
+	const { partitionKey, sortKey } = table.keySchema;
+	const stored = fields.map((field) => {
+		if (field === "pk") return partitionKey.name;
+		if (field === "sk" && sortKey) return sortKey.name;
+		return storedName(table, field, schema);
+	});
+	const checked = [
+		entityTypeAttribute(table),
+		softDeleteOf(table, schema, entity.options)?.attribute,
+		table.options.ttlAttribute,
+	];
+	return {
+		schema: schema.pick(Object.fromEntries(fields.map((field) => [field, true]))),
+		attributes: [...new Set([...stored, ...checked].filter((name): name is string => !!name))],
+	};
+};
+
+/** Adds the ProjectionExpression of the picked fields to a read's input, with placeholder names */
+export const withProjection = <T extends object>(
+	projection: Projection | undefined,
+	input: T & ProjectedInput,
+): T & ProjectedInput => {
+	if (!projection) return input;
+	const names = projection.attributes.map((attribute, i) => [`#skadiProj${i}`, attribute] as const);
+	return {
+		...input,
+		ProjectionExpression: names.map(([placeholder]) => placeholder).join(", "),
+		ExpressionAttributeNames: { ...input.ExpressionAttributeNames, ...Object.fromEntries(names) },
+	};
+};
+
+/**
+ * Deserializes and validates an item read with `select()` against the picked fields.
+ * Migrations are not run, as they expect whole items.
+ *
+ * @throws ZodError if the item does not match the picked fields
+ */
+export const parseProjected = (table: ConnectedTable, projection: Projection, raw: Record<string, unknown>) =>
+	projection.schema.parse(fromDynamoItem(table, raw, projection.schema as EntitySchema));
@@ -1,8 +1,11 @@
 import { QueryCommand, type QueryCommandInput, type QueryCommandOutput } from "@aws-sdk/lib-dynamodb";
 import { z } from "zod";
 import type { ConnectedTable } from "../client/table.js";
-import { deserialize } from "../common/transformer.js";
-import type { EntitySchemaDefinition, QueryResult } from "../common/types.js";
+import { EncryptionError, EntityValidationError } from "../common/errors.js";
+import { encodeKeyValue, entityTypeAttribute, isForeignItem } from "../common/mapper.js";
+import type { CountResult, EntitySchemaDefinition, QueryResult } from "../common/types.js";
+import { joinConditions } from "../common/version.js";
+import type { Included, Relations } from "../entity/relations.js";
 
 /**
  * Builder for querying DynamoDB items
@@ -12,11 +15,16 @@ import type { EntitySchemaDefinition, QueryResult } from "../common/types.js";
  * filtering, and pagination.
  *
  * @template TSchema - The Zod schema type for the entity
+ * @template TRelations - Relationships of the entity, loadable with `include()`
  */
-export class EntityQueryBuilder<TSchema extends z.ZodObject<EntitySchemaDefinition>> {
+export class EntityQueryBuilder<
+	TSchema extends z.ZodObject<EntitySchemaDefinition>,
+	TRelations extends Relations = Record<never, never>,
+> {
 	constructor(
 		private table: ConnectedTable,
 		private schema: TSchema,
+		private entity: EntityContext,
 	) {}
 
 	/**
@@ -35,15 +43,17 @@ export class EntityQueryBuilder<TSchema extends z.ZodObject<EntitySchemaDefiniti
 	pk(pkData: z.input<TSchema["shape"]["pk"]>) {
 		// Parse template-based pk (e.g. { userId: 'x' } -> 'USER#x') before querying
 		const parsedPk = this.schema.shape.pk.parse(pkData);
-		return new QueryKeyBuilder(this.table, this.schema, parsedPk, undefined);
+		return new QueryKeyBuilder<TSchema, TRelations>(this.table, this.schema, this.entity, parsedPk, undefined);
 	}
 
 	/**
-	 * Queries using a Global Secondary Index
+	 * Queries using a Global or Local Secondary Index
+	 *
+	 * LSIs share the table's partition key, so they are queried with the entity's own pk.
 	 *
-	 * @param indexAlias - Alias of the GSI as defined in table configuration
-	 * @returns QueryIndexBuilder for GSI-specific queries
-	 * @throws Error if the GSI alias is not found
+	 * @param indexAlias - Alias of the GSI or LSI as defined in table configuration
+	 * @returns QueryIndexBuilder for index-specific queries
+	 * @throws Error if no index with the alias is found
 	 *
 	 * @example
 	 * ```typescript
@@ -54,11 +64,12 @@ export class EntityQueryBuilder<TSchema extends z.ZodObject<EntitySchemaDefiniti
 	 * ```
 	 */
 	index(indexAlias: string) {
-		const gsiConfig = this.table.getGsiByAlias(indexAlias);
-		if (!gsiConfig) {
-			throw new Error(`GSI with alias '${indexAlias}' not found`);
-		}
-		return new QueryIndexBuilder(this.table, this.schema, gsiConfig);
+		return new QueryIndexBuilder<TSchema, TRelations>(
+			this.table,
+			this.schema,
+			this.entity,
+			resolveIndex(this.table, indexAlias),
+		);
 	}
 }
 
@@ -69,45 +80,49 @@ export class EntityQueryBuilder<TSchema extends z.ZodObject<EntitySchemaDefiniti
  * Query operations after the partition key has been specified.
  *
  * @template TSchema - The Zod schema type for the entity
+ * @template TRelations - Relationships of the entity, loadable with `include()`
+ * @template TItem - Type of the items returned, with the included relationships
  */
-import { BaseBuilder, type DynamoResult } from "./base-operation.js";
+import type { DynamoResult, EntityContext } from "./base-operation.js";
+import { type FilterCondition, type FilterOperator, filterExpression, filterOn } from "./filters.js";
+import { IncludingBuilder } from "./include.js";
+import { type IndexConfig, resolveIndex } from "./indexes.js";
+import { type Projection, parseProjected, projectionOf, withProjection } from "./projection.js";
 
-class QueryKeyBuilder<TSchema extends z.ZodObject<EntitySchemaDefinition>> extends BaseBuilder<
-	QueryResult<z.infer<TSchema>>
-> {
+class QueryKeyBuilder<
+	TSchema extends z.ZodObject<EntitySchemaDefinition>,
+	TRelations extends Relations = Record<never, never>,
+	TItem = z.infer<TSchema>,
+> extends IncludingBuilder<QueryResult<TItem>> {
 	private conditions: Array<{
 		field: string;
 		operator: string;
 		value: unknown;
 	}> = [];
-	private filters: Array<{ field: string; operator: string; value: unknown }> = [];
+	private filters: FilterCondition[] = [];
 	private limitValue?: number;
-	private cursorValue?: string;
+	private cursorValue?: Record<string, unknown>;
 	private ascending = true;
 	private schema: TSchema;
 	private pkData: unknown;
-	private gsiConfig?: {
-		indexName: string;
-		alias: string;
-		partitionKey: string;
-		sortKey?: string;
-	};
+	private indexConfig?: IndexConfig;
+	private skipExpired = false;
+	private includeDeleted = false;
+	private projection?: Projection;
+
+	protected readonly operation = "query";
 
 	constructor(
 		table: ConnectedTable,
 		schema: TSchema,
+		entity: EntityContext,
 		pkData: unknown,
-		gsiConfig?: {
-			indexName: string;
-			alias: string;
-			partitionKey: string;
-			sortKey?: string;
-		},
+		indexConfig?: IndexConfig,
 	) {
-		super(table);
+		super(table, entity);
 		this.schema = schema;
 		this.pkData = pkData;
-		this.gsiConfig = gsiConfig;
+		this.indexConfig = indexConfig;
 	}
 
 	/**
@@ -149,6 +164,7 @@ class QueryKeyBuilder<TSchema extends z.ZodObject<EntitySchemaDefinition>> exten
 	 * @param operator - Filter operator
 	 * @param value - Value to filter against
 	 * @returns This builder instance
+	 * @throws Error if the field is encrypted (see `zdynamo.encrypted()`)
 	 *
 	 * @example
 	 * ```typescript
@@ -158,8 +174,8 @@ class QueryKeyBuilder<TSchema extends z.ZodObject<EntitySchemaDefinition>> exten
 	 * .filter('title', 'contains', 'admin')
 	 * ```
 	 */
-	filter(field: string, operator: "=" | "<" | "<=" | ">" | ">=" | "contains" | "begins_with" | "IN", value: unknown) {
-		this.filters.push({ field, operator, value });
+	filter(field: string, operator: FilterOperator, value: unknown) {
+		this.filters.push(filterOn(this.schema, field, operator, value));
 		return this;
 	}
 
@@ -182,7 +198,7 @@ class QueryKeyBuilder<TSchema extends z.ZodObject<EntitySchemaDefinition>> exten
 	/**
 	 * Sets the pagination cursor for continued queries
 	 *
-	 * @param cursor - Base64-encoded pagination cursor from previous query
+	 * @param cursor - `cursor` (LastEvaluatedKey) returned by the previous query
 	 * @returns This builder instance
 	 *
 	 * @example
@@ -190,7 +206,7 @@ class QueryKeyBuilder<TSchema extends z.ZodObject<EntitySchemaDefinition>> exten
 	 * .cursor(result.cursor) // Continue from previous query
 	 * ```
 	 */
-	cursor(cursor?: string) {
+	cursor(cursor?: Record<string, unknown>) {
 		this.cursorValue = cursor;
 		return this;
 	}
@@ -212,6 +228,70 @@ class QueryKeyBuilder<TSchema extends z.ZodObject<EntitySchemaDefinition>> exten
 		return this;
 	}
 
+	/**
+	 * Loads related items along with every item, nested under the relationship names
+	 * (see `Entity.relate()`). The related items of all the items in a page are
+	 * loaded together, one batch of requests per relationship.
+	 *
+	 * @throws Error if the entity declares no relationship with one of the names
+	 *
+	 * @example
+	 * ```typescript
+	 * const [result] = await Account.query()
+	 *   .pk({ userId: 'u1' })
+	 *   .include('owner')
+	 *   .exec();
+	 * ```
+	 */
+	include<K extends keyof TRelations & string>(...names: K[]) {
+		this.addIncludes(names);
+		return this as unknown as QueryKeyBuilder<TSchema, TRelations, TItem & Included<TRelations, K>>;
+	}
+
+	/**
+	 * Reads only the picked fields (with a ProjectionExpression), validating the items
+	 * against them. Filters can still use any field. Projected items are not migrated
+	 * and skip the `afterLoad` hook, which expect whole items.
+	 *
+	 * @throws Error if no field is picked, or if one is not part of the schema
+	 *
+	 * @example
+	 * ```typescript
+	 * const [result] = await User.query()
+	 *   .pk({ organizationId: 'org-123' })
+	 *   .select(['name', 'email'])
+	 *   .exec();
+	 * ```
+	 */
+	select<K extends keyof z.infer<TSchema> & string>(fields: K[]) {
+		this.projection = projectionOf(this.table, this.schema, this.entity, fields);
+		return this as unknown as QueryKeyBuilder<TSchema, TRelations, Pick<z.infer<TSchema>, K>>;
+	}
+
+	/**
+	 * Includes soft-deleted items, which are skipped by default (entities with soft delete).
+	 * The default exclusion is applied as a filter expression.
+	 */
+	withDeleted() {
+		this.includeDeleted = true;
+		return this;
+	}
+
+	/**
+	 * Drops items whose TTL has passed but that DynamoDB has not deleted yet
+	 * (deletion is lazy and can take a while). Applied as a filter expression,
+	 * so expired items still consume read capacity.
+	 *
+	 * @throws Error if the table has no TTL attribute (see `Table.ttl()`)
+	 */
+	excludeExpired() {
+		if (!this.table.options.ttlAttribute) {
+			throw new Error(`Table '${this.table.tableName}' has no TTL attribute`);
+		}
+		this.skipExpired = true;
+		return this;
+	}
+
 	/**
 	 * Executes the query and returns the results
 	 *
@@ -232,21 +312,100 @@ class QueryKeyBuilder<TSchema extends z.ZodObject<EntitySchemaDefinition>> exten
 	 * console.log(result.cursor);   // Pagination cursor for next page
 	 * ```
 	 */
-	async exec(): Promise<DynamoResult<QueryResult<z.infer<TSchema>>>> {
-		// Determine attribute names (base table vs GSI)
-		const pkAttr = this.gsiConfig ? this.gsiConfig.partitionKey : "pk";
-		const skAttr = this.gsiConfig ? this.gsiConfig.sortKey || "sk" : "sk";
+	protected async execute(): Promise<DynamoResult<QueryResult<TItem>>> {
+		const [output, opErr] = await this.send<QueryCommandOutput>(
+			new QueryCommand(withProjection(this.projection, this.params())),
+		);
+		if (opErr) return [null, opErr];
+		let items: Record<string, unknown>[];
+		try {
+			// Items of other entities sharing the partition are skipped rather than parsed
+			items = (output?.Items ?? [])
+				.filter((item: Record<string, unknown>) => !isForeignItem(this.table, this.entity.entityName, item))
+				.map((item: Record<string, unknown>) =>
+					this.projection ? parseProjected(this.table, this.projection, item) : this.parseItem(this.schema, item),
+				);
+		} catch (err) {
+			if (err instanceof EncryptionError) return [null, err];
+			return [
+				null,
+				new EntityValidationError("Entity validation failed", err instanceof z.ZodError ? err.issues : undefined),
+			];
+		}
+		return [
+			{
+				items: (await this.withIncluded(this.schema, this.projection ? items : await this.afterLoad(items))) as TItem[],
+				cursor: output?.LastEvaluatedKey as Record<string, unknown> | undefined,
+				count: items.length,
+				scannedCount: output?.ScannedCount ?? undefined,
+			},
+			null,
+		];
+	}
+
+	/**
+	 * Counts the matching items without reading them (`Select: COUNT`), following
+	 * `LastEvaluatedKey` across pages. Sort key conditions and filters apply; items of
+	 * other entities sharing the partition are left out with a filter expression.
+	 *
+	 * @returns Promise that resolves to the totals of every page read
+	 *
+	 * @example
+	 * ```typescript
+	 * const [result] = await AccountEntity.query()
+	 *   .pk({ userId: 'user-123' })
+	 *   .filter('status', '=', 'OPEN')
+	 *   .count();
+	 *
+	 * console.log(result?.count, result?.scannedCount);
+	 * ```
+	 */
+	count(): Promise<DynamoResult<CountResult>> {
+		return this.run(async (): Promise<DynamoResult<CountResult>> => {
+			const params = this.params();
+			const typeAttribute = entityTypeAttribute(this.table);
+			if (typeAttribute) {
+				// Items written without the type attribute are counted, as they would be returned
+				params.FilterExpression = joinConditions(
+					params.FilterExpression,
+					"attribute_not_exists(#skadiEt) OR #skadiEt = :skadiEt",
+				);
+				params.ExpressionAttributeNames = { ...params.ExpressionAttributeNames, "#skadiEt": typeAttribute };
+				params.ExpressionAttributeValues = { ...params.ExpressionAttributeValues, ":skadiEt": this.entity.entityName };
+			}
+			const result: CountResult = { count: 0, scannedCount: 0 };
+			do {
+				const [output, opErr] = await this.send<QueryCommandOutput>(new QueryCommand({ ...params, Select: "COUNT" }));
+				if (opErr) return [null, opErr];
+				result.count += output?.Count ?? 0;
+				result.scannedCount += output?.ScannedCount ?? 0;
+				params.ExclusiveStartKey = output?.LastEvaluatedKey;
+			} while (params.ExclusiveStartKey);
+			return [result, null];
+		});
+	}
+
+	/** Builds the Query input of the conditions, filters and options set */
+	private params(): QueryCommandInput {
+		// Determine attribute names (base table vs index)
+		const { partitionKey, sortKey } = this.table.keySchema;
+		const index = this.indexConfig;
+		const pkAttr = index ? index.partitionKey : partitionKey.name;
+		const skAttr = index ? index.sortKey || "sk" : (sortKey?.name ?? "sk");
+		// Table key values follow the table's key attribute types (LSIs share the partition key)
+		const encodePk = (value: unknown) => (index && !index.local ? value : encodeKeyValue(partitionKey, value));
+		const encodeSk = (value: unknown) => (index || !sortKey ? value : encodeKeyValue(sortKey, value));
 
 		// Build KeyConditionExpression
 		let keyExpr = "#pk = :pk";
 		const exprAttrNames: Record<string, string> = { "#pk": pkAttr };
-		const exprAttrValues: Record<string, unknown> = { ":pk": this.pkData };
+		const exprAttrValues: Record<string, unknown> = { ":pk": encodePk(this.pkData) };
 		for (const cond of this.conditions) {
 			if (cond.field === "sk") {
 				if (cond.operator === "begins_with") {
 					keyExpr += " AND begins_with(#sk, :sk)";
 					exprAttrNames["#sk"] = skAttr;
-					exprAttrValues[":sk"] = cond.value;
+					exprAttrValues[":sk"] = encodeSk(cond.value);
 				} else if (cond.operator === "between") {
 					// between stored as two conditions (first plus 'and') in existing logic
 					// We'll adapt: first entry has operator 'between' value=v1, second has operator 'and' value=v2
@@ -256,45 +415,28 @@ class QueryKeyBuilder<TSchema extends z.ZodObject<EntitySchemaDefinition>> exten
 					if (secondCond) {
 						keyExpr += " AND #sk BETWEEN :sk1 AND :sk2";
 						exprAttrNames["#sk"] = skAttr;
-						exprAttrValues[":sk1"] = firstVal;
-						exprAttrValues[":sk2"] = secondCond.value;
+						exprAttrValues[":sk1"] = encodeSk(firstVal);
+						exprAttrValues[":sk2"] = encodeSk(secondCond.value);
 					} else {
 						keyExpr += " AND #sk BETWEEN :sk AND :sk2"; // fallback if structure unexpected
 						exprAttrNames["#sk"] = skAttr;
-						exprAttrValues[":sk"] = firstVal;
+						exprAttrValues[":sk"] = encodeSk(firstVal);
 					}
 				} else if (cond.operator !== "and") {
 					keyExpr += ` AND #sk ${cond.operator} :sk`;
 					exprAttrNames["#sk"] = skAttr;
-					exprAttrValues[":sk"] = cond.value;
+					exprAttrValues[":sk"] = encodeSk(cond.value);
 				}
 			}
 		}
-		// Build FilterExpression
-		let filterExpr = "";
-		for (const filter of this.filters) {
-			if (filterExpr) filterExpr += " AND ";
-			if (filter.operator === "begins_with") {
-				filterExpr += `begins_with(#${filter.field}, :${filter.field})`;
-			} else if (filter.operator === "contains") {
-				filterExpr += `contains(#${filter.field}, :${filter.field})`;
-			} else if (filter.operator === "IN") {
-				// Handle IN operator with array values
-				const values = Array.isArray(filter.value) ? filter.value : [filter.value];
-				const valueKeys = values.map((_, i) => `:${filter.field}_${i}`);
-				filterExpr += `#${filter.field} IN (${valueKeys.join(", ")})`;
-				values.forEach((val, i) => {
-					exprAttrValues[`:${filter.field}_${i}`] = val;
-				});
-			} else {
-				filterExpr += `#${filter.field} ${filter.operator} :${filter.field}`;
-				exprAttrValues[`:${filter.field}`] = filter.value;
-			}
-			exprAttrNames[`#${filter.field}`] = filter.field;
-			if (filter.operator !== "IN") {
-				exprAttrValues[`:${filter.field}`] = filter.value;
-			}
-		}
+		const filterExpr = filterExpression(
+			this.table,
+			this.schema,
+			this.entity,
+			{ filters: this.filters, skipExpired: this.skipExpired, includeDeleted: this.includeDeleted },
+			exprAttrNames,
+			exprAttrValues,
+		);
 		const params: QueryCommandInput = {
 			TableName: this.table.tableName,
 			KeyConditionExpression: keyExpr,
@@ -303,38 +445,16 @@ class QueryKeyBuilder<TSchema extends z.ZodObject<EntitySchemaDefinition>> exten
 			Limit: this.limitValue,
 			ScanIndexForward: this.ascending,
 		};
-		if (this.gsiConfig) {
-			params.IndexName = this.gsiConfig.indexName;
+		if (index) {
+			params.IndexName = index.indexName;
 		}
 		if (filterExpr) {
 			params.FilterExpression = filterExpr;
 		}
-		if (this.cursorValue && typeof this.cursorValue === "object") {
-			params.ExclusiveStartKey = this.cursorValue as Record<string, unknown>;
-		}
-		const [output, opErr] = await this.send<QueryCommandOutput>(new QueryCommand(params));
-		if (opErr) return [null, opErr];
-		try {
-			const items = (output?.Items ?? []).map((item: Record<string, unknown>) => {
-				const deserialized = deserialize(item, this.schema);
-				return this.schema.parse(deserialized);
-			});
-			return [
-				{
-					items,
-					cursor: output?.LastEvaluatedKey as Record<string, unknown> | undefined,
-					count: items.length,
-					scannedCount: output?.ScannedCount ?? undefined,
-				},
-				null,
-			];
-		} catch (err) {
-			const { EntityValidationError } = require("../common/errors.js");
-			return [
-				null,
-				new EntityValidationError("Entity validation failed", err instanceof z.ZodError ? err.issues : undefined),
-			];
+		if (this.cursorValue) {
+			params.ExclusiveStartKey = this.cursorValue;
 		}
+		return params;
 	}
 
 	/**
@@ -349,9 +469,9 @@ class QueryKeyBuilder<TSchema extends z.ZodObject<EntitySchemaDefinition>> exten
 			 * @param options - Optional configuration for concurrency
 			 * @returns Promise that resolves when all items are processed
 			 */
-			process: async (processor: (item: z.infer<TSchema>) => Promise<void>, options?: { concurrency?: number }) => {
+			process: async (processor: (item: TItem) => Promise<void>, options?: { concurrency?: number }) => {
 				const concurrency = options?.concurrency || 10;
-				let cursor: string | undefined;
+				let cursor: Record<string, unknown> | undefined;
 
 				do {
 					const [result, error] = await this.cursor(cursor).exec();
@@ -364,7 +484,7 @@ class QueryKeyBuilder<TSchema extends z.ZodObject<EntitySchemaDefinition>> exten
 						await Promise.all(batch.map((item) => processor(item)));
 					}
 
-					cursor = typeof result.cursor === "string" ? result.cursor : undefined;
+					cursor = result.cursor;
 				} while (cursor);
 			},
 		};
@@ -372,25 +492,30 @@ class QueryKeyBuilder<TSchema extends z.ZodObject<EntitySchemaDefinition>> exten
 }
 
 /**
- * Builder for constructing queries on Global Secondary Indexes
+ * Builder for constructing queries on Global and Local Secondary Indexes
  *
- * Handles GSI-specific query setup before delegating to QueryKeyBuilder
+ * Handles index-specific query setup before delegating to QueryKeyBuilder
  * for the actual query construction.
  *
  * @template TSchema - The Zod schema type for the entity
+ * @template TRelations - Relationships of the entity, loadable with `include()`
  */
-class QueryIndexBuilder<TSchema extends z.ZodObject<EntitySchemaDefinition>> {
+class QueryIndexBuilder<
+	TSchema extends z.ZodObject<EntitySchemaDefinition>,
+	TRelations extends Relations = Record<never, never>,
+> {
 	constructor(
 		private table: ConnectedTable,
 		private schema: TSchema,
-		private gsiConfig: unknown,
+		private entity: EntityContext,
+		private indexConfig: IndexConfig,
 	) {}
 
 	/**
-	 * Sets the partition key for the GSI query
+	 * Sets the partition key for the index query
 	 *
-	 * @param pkData - Partition key data for the GSI
-	 * @returns QueryKeyBuilder configured for the specified GSI
+	 * @param pkData - Partition key data for the GSI, or the entity's pk data for an LSI
+	 * @returns QueryKeyBuilder configured for the specified index
 	 *
 	 * @example
 	 * ```typescript
@@ -403,16 +528,16 @@ class QueryIndexBuilder<TSchema extends z.ZodObject<EntitySchemaDefinition>> {
 	 * ```
 	 */
 	pk(pkData: unknown) {
+		const index = this.indexConfig;
+		if (index.local) {
+			// LSIs are partitioned like the table itself
+			const parsedPk = this.schema.shape.pk.parse(pkData);
+			return new QueryKeyBuilder<TSchema, TRelations>(this.table, this.schema, this.entity, parsedPk, index);
+		}
 		// Attempt to parse using matching GSI pk field in schema if available
 		let parsedPk: unknown = pkData;
-		const gsi = this.gsiConfig as {
-			indexName: string;
-			alias: string;
-			partitionKey: string;
-			sortKey?: string;
-		};
 		for (const [fieldName, fieldSchema] of Object.entries(this.schema.shape)) {
-			if (fieldName.toLowerCase() === gsi.partitionKey.replace(/_/g, "").toLowerCase()) {
+			if (fieldName.toLowerCase() === index.partitionKey.replace(/_/g, "").toLowerCase()) {
 				try {
 					parsedPk = (fieldSchema as z.ZodTypeAny).parse(pkData);
 				} catch {
@@ -421,6 +546,6 @@ class QueryIndexBuilder<TSchema extends z.ZodObject<EntitySchemaDefinition>> {
 				break;
 			}
 		}
-		return new QueryKeyBuilder(this.table, this.schema, parsedPk, gsi);
+		return new QueryKeyBuilder<TSchema, TRelations>(this.table, this.schema, this.entity, parsedPk, index);
 	}
 }
@@ -0,0 +1,109 @@
+import { UpdateCommand, type UpdateCommandInput, type UpdateCommandOutput } from "@aws-sdk/lib-dynamodb";
+import { ZodError, type z } from "zod";
+import type { ConnectedTable } from "../client/table.js";
+import {
+	ConditionalCheckFailedError,
+	EncryptionError,
+	EntityValidationError,
+	MissingKeyError,
+} from "../common/errors.js";
+import { toDynamoKey } from "../common/mapper.js";
+import { INDEX_KEYS_STASH, isSoftDeleted, type SoftDelete, softDeleteOf } from "../common/soft-delete.js";
+import type { EntitySchemaDefinition } from "../common/types.js";
+import { joinConditions, toVersionConflict, versionCondition, versionedWrite } from "../common/version.js";
+import { BaseBuilder, type DynamoResult, type EntityContext } from "./base-operation.js";
+import { entityUpdateExpression } from "./update.js";
+
+/**
+ * Brings back a soft-deleted item: clears the deletion marker and moves stashed
+ * GSI keys back. Resolves to null when the item is missing or not deleted.
+ */
+export class EntityRestoreBuilder<
+	TSchema extends z.ZodObject<EntitySchemaDefinition>,
+> extends BaseBuilder<z.infer<TSchema> | null> {
+	private _key: Record<string, unknown> | undefined;
+	private _expectedVersion?: number;
+	private schema: TSchema;
+	private softDelete: SoftDelete;
+	protected readonly operation = "restore";
+
+	/** @throws Error if the entity does not use soft delete */
+	constructor(table: ConnectedTable, schema: TSchema, entity: EntityContext) {
+		super(table, entity);
+		this.schema = schema;
+		const softDelete = softDeleteOf(table, schema, entity.options);
+		if (!softDelete) throw new Error(`Entity '${entity.entityName}' does not use soft delete`);
+		this.softDelete = softDelete;
+	}
+
+	key(
+		keyData: z.input<TSchema["shape"]["pk"]> &
+			(TSchema["shape"]["sk"] extends z.ZodTypeAny ? z.input<TSchema["shape"]["sk"]> : Record<string, never>),
+	) {
+		// Transform template-based key to DynamoDB format
+		this._key = toDynamoKey(this.table, this.schema, keyData);
+
+		return this;
+	}
+
+	/**
+	 * Restores the item only if it is at this version (entities with a `version` field).
+	 * A mismatch fails with `VersionConflictError`.
+	 */
+	expectVersion(version: number) {
+		this._expectedVersion = version;
+		return this;
+	}
+
+	protected async execute(): Promise<DynamoResult<z.infer<TSchema> | null>> {
+		if (!this._key) {
+			return [null, new MissingKeyError("A key must be provided for the restore operation.")];
+		}
+		const { attribute, hideFromIndexes } = this.softDelete;
+		let indexKeys: Record<string, unknown> = {};
+		if (hideFromIndexes) {
+			const current = await this.readItem(this._key);
+			if (!current || !isSoftDeleted(this.softDelete, current)) return [null, null];
+			indexKeys = (current[INDEX_KEYS_STASH] as Record<string, unknown> | undefined) ?? {};
+		}
+		const version = versionedWrite(this.table, this.schema, this.entity.options, this._expectedVersion);
+		const expression = entityUpdateExpression(
+			this.table,
+			this.schema,
+			this.entity.entityName,
+			{},
+			{
+				version,
+				raw: indexKeys,
+				remove: hideFromIndexes ? [attribute, INDEX_KEYS_STASH] : [attribute],
+			},
+		);
+		const versionCheck = versionCondition(version);
+		const values = { ...expression.ExpressionAttributeValues, ...versionCheck?.values };
+		const params: UpdateCommandInput = {
+			TableName: this.table.tableName,
+			Key: this._key,
+			UpdateExpression: expression.UpdateExpression,
+			ConditionExpression: joinConditions(`attribute_exists(#${attribute})`, versionCheck?.expression),
+			ExpressionAttributeNames: { ...expression.ExpressionAttributeNames, ...versionCheck?.names },
+			// DynamoDB rejects an empty value map
+			ExpressionAttributeValues: Object.keys(values).length > 0 ? values : undefined,
+			ReturnValues: "ALL_NEW",
+			ReturnValuesOnConditionCheckFailure: "ALL_OLD",
+		};
+		const [output, opErr] = await this.send<UpdateCommandOutput>(new UpdateCommand(params));
+		// Nothing to restore; otherwise the version check failed
+		if (opErr instanceof ConditionalCheckFailedError && opErr.item?.[this.softDelete.field] === undefined) {
+			return [null, null];
+		}
+		if (opErr) return [null, toVersionConflict(opErr, version)];
+		if (!output?.Attributes) return [null, null];
+		try {
+			return [this.parseItem(this.schema, output.Attributes), null];
+		} catch (err) {
+			if (err instanceof EncryptionError) return [null, err];
+			const issues = err instanceof ZodError ? (err as ZodError).issues : undefined;
+			return [null, new EntityValidationError("Entity validation failed", issues)];
+		}
+	}
+}
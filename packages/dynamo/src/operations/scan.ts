@@ -0,0 +1,418 @@
+import { ScanCommand, type ScanCommandInput, type ScanCommandOutput } from "@aws-sdk/lib-dynamodb";
+import { z } from "zod";
+import type { ConnectedTable } from "../client/table.js";
+import { type DynamoOperationError, EncryptionError, EntityValidationError } from "../common/errors.js";
+import { entityTypeAttribute } from "../common/mapper.js";
+import type { CountResult, EntitySchemaDefinition, QueryResult } from "../common/types.js";
+import { joinConditions } from "../common/version.js";
+import { BaseBuilder, type DynamoResult, type EntityContext } from "./base-operation.js";
+import { type FilterCondition, type FilterOperator, filterExpression, filterOn } from "./filters.js";
+import { type IndexConfig, resolveIndex } from "./indexes.js";
+import { type Projection, parseProjected, projectionOf, withProjection } from "./projection.js";
+
+/** Options of a parallel scan */
+export interface ParallelScanOptions {
+	/** Segments read at once (default: all of them) */
+	concurrency?: number;
+}
+
+interface ScanSettings {
+	filters: FilterCondition[];
+	indexConfig?: IndexConfig;
+	limitValue?: number;
+	cursorValue?: Record<string, unknown>;
+	segment?: { segment: number; totalSegments: number };
+	parallel?: { totalSegments: number; concurrency: number };
+	projection?: Projection;
+	skipExpired: boolean;
+	includeDeleted: boolean;
+}
+
+/**
+ * Builder for scanning the items of an entity, on the table or on a secondary index
+ *
+ * When the table stores an entity type attribute (see `Table.entityType()`), the scan
+ * is restricted to the entity's own items with a filter expression, so items of other
+ * entities (and unique constraint sentinels) consume read capacity but are not returned.
+ * Items written without the attribute are returned, as they are by queries.
+ *
+ * `exec()` reads a single page; iterate the builder (`for await`) to read them all,
+ * optionally as a parallel scan (see `parallel()`).
+ *
+ * @template TSchema - The Zod schema type for the entity
+ */
+export class EntityScanBuilder<
+	TSchema extends z.ZodObject<EntitySchemaDefinition>,
+	TItem = z.infer<TSchema>,
+> extends BaseBuilder<QueryResult<TItem>> {
+	private schema: TSchema;
+	private settings: ScanSettings;
+	protected readonly operation = "scan";
+
+	constructor(
+		table: ConnectedTable,
+		schema: TSchema,
+		entity: EntityContext,
+		settings: ScanSettings = { filters: [], skipExpired: false, includeDeleted: false },
+	) {
+		super(table, entity);
+		this.schema = schema;
+		this.settings = settings;
+	}
+
+	/**
+	 * Adds a filter expression to the scan, with the same operators as queries
+	 *
+	 * Filter expressions are applied after the items are read,
+	 * which means they don't reduce the consumed read capacity.
+	 *
+	 * @throws Error if the field is encrypted (see `zdynamo.encrypted()`)
+	 *
+	 * @example
+	 * ```typescript
+	 * .filter('status', 'IN', ['ACTIVE', 'PENDING'])
+	 * ```
+	 */
+	filter(field: string, operator: FilterOperator, value: unknown) {
+		this.settings.filters.push(filterOn(this.schema, field, operator, value));
+		return this;
+	}
+
+	/**
+	 * Scans a Global or Local Secondary Index instead of the table
+	 *
+	 * @param indexAlias - Alias of the GSI or LSI as defined in table configuration
+	 * @throws Error if no index with the alias is found
+	 */
+	index(indexAlias: string) {
+		this.settings.indexConfig = resolveIndex(this.table, indexAlias);
+		return this;
+	}
+
+	/**
+	 * Sets the maximum number of items read per page (before filtering)
+	 *
+	 * @example
+	 * ```typescript
+	 * .limit(100)
+	 * ```
+	 */
+	limit(count: number) {
+		this.settings.limitValue = count;
+		return this;
+	}
+
+	/**
+	 * Sets the pagination cursor for continued scans
+	 *
+	 * @param cursor - `cursor` (LastEvaluatedKey) returned by the previous page
+	 */
+	cursor(cursor?: Record<string, unknown>) {
+		this.settings.cursorValue = cursor;
+		return this;
+	}
+
+	/**
+	 * Reads a single segment of a parallel scan, for scans split across workers.
+	 * Cursors returned by the segment only continue that segment.
+	 *
+	 * @param segment - Zero-based segment to read
+	 * @param totalSegments - Number of segments the table is split into
+	 * @throws Error if the segment is not within `[0, totalSegments)`
+	 *
+	 * @example
+	 * ```typescript
+	 * const [page] = await Order.scan().segment(workerIndex, 8).exec();
+	 * ```
+	 */
+	segment(segment: number, totalSegments: number) {
+		if (!Number.isInteger(segment) || !Number.isInteger(totalSegments) || segment < 0 || segment >= totalSegments) {
+			throw new Error(`Segment ${segment} is not within the ${totalSegments} segments of the scan`);
+		}
+		this.settings.segment = { segment, totalSegments };
+		return this;
+	}
+
+	/**
+	 * Splits the scan into segments read concurrently when iterating the builder.
+	 * Items of different segments are interleaved.
+	 *
+	 * @param totalSegments - Number of segments the table is split into
+	 * @param options - Number of segments read at once (default: all of them)
+	 * @throws Error if the number of segments or the concurrency is not a positive integer
+	 *
+	 * @example
+	 * ```typescript
+	 * for await (const order of Order.scan().parallel(8, { concurrency: 4 })) {
+	 *   await reindex(order);
+	 * }
+	 * ```
+	 */
+	parallel(totalSegments: number, options: ParallelScanOptions = {}) {
+		const concurrency = options.concurrency ?? totalSegments;
+		if (!Number.isInteger(totalSegments) || totalSegments < 1) {
+			throw new Error("A parallel scan needs a positive number of segments");
+		}
+		if (!Number.isInteger(concurrency) || concurrency < 1) {
+			throw new Error("The concurrency of a parallel scan must be a positive integer");
+		}
+		this.settings.parallel = { totalSegments, concurrency };
+		return this;
+	}
+
+	/**
+	 * Reads only the picked fields (with a ProjectionExpression), validating the items
+	 * against them. Filters can still use any field. Projected items are not migrated
+	 * and skip the `afterLoad` hook, which expect whole items.
+	 *
+	 * @throws Error if no field is picked, or if one is not part of the schema
+	 *
+	 * @example
+	 * ```typescript
+	 * for await (const user of User.scan().select(['userId', 'email'])) {
+	 *   await notify(user.email);
+	 * }
+	 * ```
+	 */
+	select<K extends keyof z.infer<TSchema> & string>(fields: K[]) {
+		this.settings.projection = projectionOf(this.table, this.schema, this.entity, fields);
+		return this as unknown as EntityScanBuilder<TSchema, Pick<z.infer<TSchema>, K>>;
+	}
+
+	/**
+	 * Includes soft-deleted items, which are skipped by default (entities with soft delete).
+	 * The default exclusion is applied as a filter expression.
+	 */
+	withDeleted() {
+		this.settings.includeDeleted = true;
+		return this;
+	}
+
+	/**
+	 * Drops items whose TTL has passed but that DynamoDB has not deleted yet.
+	 * Applied as a filter expression, so expired items still consume read capacity.
+	 *
+	 * @throws Error if the table has no TTL attribute (see `Table.ttl()`)
+	 */
+	excludeExpired() {
+		if (!this.table.options.ttlAttribute) {
+			throw new Error(`Table '${this.table.tableName}' has no TTL attribute`);
+		}
+		this.settings.skipExpired = true;
+		return this;
+	}
+
+	/**
+	 * Reads every page of the scan, from the cursor set (if any). Parallel scans
+	 * read every segment from its start, up to `concurrency` segments at once.
+	 *
+	 * @throws DynamoOperationError if a page fails to be read
+	 *
+	 * @example
+	 * ```typescript
+	 * for await (const page of User.scan().filter('isActive', '=', false).pages()) {
+	 *   console.log(page.items.length, page.scannedCount);
+	 * }
+	 * ```
+	 */
+	async *pages(): AsyncGenerator<QueryResult<TItem>> {
+		const { parallel } = this.settings;
+		if (!parallel) {
+			yield* this.segmentPages(this.settings.segment, this.settings.cursorValue);
+			return;
+		}
+		const segments = Array.from({ length: parallel.totalSegments }, (_, segment) =>
+			this.segmentPages({ segment, totalSegments: parallel.totalSegments }, undefined),
+		);
+		// Each running segment has one page read in flight; finished segments make room for the next
+		const running = new Map<number, Promise<{ segment: number; next: IteratorResult<QueryResult<TItem>> }>>();
+		const read = (segment: number) =>
+			running.set(
+				segment,
+				(segments[segment] as AsyncGenerator<QueryResult<TItem>>).next().then((next) => ({ segment, next })),
+			);
+		let started = 0;
+		while (started < Math.min(parallel.concurrency, segments.length)) read(started++);
+		while (running.size > 0) {
+			const { segment, next } = await Promise.race(running.values());
+			running.delete(segment);
+			if (next.done) {
+				if (started < segments.length) read(started++);
+				continue;
+			}
+			read(segment);
+			yield next.value;
+		}
+	}
+
+	/**
+	 * Iterates over every item of the scan (see `pages()`)
+	 *
+	 * @example
+	 * ```typescript
+	 * for await (const user of User.scan()) {
+	 *   await migrate(user);
+	 * }
+	 * ```
+	 */
+	async *[Symbol.asyncIterator](): AsyncGenerator<TItem> {
+		for await (const page of this.pages()) yield* page.items;
+	}
+
+	/** Pages of the whole scan or of one of its segments, each read by a builder of its own */
+	private async *segmentPages(
+		segment: ScanSettings["segment"],
+		from: Record<string, unknown> | undefined,
+	): AsyncGenerator<QueryResult<TItem>> {
+		let cursor = from;
+		do {
+			const [page, error] = await new EntityScanBuilder<TSchema, TItem>(this.table, this.schema, this.entity, {
+				...this.settings,
+				segment,
+				parallel: undefined,
+				cursorValue: cursor,
+			})
+				.withOptionsOf(this)
+				.exec();
+			if (error) throw error;
+			if (!page) return;
+			yield page;
+			cursor = page.cursor;
+		} while (cursor);
+	}
+
+	/**
+	 * Reads a page of the scan
+	 *
+	 * @throws Error if the scan is parallel: iterate it instead, or read one of its segments
+	 */
+	protected async execute(): Promise<DynamoResult<QueryResult<TItem>>> {
+		if (this.settings.parallel) {
+			throw new Error("Parallel scans are read by iterating them, or one segment at a time with segment()");
+		}
+		const { projection } = this.settings;
+		const [output, opErr] = await this.send<ScanCommandOutput>(
+			new ScanCommand(withProjection(projection, this.params())),
+		);
+		if (opErr) return [null, opErr];
+		let items: Record<string, unknown>[];
+		try {
+			items = (output?.Items ?? []).map((item: Record<string, unknown>) =>
+				projection ? parseProjected(this.table, projection, item) : this.parseItem(this.schema, item),
+			);
+		} catch (err) {
+			if (err instanceof EncryptionError) return [null, err];
+			return [
+				null,
+				new EntityValidationError("Entity validation failed", err instanceof z.ZodError ? err.issues : undefined),
+			];
+		}
+		return [
+			{
+				items: (projection ? items : await this.afterLoad(items)) as TItem[],
+				cursor: output?.LastEvaluatedKey as Record<string, unknown> | undefined,
+				count: items.length,
+				scannedCount: output?.ScannedCount ?? undefined,
+			},
+			null,
+		];
+	}
+
+	/**
+	 * Counts the entity's items matching the filters without reading them
+	 * (`Select: COUNT`), following `LastEvaluatedKey` across pages. Parallel scans
+	 * count up to `concurrency` segments at once.
+	 *
+	 * @returns Promise that resolves to the totals of every page read
+	 *
+	 * @example
+	 * ```typescript
+	 * const [result] = await UserEntity.scan().filter('isActive', '=', true).parallel(4).count();
+	 * ```
+	 */
+	count(): Promise<DynamoResult<CountResult>> {
+		return this.run(async (): Promise<DynamoResult<CountResult>> => {
+			const params: ScanCommandInput = { ...this.params(), Select: "COUNT" };
+			const { parallel } = this.settings;
+			const result: CountResult = { count: 0, scannedCount: 0 };
+			const countSegment = async (input: ScanCommandInput) => {
+				let cursor = input.ExclusiveStartKey;
+				do {
+					const [output, opErr] = await this.send<ScanCommandOutput>(
+						new ScanCommand({ ...input, ExclusiveStartKey: cursor }),
+					);
+					if (opErr) return opErr;
+					result.count += output?.Count ?? 0;
+					result.scannedCount += output?.ScannedCount ?? 0;
+					cursor = output?.LastEvaluatedKey;
+				} while (cursor);
+				return null;
+			};
+			if (!parallel) {
+				const error = await countSegment(params);
+				return error ? [null, error] : [result, null];
+			}
+			// Each worker counts segments until none is left, stopping everyone at the first error
+			let next = 0;
+			let failure: DynamoOperationError | null = null;
+			const worker = async () => {
+				while (!failure && next < parallel.totalSegments) {
+					const segment = next++;
+					failure ??= await countSegment({
+						...params,
+						Segment: segment,
+						TotalSegments: parallel.totalSegments,
+						ExclusiveStartKey: undefined,
+					});
+				}
+			};
+			await Promise.all(Array.from({ length: Math.min(parallel.concurrency, parallel.totalSegments) }, worker));
+			return failure ? [null, failure] : [result, null];
+		});
+	}
+
+	/** Builds the Scan input of the filters and options set */
+	private params(): ScanCommandInput {
+		const { indexConfig, segment } = this.settings;
+		const exprAttrNames: Record<string, string> = {};
+		const exprAttrValues: Record<string, unknown> = {};
+		const filterExpr = filterExpression(
+			this.table,
+			this.schema,
+			this.entity,
+			this.settings,
+			exprAttrNames,
+			exprAttrValues,
+		);
+		// The entity's own items only, when the table records the entity type
+		const typeAttribute = entityTypeAttribute(this.table);
+		if (typeAttribute) {
+			exprAttrNames["#skadiEt"] = typeAttribute;
+			exprAttrValues[":skadiEt"] = this.entity.entityName;
+		}
+		const params: ScanCommandInput = {
+			TableName: this.table.tableName,
+			Limit: this.settings.limitValue,
+		};
+		const expression = joinConditions(
+			filterExpr,
+			typeAttribute && "attribute_not_exists(#skadiEt) OR #skadiEt = :skadiEt",
+		);
+		if (expression) {
+			params.FilterExpression = expression;
+			params.ExpressionAttributeNames = exprAttrNames;
+			if (Object.keys(exprAttrValues).length > 0) params.ExpressionAttributeValues = exprAttrValues;
+		}
+		if (indexConfig) {
+			params.IndexName = indexConfig.indexName;
+		}
+		if (segment) {
+			params.Segment = segment.segment;
+			params.TotalSegments = segment.totalSegments;
+		}
+		if (this.settings.cursorValue) {
+			params.ExclusiveStartKey = this.settings.cursorValue;
+		}
+		return params;
+	}
+}
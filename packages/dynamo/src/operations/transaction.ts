@@ -2,29 +2,142 @@ import { TransactWriteCommand, type TransactWriteCommandOutput } from "@aws-sdk/
 import type { z } from "zod";
 import type { ConnectedTable } from "../client/table.js";
 
-import { DynamoOperationError } from "../common/errors.js";
-import { serialize } from "../common/transformer.js";
+import { withDerivedKeys } from "../common/derived-keys.js";
+import {
+	ConditionalCheckFailedError,
+	DynamoOperationError,
+	TransactionCanceledError,
+	type TransactionCancellationReason,
+	VersionConflictError,
+} from "../common/errors.js";
+import { keyOf, stampTimestamps, toDynamoItem, toDynamoKey } from "../common/mapper.js";
+import { withSchemaVersion } from "../common/migrations.js";
+import { indexKeysOf, type SoftDelete, softDeleteOf } from "../common/soft-delete.js";
 import type { EntitySchemaDefinition, TransactionResult } from "../common/types.js";
-import { BaseBuilder, type DynamoResult } from "./base-operation.js";
+import { type SentinelWrite, uniqueFieldsOf, uniqueViolation } from "../common/unique.js";
+import {
+	expectedVersionOf,
+	joinConditions,
+	type VersionedWrite,
+	toVersionConflict,
+	versionCondition,
+	versionedWrite,
+} from "../common/version.js";
+import { BaseBuilder, type DynamoResult, type EntityContext } from "./base-operation.js";
+import { softDeleteParams } from "./delete.js";
+import { entityUpdateExpression } from "./update.js";
+
+/** Options for a single transaction write */
+export interface TransactionWriteOptions {
+	/** Condition expression the item must satisfy for the transaction to commit */
+	condition?: string;
+	/** Returns the stored item in the cancellation reason when the condition fails */
+	returnOldItem?: boolean;
+	/**
+	 * Version the item must be at, for writes on entities with a `version` field. Updates
+	 * otherwise expect the version supplied with their values.
+	 */
+	expectedVersion?: number;
+	/** Deletes the item for good, even on entities with soft delete */
+	purge?: boolean;
+}
+
+type ExpressionParams = {
+	ExpressionAttributeNames?: Record<string, string>;
+	ExpressionAttributeValues?: Record<string, unknown>;
+};
+
+/** Condition of a write (its own and the version check), merged with the write's expression attributes */
+const conditionParams = (
+	{ condition, returnOldItem }: TransactionWriteOptions,
+	version?: VersionedWrite,
+	expression: ExpressionParams = {},
+) => {
+	const versionCheck = versionCondition(version);
+	if (!condition && !versionCheck) return expression;
+	return {
+		ConditionExpression: joinConditions(condition, versionCheck?.expression),
+		...(versionCheck
+			? {
+					ExpressionAttributeNames: { ...expression.ExpressionAttributeNames, ...versionCheck.names },
+					ExpressionAttributeValues: { ...expression.ExpressionAttributeValues, ...versionCheck.values },
+				}
+			: expression),
+		...((returnOldItem || versionCheck) && { ReturnValuesOnConditionCheckFailure: "ALL_OLD" }),
+	};
+};
+
+/** Builder call behind each write, used to explain cancellations */
+type WriteCall = Pick<TransactionCancellationReason, "operation" | "key">;
+
+/**
+ * A write added to the transaction: runs its `before*` hook and builds the
+ * TransactItem when the transaction executes, returning its `after*` hook.
+ */
+type PendingWrite = () => Promise<BuiltWrite>;
+
+interface BuiltWrite {
+	call: WriteCall;
+	write: Record<string, unknown>;
+	after: () => Promise<unknown>;
+	/** Version check of the write, used to report conflicts */
+	version?: VersionedWrite;
+	/** Sentinel items reserving or releasing the values of unique fields, written after the item */
+	sentinels?: SentinelWrite[];
+}
 
 export class EntityTransactionBuilder<
 	TSchema extends z.ZodObject<EntitySchemaDefinition>,
 > extends BaseBuilder<TransactionResult> {
-	private _writes: Array<Record<string, unknown>> = [];
+	private _writes: PendingWrite[] = [];
 	private schema: TSchema;
+	protected readonly operation = "transaction";
 
-	constructor(table: ConnectedTable, schema: TSchema) {
-		super(table);
+	constructor(table: ConnectedTable, schema: TSchema, entity: EntityContext) {
+		super(table, entity);
 		this.schema = schema;
 	}
 
-	put(item: z.input<TSchema>) {
-		const serializedItem = serialize(this.schema.parse(item), this.table.options.caseStyle);
-		this._writes.push({
-			Put: {
-				TableName: this.table.tableName,
-				Item: serializedItem,
-			},
+	put(item: z.input<TSchema>, options: TransactionWriteOptions = {}) {
+		const parsed = this.schema.parse(item);
+		this._writes.push(async () => {
+			const stamped = withDerivedKeys(
+				this.schema,
+				stampTimestamps(this.table, await this.runHook("beforeCreate", parsed)),
+			);
+			const key = keyOf(this.table, toDynamoItem(this.table, stamped, this.schema, this.entity.entityName));
+			// Puts replace any stored item, keeping its createdAt and moving its version on
+			const { item: created, version } = await this.replacing(this.schema, key, stamped, options.expectedVersion);
+			const serializedItem = withSchemaVersion(
+				this.entity.options,
+				toDynamoItem(this.table, created, this.schema, this.entity.entityName),
+			);
+			// Unique values of the replaced item are released, guarded against concurrent changes
+			const { sentinels, guard } = await this.uniqueUpdate(
+				this.schema,
+				key,
+				Object.fromEntries(uniqueFieldsOf(this.entity.options).map((field) => [field, created[field] ?? null])),
+			);
+			return {
+				call: { operation: "put", key },
+				write: {
+					Put: {
+						TableName: this.table.tableName,
+						Item: serializedItem,
+						...conditionParams(
+							{ ...options, condition: joinConditions(options.condition, guard?.expression) },
+							version,
+							guard && {
+								ExpressionAttributeNames: guard.names,
+								...(Object.keys(guard.values).length > 0 && { ExpressionAttributeValues: guard.values }),
+							},
+						),
+					},
+				},
+				after: () => this.runHook("afterCreate", created),
+				version,
+				sentinels,
+			};
 		});
 		return this;
 	}
@@ -33,31 +146,52 @@ export class EntityTransactionBuilder<
 		key: z.input<TSchema["shape"]["pk"]> &
 			(TSchema["shape"]["sk"] extends z.ZodTypeAny ? z.input<TSchema["shape"]["sk"]> : Record<string, never>),
 		updates: Partial<z.input<TSchema>>,
+		options: TransactionWriteOptions = {},
 	) {
 		// Transform template-based key to DynamoDB format
-		const pkValue = this.schema.shape.pk.parse(key);
-		const dynamoKey: Record<string, unknown> = { pk: pkValue };
-
-		if (this.schema.shape.sk) {
-			const skValue = this.schema.shape.sk.parse(key);
-			dynamoKey.sk = skValue;
-		}
+		const dynamoKey = toDynamoKey(this.table, this.schema, key);
 
-		const serializedUpdates = serialize(updates, this.table.options.caseStyle) as Record<string, unknown>;
-
-		// Simple SET update only
-		const updateKeys = Object.keys(serializedUpdates);
-		const updateExpr = updateKeys.map((k) => `#${k} = :${k}`).join(", ");
-		const exprAttrNames = Object.fromEntries(updateKeys.map((k) => [`#${k}`, k]));
-		const exprAttrValues = Object.fromEntries(updateKeys.map((k) => [`:${k}`, serializedUpdates[k]]));
-		this._writes.push({
-			Update: {
-				TableName: this.table.tableName,
-				Key: dynamoKey,
-				UpdateExpression: `SET ${updateExpr}`,
-				ExpressionAttributeNames: exprAttrNames,
-				ExpressionAttributeValues: exprAttrValues,
-			},
+		this._writes.push(async () => {
+			const hooked = await this.withDerivedKeyUpdates(
+				this.schema,
+				dynamoKey,
+				await this.runHook("beforeUpdate", updates, { key: dynamoKey }),
+			);
+			const version = versionedWrite(
+				this.table,
+				this.schema,
+				this.entity.options,
+				expectedVersionOf(this.entity.options, hooked, options.expectedVersion),
+			);
+			// Simple SET update only
+			const expression = entityUpdateExpression(this.table, this.schema, this.entity.entityName, hooked, {
+				version,
+			});
+			const { sentinels, guard } = await this.uniqueUpdate(this.schema, dynamoKey, hooked);
+			return {
+				call: { operation: "update", key: dynamoKey },
+				write: {
+					Update: {
+						TableName: this.table.tableName,
+						Key: dynamoKey,
+						...expression,
+						...conditionParams(
+							{ ...options, condition: joinConditions(options.condition, guard?.expression) },
+							version,
+							guard
+								? {
+										ExpressionAttributeNames: { ...expression.ExpressionAttributeNames, ...guard.names },
+										ExpressionAttributeValues: { ...expression.ExpressionAttributeValues, ...guard.values },
+									}
+								: expression,
+						),
+					},
+				},
+				// TransactWriteItems returns no item
+				after: () => this.runHook("afterUpdate", null, { key: dynamoKey }),
+				version,
+				sentinels,
+			};
 		});
 		return this;
 	}
@@ -65,34 +199,96 @@ export class EntityTransactionBuilder<
 	delete(
 		key: z.input<TSchema["shape"]["pk"]> &
 			(TSchema["shape"]["sk"] extends z.ZodTypeAny ? z.input<TSchema["shape"]["sk"]> : Record<string, never>),
+		options: TransactionWriteOptions = {},
 	) {
 		// Transform template-based key to DynamoDB format
-		const pkValue = this.schema.shape.pk.parse(key);
-		const dynamoKey: Record<string, unknown> = { pk: pkValue };
-
-		if (this.schema.shape.sk) {
-			const skValue = this.schema.shape.sk.parse(key);
-			dynamoKey.sk = skValue;
-		}
+		const dynamoKey = toDynamoKey(this.table, this.schema, key);
 
-		this._writes.push({
-			Delete: {
-				TableName: this.table.tableName,
-				Key: dynamoKey,
-			},
+		this._writes.push(async () => {
+			await this.runHook("beforeDelete", dynamoKey, { key: dynamoKey });
+			const version = versionedWrite(this.table, this.schema, this.entity.options, options.expectedVersion);
+			const softDelete = options.purge ? undefined : softDeleteOf(this.table, this.schema, this.entity.options);
+			return {
+				call: { operation: "delete", key: dynamoKey },
+				write: softDelete
+					? { Update: await this.softDeleteWrite(dynamoKey, softDelete, options, version) }
+					: {
+							Delete: {
+								TableName: this.table.tableName,
+								Key: dynamoKey,
+								...conditionParams(options, version),
+							},
+						},
+				after: () => this.runHook("afterDelete", null, { key: dynamoKey }),
+				version,
+				// Soft-deleted items keep their unique values, so they can be restored
+				sentinels: softDelete ? [] : (await this.uniqueRelease(this.schema, dynamoKey)).sentinels,
+			};
 		});
 		return this;
 	}
 
-	async exec(): Promise<DynamoResult<TransactionResult>> {
+	/**
+	 * Update marking an item as deleted, on entities with soft delete. Unlike a
+	 * plain delete, a missing or already deleted item cancels the transaction.
+	 */
+	private async softDeleteWrite(
+		key: Record<string, unknown>,
+		softDelete: SoftDelete,
+		{ condition, returnOldItem }: TransactionWriteOptions,
+		version?: VersionedWrite,
+	) {
+		let indexKeys: Record<string, unknown> = {};
+		if (softDelete.hideFromIndexes) {
+			const current = await this.readItem(key);
+			indexKeys = current ? indexKeysOf(this.table, current) : {};
+		}
+		return {
+			...softDeleteParams(this.table, this.schema, this.entity.entityName, key, softDelete, {
+				version,
+				condition,
+				indexKeys,
+			}),
+			...((returnOldItem || version?.expected !== undefined) && { ReturnValuesOnConditionCheckFailure: "ALL_OLD" }),
+		};
+	}
+
+	protected async execute(): Promise<DynamoResult<TransactionResult>> {
 		if (!this._writes.length) {
 			return [null, new DynamoOperationError("No transaction writes provided")];
 		}
+		const built: BuiltWrite[] = [];
+		for (const pending of this._writes) built.push(await pending());
+		// Sentinel writes follow the item they belong to
+		const items = built.flatMap((write) => [
+			{ write, sentinel: undefined },
+			...(write.sentinels ?? []).map((sentinel) => ({ write, sentinel })),
+		]);
 		const params = {
-			TransactItems: this._writes,
+			TransactItems: items.map(({ write, sentinel }) => sentinel?.write ?? write.write),
 		};
 		const [_, opErr] = await this.send<TransactWriteCommandOutput>(new TransactWriteCommand(params));
+		if (opErr instanceof TransactionCanceledError) {
+			// Tie each reason back to the put/update/delete call that added the item
+			const reasons = opErr.reasons.map((reason) => ({ ...reason, ...items[reason.index]?.write.call }));
+			const canceled = new TransactionCanceledError(opErr.message, opErr.cause, reasons);
+			for (const reason of reasons) {
+				const violation = uniqueViolation(items[reason.index]?.sentinel, reason.reason, canceled);
+				if (violation) return [null, violation];
+			}
+			// A versioned write that found another version surfaces as a conflict
+			for (const reason of reasons) {
+				const { write, sentinel } = items[reason.index] ?? {};
+				const version = sentinel ? undefined : write?.version;
+				if (reason.reason !== "ConditionalCheckFailed" || !version) continue;
+				const failed = new ConditionalCheckFailedError(reason.message ?? canceled.message, canceled, reason.item);
+				const conflict = toVersionConflict(failed, version);
+				if (conflict instanceof VersionConflictError) return [null, conflict];
+			}
+			return [null, canceled];
+		}
 		if (opErr) return [null, opErr];
+		for (const { after } of built) await after();
 		return [{ success: true }, null];
 	}
 }
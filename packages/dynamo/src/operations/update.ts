@@ -1,85 +1,232 @@
-import { UpdateCommand, type UpdateCommandInput, type UpdateCommandOutput } from "@aws-sdk/lib-dynamodb";
+import {
+	TransactWriteCommand,
+	UpdateCommand,
+	type UpdateCommandInput,
+	type UpdateCommandOutput,
+} from "@aws-sdk/lib-dynamodb";
 import { ZodError, type z } from "zod";
 import type { ConnectedTable } from "../client/table.js";
-import { EntityValidationError, MissingKeyError } from "../common/errors.js";
-import { deserialize, serialize } from "../common/transformer.js";
+import { EncryptionError, EntityValidationError, MissingKeyError } from "../common/errors.js";
+import {
+	managedTimestamps,
+	setOnceAttributes,
+	stampTimestamps,
+	storedName,
+	toDynamoKey,
+	toDynamoUpdates,
+} from "../common/mapper.js";
 import type { EntitySchemaDefinition } from "../common/types.js";
-import { BaseBuilder, type DynamoResult } from "./base-operation.js";
+import { toSentinelWriteError } from "../common/unique.js";
+import {
+	expectedVersionOf,
+	joinConditions,
+	type VersionedWrite,
+	toVersionConflict,
+	versionCondition,
+	versionedWrite,
+} from "../common/version.js";
+import { BaseBuilder, type ConditionOptions, type DynamoResult, type EntityContext } from "./base-operation.js";
 
-export class EntityUpdateBuilder<
+/**
+ * Builds a `SET` (and `REMOVE`) update expression from serialized values.
+ * Attributes in `setOnce` are only written when missing (`if_not_exists`);
+ * attributes in `increment` are incremented by their value (starting from 0);
+ * attributes in `remove` are removed from the item.
+ */
+export const setExpression = (
+	updates: Record<string, unknown>,
+	{ setOnce = [], increment = [], remove = [] }: { setOnce?: string[]; increment?: string[]; remove?: string[] } = {},
+) => {
+	const updateKeys = Object.keys(updates);
+	const assignments = updateKeys.map((k) => {
+		if (setOnce.includes(k)) return `#${k} = if_not_exists(#${k}, :${k})`;
+		if (increment.includes(k)) return `#${k} = if_not_exists(#${k}, :skadiZero) + :${k}`;
+		return `#${k} = :${k}`;
+	});
+	const clauses = [
+		assignments.length > 0 ? `SET ${assignments.join(", ")}` : "",
+		remove.length > 0 ? `REMOVE ${remove.map((k) => `#${k}`).join(", ")}` : "",
+	];
+	const values = Object.fromEntries(updateKeys.map((k) => [`:${k}`, updates[k]]));
+	return {
+		UpdateExpression: clauses.filter(Boolean).join(" "),
+		ExpressionAttributeNames: Object.fromEntries([...updateKeys, ...remove].map((k) => [`#${k}`, k])),
+		ExpressionAttributeValues: updateKeys.some((k) => increment.includes(k)) ? { ...values, ":skadiZero": 0 } : values,
+	};
+};
+
+/** Extra parts of an entity update expression */
+export interface EntityUpdateOptions {
+	/** Optimistic locking of the write (the version is incremented) */
+	version?: VersionedWrite;
+	/** Attributes written as-is, bypassing field serialization */
+	raw?: Record<string, unknown>;
+	/** Attributes removed from the item */
+	remove?: string[];
+	/** Fields only written when the item has none yet (`if_not_exists`) */
+	setOnce?: string[];
+}
+
+/**
+ * Serializes the values of an update on behalf of an entity: stamps the managed
+ * timestamps, drops the (managed) version field and increments the version instead.
+ */
+export const entityUpdateExpression = (
+	table: ConnectedTable,
+	schema: z.ZodObject<EntitySchemaDefinition>,
+	entityName: string,
+	updates: Record<string, unknown>,
+	{ version, raw, remove, setOnce = [] }: EntityUpdateOptions = {},
+) => {
+	// The managed updatedAt is stamped on every write
+	const updatedAt = managedTimestamps(table)?.updatedAt;
+	const fieldsSetOnce = setOnce.filter((field) => field !== updatedAt).map((field) => storedName(table, field, schema));
+	const values = { ...updates };
+	if (version) delete values[version.field];
+	const serialized = { ...toDynamoUpdates(table, stampTimestamps(table, values), schema, entityName), ...raw };
+	if (version) serialized[version.attribute] = 1;
+	return setExpression(serialized, {
+		setOnce: [...setOnceAttributes(table, schema), ...fieldsSetOnce],
+		increment: version ? [version.attribute] : [],
+		remove,
+	});
+};
+
+/**
+ * Shared by `update()` and `upsert()`: sends an UpdateItem with the entity's bookkeeping
+ * (timestamps, version, derived keys and unique values) and returns the stored item.
+ */
+export abstract class ItemUpdateBuilder<
 	TSchema extends z.ZodObject<EntitySchemaDefinition>,
 > extends BaseBuilder<z.infer<TSchema> | null> {
-	private _key: Record<string, unknown> | undefined;
-	private _updates: Partial<z.input<TSchema>> | undefined;
+	protected _key: Record<string, unknown> | undefined;
+	protected _updates: Partial<z.input<TSchema>> | undefined;
+	/** Attributes written as-is along with the updates */
+	protected _raw?: Record<string, unknown>;
+	/** Fields of the updates only written when the item has none yet */
+	protected _setOnce?: string[];
 	private _condition?: string;
-	private schema: TSchema;
+	private _conditionOptions: ConditionOptions = {};
+	private _expectedVersion?: number;
+	protected schema: TSchema;
 
-	constructor(table: ConnectedTable, schema: TSchema) {
-		super(table);
+	constructor(table: ConnectedTable, schema: TSchema, entity: EntityContext) {
+		super(table, entity);
 		this.schema = schema;
 	}
 
-	key(
-		keyData: z.input<TSchema["shape"]["pk"]> &
-			(TSchema["shape"]["sk"] extends z.ZodTypeAny ? z.input<TSchema["shape"]["sk"]> : Record<string, never>),
-	) {
-		// Transform template-based key to DynamoDB format
-		const pkValue = this.schema.shape.pk.parse(keyData);
-		this._key = { pk: pkValue };
-
-		if (this.schema.shape.sk) {
-			const skValue = this.schema.shape.sk.parse(keyData);
-			this._key.sk = skValue;
-		}
-
-		return this;
-	}
-
-	set(updates: Partial<z.input<TSchema>>) {
-		this._updates = updates;
+	condition(expression: string, options: ConditionOptions = {}) {
+		this._condition = expression;
+		this._conditionOptions = options;
 		return this;
 	}
 
-	condition(expression: string) {
-		this._condition = expression;
+	/**
+	 * Applies the update only if the item is at this version (entities with a `version` field).
+	 * Without it, a version supplied with the updates is the one expected. A mismatch
+	 * fails with `VersionConflictError`.
+	 */
+	expectVersion(version: number) {
+		this._expectedVersion = version;
 		return this;
 	}
 
-	async exec(): Promise<DynamoResult<z.infer<TSchema> | null>> {
+	protected async execute(): Promise<DynamoResult<z.infer<TSchema> | null>> {
 		if (!this._key || !this._updates) {
-			return [null, new MissingKeyError("Key and updates are required for update operation.")];
+			return [null, new MissingKeyError(`Key and updates are required for ${this.operation} operation.`)];
 		}
 
-		const serializedUpdates = serialize(this._updates, this.table.options.caseStyle);
-
-		// Build UpdateExpression and ExpressionAttributeValues
-		const updateKeys = Object.keys(serializedUpdates);
-		const updateExpr = updateKeys.map((k) => `#${k} = :${k}`).join(", ");
-		const exprAttrNames = Object.fromEntries(updateKeys.map((k) => [`#${k}`, k]));
-		const exprAttrValues = Object.fromEntries(
-			updateKeys.map((k) => [`:${k}`, (serializedUpdates as Record<string, unknown>)[k]]),
+		const updates = await this.withDerivedKeyUpdates(
+			this.schema,
+			this._key,
+			await this.runHook("beforeUpdate", this._updates, { key: this._key }),
+		);
+		const version = versionedWrite(
+			this.table,
+			this.schema,
+			this.entity.options,
+			expectedVersionOf(this.entity.options, updates, this._expectedVersion),
 		);
+		const expression = entityUpdateExpression(this.table, this.schema, this.entity.entityName, updates, {
+			version,
+			raw: this._raw,
+			setOnce: this._setOnce,
+		});
+		const versionCheck = versionCondition(version);
+		// Changes to unique fields move their sentinels, guarded against concurrent changes
+		const { sentinels, guard } = await this.uniqueUpdate(this.schema, this._key, updates);
+
 		const params: UpdateCommandInput = {
 			TableName: this.table.tableName,
 			Key: this._key,
-			UpdateExpression: `SET ${updateExpr}`,
-			ExpressionAttributeNames: exprAttrNames,
-			ExpressionAttributeValues: exprAttrValues,
-			ReturnValues: "ALL_NEW",
+			...expression,
 		};
-		if (this._condition) {
-			params.ConditionExpression = this._condition;
+		if (this._condition || versionCheck || guard) {
+			params.ConditionExpression = joinConditions(this._condition, versionCheck?.expression, guard?.expression);
+			params.ExpressionAttributeNames = {
+				...expression.ExpressionAttributeNames,
+				...versionCheck?.names,
+				...guard?.names,
+			};
+			params.ExpressionAttributeValues = {
+				...expression.ExpressionAttributeValues,
+				...versionCheck?.values,
+				...guard?.values,
+			};
+			// The stored item tells version conflicts apart from other condition failures
+			if (this._conditionOptions.returnOldItem || versionCheck) {
+				params.ReturnValuesOnConditionCheckFailure = "ALL_OLD";
+			}
+		}
+		let attributes: Record<string, unknown> | undefined;
+		if (sentinels.length > 0) {
+			const [, opErr] = await this.send(
+				new TransactWriteCommand({ TransactItems: [{ Update: params }, ...sentinels.map(({ write }) => write)] }),
+			);
+			if (opErr) return [null, toSentinelWriteError(opErr, sentinels, version)];
+			// Transactions return no item
+			attributes = await this.readItem(this._key);
+		} else {
+			const [output, opErr] = await this.send<UpdateCommandOutput>(
+				new UpdateCommand({ ...params, ReturnValues: "ALL_NEW" }),
+			);
+			if (opErr) return [null, toVersionConflict(opErr, version)];
+			attributes = output?.Attributes;
+		}
+		if (!attributes) {
+			await this.runHook("afterUpdate", null, { key: this._key });
+			return [null, null];
 		}
-		const [output, opErr] = await this.send<UpdateCommandOutput>(new UpdateCommand(params));
-		if (opErr) return [null, opErr];
-		if (!output || !("Attributes" in output) || !output.Attributes) return [null, null];
+		let parsed: z.infer<TSchema>;
 		try {
-			const deserialized = deserialize(output.Attributes, this.schema);
-			const parsed = this.schema.parse(deserialized);
-			return [parsed, null];
+			parsed = this.parseItem(this.schema, attributes);
 		} catch (err) {
+			if (err instanceof EncryptionError) return [null, err];
 			const issues = err instanceof ZodError ? (err as ZodError).issues : undefined;
 			return [null, new EntityValidationError("Entity validation failed", issues)];
 		}
+		await this.runHook("afterUpdate", parsed, { key: this._key });
+		return [parsed, null];
+	}
+}
+
+export class EntityUpdateBuilder<
+	TSchema extends z.ZodObject<EntitySchemaDefinition>,
+> extends ItemUpdateBuilder<TSchema> {
+	protected readonly operation = "update";
+
+	key(
+		keyData: z.input<TSchema["shape"]["pk"]> &
+			(TSchema["shape"]["sk"] extends z.ZodTypeAny ? z.input<TSchema["shape"]["sk"]> : Record<string, never>),
+	) {
+		// Transform template-based key to DynamoDB format
+		this._key = toDynamoKey(this.table, this.schema, keyData);
+
+		return this;
+	}
+
+	set(updates: Partial<z.input<TSchema>>) {
+		this._updates = updates;
+		return this;
 	}
 }
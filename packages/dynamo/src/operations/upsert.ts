@@ -0,0 +1,30 @@
+import type { z } from "zod";
+import { withDerivedKeys } from "../common/derived-keys.js";
+import { keyOf, toDynamoItem } from "../common/mapper.js";
+import { withSchemaVersion } from "../common/migrations.js";
+import type { EntitySchemaDefinition } from "../common/types.js";
+import { ItemUpdateBuilder } from "./update.js";
+
+/**
+ * Builder merging an item into the one stored under its key (or creating it) with
+ * an UpdateItem: the item is validated like in `create()`, the fields it sets replace
+ * the stored ones, the rest are kept, and so is `createdAt`. Fields the item leaves to
+ * schema defaults are only written when the stored item has none. Runs the `update` hooks.
+ */
+export class EntityUpsertBuilder<
+	TSchema extends z.ZodObject<EntitySchemaDefinition>,
+> extends ItemUpdateBuilder<TSchema> {
+	protected readonly operation = "upsert";
+
+	item(data: z.input<TSchema>) {
+		const parsed = this.schema.parse(data);
+		const { pk, sk, ...fields } = withDerivedKeys(this.schema, parsed);
+		this._key = keyOf(this.table, toDynamoItem(this.table, { pk, sk }));
+		this._updates = fields as Partial<z.input<TSchema>>;
+		const supplied = data as Record<string, unknown>;
+		this._setOnce = Object.keys(parsed).filter((field) => supplied[field] === undefined);
+		// The whole item is written, so it is at the current schema version
+		this._raw = withSchemaVersion(this.entity.options, {});
+		return this;
+	}
+}
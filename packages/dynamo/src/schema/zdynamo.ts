@@ -1,4 +1,26 @@
 import { z } from "zod";
+import { isEncryptedField } from "../common/encryption.js";
+
+/**
+ * Rejects encrypted template params: key values are stored (and compared) in plain text
+ *
+ * @throws Error if a param is declared with `zdynamo.encrypted()`
+ */
+const assertPlainParams = (template: string, params: Record<string, z.ZodTypeAny>) => {
+	const encrypted = Object.keys(params).find((name) => isEncryptedField(params[name]));
+	if (encrypted) {
+		throw new Error(`Key template '${template}': Encrypted field '${encrypted}' cannot be part of a key`);
+	}
+};
+
+/** Copy of a field schema with a zdynamo marker added, keeping the markers it already has */
+const marked = <T extends z.ZodTypeAny>(inner: T, marker: string, value: unknown): T => {
+	const schema = inner.clone() as T;
+	for (const [name, existing] of Object.entries(inner)) {
+		if (name.startsWith("_skadi")) Object.assign(schema, { [name]: existing });
+	}
+	return Object.assign(schema, { [marker]: value });
+};
 
 /**
  * DynamoDB-specific Zod schema helpers for the Skadi ODM
@@ -22,6 +44,7 @@ export const zdynamo = {
 	 * ```
 	 */
 	partitionKey: <T extends Record<string, z.ZodTypeAny>>(template: string, params: T) => {
+		assertPlainParams(template, params);
 		const paramSchema = z.object(params);
 		const effect = paramSchema.transform((values) =>
 			template.replace(/\{(\w+)\}/g, (_, key) => String(values[key as keyof typeof values])),
@@ -50,6 +73,7 @@ export const zdynamo = {
 	 * ```
 	 */
 	sortKey: <T extends Record<string, z.ZodTypeAny>>(template: string, params: T) => {
+		assertPlainParams(template, params);
 		const paramSchema = z.object(params);
 		const effect = paramSchema.transform((values) =>
 			template.replace(/\{(\w+)\}/g, (_, key) => String(values[key as keyof typeof values])),
@@ -84,6 +108,64 @@ export const zdynamo = {
 	gsiSortKey: <T extends Record<string, z.ZodTypeAny>>(template: string, params: T) =>
 		zdynamo.sortKey(template, params),
 
+	/**
+	 * Creates an LSI sort key schema (alias for sortKey)
+	 *
+	 * @template T - Record type defining the template parameters
+	 * @param template - Template string with #{param} placeholders
+	 * @param params - Zod schema object defining the template parameters
+	 * @returns Zod schema that transforms input params to a formatted LSI sort key
+	 *
+	 * @example
+	 * ```typescript
+	 * const lsi1Sk = zdynamo.lsiSortKey('CREATED#{createdAt}', { createdAt: z.string() });
+	 * ```
+	 */
+	lsiSortKey: <T extends Record<string, z.ZodTypeAny>>(template: string, params: T) =>
+		zdynamo.sortKey(template, params),
+
+	/**
+	 * Creates a key schema computed from sibling fields of the item
+	 *
+	 * Each template parameter names a field of the entity. Creates fill the key in from
+	 * those fields, and updates recompute it whenever one of them changes, so the key
+	 * never drifts from the data. Dates are rendered as ISO strings. Use it for GSI and
+	 * LSI keys, or for `pk`/`sk` (which are only derived on create).
+	 *
+	 * @template T - Record type defining the template parameters
+	 * @param template - Template string with #{param} placeholders naming sibling fields
+	 * @param params - Zod schema object defining the template parameters
+	 * @returns Optional key schema, filled in by the entity builders
+	 *
+	 * @example
+	 * ```typescript
+	 * const gsi1Pk = zdynamo.derivedKey('STATUS#{status}', { status: z.enum(['OPEN', 'PAID']) });
+	 * // Item { status: 'PAID' } -> gsi1Pk: 'STATUS#PAID'
+	 * ```
+	 */
+	derivedKey: <T extends Record<string, z.ZodTypeAny>>(template: string, params: T) => {
+		assertPlainParams(template, params);
+		const paramSchema = z.object(params);
+		const effect = paramSchema
+			.transform((values) =>
+				template.replace(/\{(\w+)\}/g, (_, key) => {
+					const value = values[key as keyof typeof values];
+					return value instanceof Date ? value.toISOString() : String(value);
+				}),
+			)
+			.optional();
+		(
+			effect as z.ZodTypeAny & {
+				_skadiKeyMeta?: { template: string; params: typeof paramSchema };
+				_skadiDerived?: { sources: string[] };
+			}
+		)._skadiKeyMeta = { template, params: paramSchema };
+		(effect as z.ZodTypeAny & { _skadiDerived?: { sources: string[] } })._skadiDerived = {
+			sources: Object.keys(params),
+		};
+		return effect;
+	},
+
 	/**
 	 * Creates a timestamp schema that defaults to the current date
 	 *
@@ -97,6 +179,68 @@ export const zdynamo = {
 	 */
 	timestamp: () => z.date().default(() => new Date()),
 
+	/**
+	 * Creates a TTL (time to live) schema
+	 *
+	 * Stored as epoch seconds, as required by DynamoDB TTL, and read back as a Date.
+	 * Name the attribute on the table with `Table.ttl()` to let DynamoDB expire items.
+	 *
+	 * @returns Zod date schema marked as a TTL attribute
+	 *
+	 * @example
+	 * ```typescript
+	 * const expiresAt = zdynamo.ttl();
+	 * // Input: new Date('2030-01-01') -> Stored: 1893456000
+	 * ```
+	 */
+	ttl: () => {
+		const schema = z.date();
+		(schema as z.ZodTypeAny & { _skadiTtl?: boolean })._skadiTtl = true;
+		return schema;
+	},
+
+	/**
+	 * Marks a field to be encrypted on the client before it reaches DynamoDB
+	 *
+	 * Values are encrypted with AES-GCM using the key provider of the table (see
+	 * `Table.encryption()`) and decrypted on read, so the entity sees plain values.
+	 * Stored values are opaque: encrypted fields cannot be part of keys, filters or
+	 * unique constraints.
+	 *
+	 * @param inner - Schema of the plain value
+	 * @returns Copy of the schema marked as encrypted
+	 *
+	 * @example
+	 * ```typescript
+	 * const ssn = zdynamo.encrypted(z.string());
+	 * // Input: '123-45-6789' -> Stored: '$enc:v1:local:...'
+	 * ```
+	 */
+	encrypted: <T extends z.ZodTypeAny>(inner: T): T => marked(inner, "_skadiEncrypted", true),
+
+	/**
+	 * Stores a field under another attribute name, e.g. a shorter one to save item size
+	 *
+	 * The alias replaces the table's case style for the field and applies to items,
+	 * update expressions and filters; reads map the attribute back to the field.
+	 * Only top-level fields can be aliased (`pk`/`sk` are stored under the table keys).
+	 *
+	 * @param name - Attribute name to store the field under
+	 * @param inner - Schema of the field
+	 * @returns Copy of the schema marked with the alias
+	 * @throws Error if the name is not a valid attribute name (letters, digits and underscores)
+	 *
+	 * @example
+	 * ```typescript
+	 * const organizationId = zdynamo.alias('oid', z.string());
+	 * // Input: { organizationId: 'org-1' } -> Stored: { oid: 'org-1' }
+	 * ```
+	 */
+	alias: <T extends z.ZodTypeAny>(name: string, inner: T): T => {
+		if (!/^\w+$/.test(name)) throw new Error(`Alias '${name}' must only contain letters, digits and underscores`);
+		return marked(inner, "_skadiAlias", name);
+	},
+
 	/**
 	 * Creates a currency code schema (3-character string)
 	 *
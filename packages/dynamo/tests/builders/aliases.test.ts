@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { Entity, InMemoryClient, Table, zdynamo } from "../../src/index.js";
+import { createMemoryTable } from "../fixtures/memory-table.js";
+
+const member = {
+	pk: { memberId: "m1" },
+	sk: {},
+	organizationId: "org-1",
+	displayName: "Ada",
+	preferences: { darkMode: true },
+};
+
+describe("Attribute aliases", () => {
+	it("should store aliased fields under their alias and the rest after the case style", async () => {
+		const { MemberEntity: Member, stored } = createMemoryTable({ caseStyle: "snakeCase", timestamps: true });
+		await Member.create().item(member).exec();
+
+		const [written] = stored("Member");
+		const [read] = await Member.get().key({ memberId: "m1" }).exec();
+
+		expect(written).toMatchObject({
+			oid: "org-1",
+			display_name: "Ada",
+			preferences: { dark_mode: true },
+			rev: 1,
+			GSI2PK: "ORG#org-1",
+			created_at: expect.any(String),
+		});
+		expect(written).not.toHaveProperty("organizationId");
+		expect(read).toMatchObject({
+			organizationId: "org-1",
+			displayName: "Ada",
+			preferences: { darkMode: true },
+			revision: 1,
+			orgKey: "ORG#org-1",
+		});
+	});
+
+	it("should use aliases in updates, version checks, filters and index queries", async () => {
+		const { MemberEntity: Member, stored } = createMemoryTable({ caseStyle: "snakeCase", timestamps: true });
+		await Member.create().item(member).exec();
+
+		const [updated] = await Member.update()
+			.key({ memberId: "m1" })
+			.set({ organizationId: "org-2" })
+			.expectVersion(1)
+			.exec();
+		const [filtered] = await Member.query().pk({ memberId: "m1" }).filter("organizationId", "=", "org-2").exec();
+		const [indexed] = await Member.query().index("byOrganization").pk("ORG#org-2").exec();
+
+		expect(updated).toMatchObject({ organizationId: "org-2", revision: 2 });
+		expect(stored("Member")[0]).toMatchObject({ oid: "org-2", rev: 2, GSI2PK: "ORG#org-2" });
+		expect(filtered?.items.map((item) => item.displayName)).toEqual(["Ada"]);
+		expect(indexed?.items.map((item) => item.organizationId)).toEqual(["org-2"]);
+	});
+
+	it("should read fields back under their own names without a case style", async () => {
+		const client = new InMemoryClient();
+		const table = Table.connect("legacy").client(client).build();
+		const Legacy = Entity.define("Legacy")
+			.table(table)
+			.schema({
+				pk: zdynamo.partitionKey("LEGACY#{id}", { id: z.string() }),
+				sk: zdynamo.sortKey("ITEM", {}),
+				gsi_1_pk: z.string(),
+				owner_profile: z.object({ first_name: z.string() }),
+			});
+		await Legacy.create()
+			.item({ pk: { id: "l1" }, sk: {}, gsi_1_pk: "OWNER#o1", owner_profile: { first_name: "Ada" } })
+			.exec();
+
+		const [read, error] = await Legacy.get().key({ id: "l1" }).exec();
+
+		expect(error).toBeNull();
+		expect(read).toMatchObject({ gsi_1_pk: "OWNER#o1", owner_profile: { first_name: "Ada" } });
+		expect(client.items("legacy")[0]).toHaveProperty("gsi_1_pk", "OWNER#o1");
+	});
+
+	it("should read aliased fields of the items returned by failed conditions", async () => {
+		const table = Table.connect("tasks").client(new InMemoryClient()).build();
+		const Task = Entity.define("Task")
+			.table(table)
+			.schema(
+				{
+					pk: zdynamo.partitionKey("TASK#{taskId}", { taskId: z.string() }),
+					sk: zdynamo.sortKey("TASK", {}),
+					version: zdynamo.alias("ver", z.number().optional()),
+					deletedAt: zdynamo.alias("del", z.date().optional()),
+				},
+				{ version: "version", softDelete: true },
+			);
+		const key = { taskId: "t1" };
+		await Task.create().item({ pk: key, sk: {} }).exec();
+		await Task.update().key(key).set({}).exec();
+
+		const [, conflict] = await Task.update().key(key).set({}).expectVersion(1).exec();
+		const [deleted] = await Task.delete().key(key).exec();
+		const [again, againError] = await Task.delete().key(key).exec();
+		const [, restoreConflict] = await Task.restore().key(key).expectVersion(1).exec();
+
+		expect(conflict).toMatchObject({ code: "VERSION_CONFLICT", expectedVersion: 1, currentVersion: 2 });
+		expect(deleted?.deletedAt).toBeInstanceOf(Date);
+		expect(again).toBeNull();
+		expect(againError).toBeNull();
+		expect(restoreConflict).toMatchObject({ code: "VERSION_CONFLICT", expectedVersion: 1, currentVersion: 3 });
+	});
+
+	it("should reject aliases clashing with other attributes", () => {
+		const table = Table.connect("members").client(new InMemoryClient()).build();
+		const define = (fields: Record<string, z.ZodTypeAny>) => () =>
+			Entity.define("Member")
+				.table(table)
+				.schema({
+					pk: zdynamo.partitionKey("MEMBER#{memberId}", { memberId: z.string() }),
+					sk: zdynamo.sortKey("PROFILE", {}),
+					...fields,
+				});
+
+		expect(define({ organizationId: zdynamo.alias("oid", z.string()), oid: z.string() })).toThrow(
+			"Fields 'organizationId' and 'oid' are both stored as 'oid'",
+		);
+		expect(define({ organizationId: zdynamo.alias("_et", z.string()) })).toThrow(
+			"Field 'organizationId' is stored as '_et', reserved by the table",
+		);
+		expect(() => zdynamo.alias("org-id", z.string())).toThrow("must only contain letters, digits and underscores");
+	});
+});
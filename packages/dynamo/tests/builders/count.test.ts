@@ -0,0 +1,106 @@
+import { PutCommand } from "@aws-sdk/lib-dynamodb";
+import { describe, expect, it } from "vitest";
+import type { Middleware } from "../../src/index.js";
+import { createMemoryTable, orderInput } from "../fixtures/memory-table.js";
+
+const createOrders = () => {
+	const sent: Array<Record<string, unknown>> = [];
+	const record: Middleware = async (context, next) => {
+		const output = await next();
+		sent.push({ operation: context.operation, Select: context.input.Select, Items: output.Items });
+		return output;
+	};
+	return { sent, ...createMemoryTable({ middleware: [record] }) };
+};
+
+const addOrders = async ({ OrderEntity: Order, CustomerEntity: Customer }: ReturnType<typeof createOrders>) => {
+	for (const [customerId, orderId, status, total] of [
+		["c1", "o1", "OPEN", 10],
+		["c1", "o2", "OPEN", 250],
+		["c1", "o3", "PAID", 0],
+		["c1", "o4", "OPEN", 75],
+		["c2", "o5", "OPEN", 40],
+	] as const) {
+		await Order.create()
+			.item(orderInput(orderId, total, status, customerId))
+			.exec();
+	}
+	await Customer.create()
+		.item({ pk: { customerId: "c1" }, sk: {}, name: "Ada" })
+		.exec();
+};
+
+describe("Count", () => {
+	it("should count query results with sk conditions and filters, without reading items", async () => {
+		const orders = createOrders();
+		await addOrders(orders);
+		orders.sent.length = 0;
+
+		const [all, error] = await orders.OrderEntity.query().pk({ customerId: "c1" }).count();
+		const [some] = await orders.OrderEntity.query()
+			.pk({ customerId: "c1" })
+			.sk("between", "ORDER#o2", "ORDER#o4")
+			.filter("total", ">", 50)
+			.count();
+
+		expect(error).toBeNull();
+		expect(all).toEqual({ count: 4, scannedCount: 5 });
+		expect(some).toEqual({ count: 2, scannedCount: 3 });
+		expect(orders.sent).toEqual([
+			{ operation: "query", Select: "COUNT", Items: undefined },
+			{ operation: "query", Select: "COUNT", Items: undefined },
+		]);
+	});
+
+	it("should follow LastEvaluatedKey across pages", async () => {
+		const orders = createOrders();
+		await addOrders(orders);
+		orders.sent.length = 0;
+
+		const [paged, error, metadata] = await orders.OrderEntity.query()
+			.pk({ customerId: "c1" })
+			.filter("status", "=", "OPEN")
+			.limit(2)
+			.count();
+
+		expect(error).toBeNull();
+		expect(paged).toEqual({ count: 3, scannedCount: 5 });
+		expect(orders.sent).toHaveLength(3);
+		expect(metadata?.retry.attempts).toBe(3);
+	});
+
+	it("should count index queries and scans", async () => {
+		const orders = createOrders();
+		await addOrders(orders);
+
+		const [open] = await orders.OrderEntity.query().index("byStatus").pk({ status: "OPEN" }).count();
+		const [scanned] = await orders.OrderEntity.scan().limit(1).count();
+		const [parallel] = await orders.OrderEntity.scan()
+			.filter("status", "=", "OPEN")
+			.parallel(3, { concurrency: 2 })
+			.count();
+
+		expect(open).toEqual({ count: 4, scannedCount: 4 });
+		expect(scanned).toEqual({ count: 5, scannedCount: 6 });
+		expect(parallel).toEqual({ count: 4, scannedCount: 6 });
+	});
+
+	it("should count items written without the type attribute in queries and scans alike", async () => {
+		const orders = createOrders();
+		await addOrders(orders);
+		await orders.client.send(
+			new PutCommand({
+				TableName: "memory-table",
+				Item: { pk: "CUSTOMER#c1", sk: "ORDER#legacy", orderId: "legacy", total: 5, status: "OPEN" },
+			}),
+		);
+
+		const [first] = await orders.OrderEntity.query().pk({ customerId: "c1" }).count();
+		const [second] = await orders.OrderEntity.query().pk({ customerId: "c2" }).count();
+		const [scanned] = await orders.OrderEntity.scan().count();
+
+		expect(first).toEqual({ count: 5, scannedCount: 6 });
+		expect(second).toEqual({ count: 1, scannedCount: 1 });
+		expect(scanned).toEqual({ count: 6, scannedCount: 7 });
+	});
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { Entity, InMemoryClient, Table, zdynamo } from "../../src/index.js";
+
+const createAccounts = () => {
+	const client = new InMemoryClient();
+	const table = Table.connect("accounts")
+		.client(client)
+		.gsis([
+			{ alias: "byType", indexName: "gsi1", partitionKey: "gsi1Pk", sortKey: "gsi1Sk" },
+			{ alias: "byStatus", indexName: "gsi2", partitionKey: "gsi2Pk", sortKey: "gsi2Sk" },
+		])
+		.build();
+	const Account = Entity.define("Account")
+		.table(table)
+		.schema({
+			pk: zdynamo.derivedKey("USER#{userId}", { userId: z.string() }),
+			sk: zdynamo.derivedKey("ACCOUNT#{accountId}", { accountId: z.string() }),
+			userId: z.string(),
+			accountId: z.string(),
+			type: z.enum(["CHECKING", "SAVINGS"]),
+			status: z.enum(["OPEN", "CLOSED"]),
+			createdAt: z.date(),
+			gsi1Pk: zdynamo.derivedKey("TYPE#{type}", { type: z.string() }),
+			gsi1Sk: zdynamo.derivedKey("{createdAt}", { createdAt: z.date() }),
+			gsi2Pk: zdynamo.derivedKey("STATUS#{status}", { status: z.string() }),
+			gsi2Sk: zdynamo.derivedKey("{type}#{accountId}", { type: z.string(), accountId: z.string() }),
+		});
+	return { client, Account };
+};
+
+const CREATED = new Date("2024-01-01T00:00:00.000Z");
+const account = {
+	userId: "u1",
+	accountId: "a1",
+	type: "CHECKING" as const,
+	status: "OPEN" as const,
+	createdAt: CREATED,
+};
+const key = { userId: "u1", accountId: "a1" };
+
+describe("Derived keys", () => {
+	it("should compute every key from the item's fields on create", async () => {
+		const { client, Account } = createAccounts();
+
+		const [created, error] = await Account.create().item(account).exec();
+
+		expect(error).toBeNull();
+		expect(created).toMatchObject({ pk: "USER#u1", sk: "ACCOUNT#a1", gsi1Pk: "TYPE#CHECKING" });
+		expect(client.items("accounts")[0]).toMatchObject({
+			pk: "USER#u1",
+			sk: "ACCOUNT#a1",
+			gsi1Pk: "TYPE#CHECKING",
+			gsi1Sk: CREATED.toISOString(),
+			gsi2Pk: "STATUS#OPEN",
+			gsi2Sk: "CHECKING#a1",
+		});
+		const [byType] = await Account.query().index("byType").pk({ type: "CHECKING" }).exec();
+		expect(byType?.items[0]?.gsi1Sk).toBe(CREATED.toISOString());
+	});
+
+	it("should recompute keys whose source fields change on update", async () => {
+		const { client, Account } = createAccounts();
+		await Account.create().item(account).exec();
+
+		// gsi2Sk also reads accountId, which the update lacks: it is read from the item
+		const [updated] = await Account.update().key(key).set({ status: "CLOSED", type: "SAVINGS" }).exec();
+
+		expect(updated).toMatchObject({ status: "CLOSED", gsi2Pk: "STATUS#CLOSED", gsi2Sk: "SAVINGS#a1" });
+		expect(client.items("accounts")[0]).toMatchObject({ gsi1Pk: "TYPE#SAVINGS", gsi1Sk: CREATED.toISOString() });
+		const [open] = await Account.query().index("byStatus").pk({ status: "OPEN" }).exec();
+		expect(open?.items).toHaveLength(0);
+	});
+
+	it("should recompute keys in transactions", async () => {
+		const { client, Account } = createAccounts();
+		await Account.create().item(account).exec();
+
+		await Account.transaction()
+			.update(key, { status: "CLOSED" })
+			.put({ ...account, accountId: "a2" })
+			.exec();
+
+		expect(client.items("accounts").map((item) => item.gsi2Pk)).toEqual(["STATUS#CLOSED", "STATUS#OPEN"]);
+	});
+});
@@ -0,0 +1,134 @@
+import { randomBytes } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import {
+	type DataKey,
+	EncryptionError,
+	Entity,
+	InMemoryClient,
+	type KeyProvider,
+	LocalKeyProvider,
+	Table,
+	zdynamo,
+} from "../../src/index.js";
+
+const createPatients = (
+	provider: KeyProvider = new LocalKeyProvider(randomBytes(32)),
+	client: InMemoryClient = new InMemoryClient(),
+) => {
+	const table = Table.connect("patients")
+		.client(client)
+		.options({ caseStyle: "snakeCase" })
+		.encryption(provider)
+		.build();
+	const Patient = Entity.define("Patient")
+		.table(table)
+		.schema({
+			pk: zdynamo.partitionKey("PATIENT#{patientId}", { patientId: z.string() }),
+			sk: zdynamo.sortKey("PROFILE", {}),
+			name: z.string(),
+			ssn: zdynamo.encrypted(z.string()),
+			medicalRecord: zdynamo.encrypted(z.object({ bloodType: z.string(), checkedAt: z.date() })).optional(),
+		});
+	return { client, table, Patient };
+};
+
+const patient = {
+	pk: { patientId: "p1" },
+	sk: {},
+	name: "Ada",
+	ssn: "123-45-6789",
+	medicalRecord: { bloodType: "O+", checkedAt: new Date("2024-05-01T00:00:00.000Z") },
+};
+
+describe("Field encryption", () => {
+	it("should encrypt fields on write and decrypt them on read", async () => {
+		const { client, Patient } = createPatients();
+		await Patient.create().item(patient).exec();
+
+		const [stored] = client.items("patients");
+		const [read] = await Patient.get().key({ patientId: "p1" }).exec();
+		const [result] = await Patient.query().pk({ patientId: "p1" }).exec();
+
+		expect(stored?.name).toBe("Ada");
+		expect(stored?.ssn).toMatch(/^\$enc:v1:local:/);
+		expect(stored?.medical_record).toMatch(/^\$enc:v1:local:/);
+		expect(read).toEqual({ ...patient, pk: "PATIENT#p1", sk: "PROFILE" });
+		expect(result?.items[0]?.medicalRecord?.checkedAt).toEqual(new Date("2024-05-01T00:00:00.000Z"));
+	});
+
+	it("should encrypt updated values and resolve each key once per table", async () => {
+		const keys = new Map<string, Uint8Array>();
+		const calls: string[] = [];
+		// Stand-in for a KMS provider: each data key is identified by its "wrapped" form
+		const provider: KeyProvider = {
+			encryptionKey: async (): Promise<DataKey> => {
+				const id = `wrapped-${keys.size + 1}`;
+				keys.set(id, randomBytes(32));
+				calls.push(`generate:${id}`);
+				return { id, key: keys.get(id) as Uint8Array };
+			},
+			decryptionKey: async (id) => {
+				calls.push(`decrypt:${id}`);
+				return keys.get(id) as Uint8Array;
+			},
+		};
+		const { client, Patient } = createPatients(provider);
+		await Patient.create().item(patient).exec();
+
+		const [updated] = await Patient.update().key({ patientId: "p1" }).set({ ssn: "987-65-4321" }).exec();
+		// A fresh table (another process) unwraps the key to read
+		const reader = createPatients(provider, client);
+		const [read] = await reader.Patient.get().key({ patientId: "p1" }).exec();
+
+		expect(updated?.ssn).toBe("987-65-4321");
+		expect(client.items("patients")[0]?.ssn).toMatch(/^\$enc:v1:wrapped-1:/);
+		expect(read?.ssn).toBe("987-65-4321");
+		expect(calls).toEqual(["generate:wrapped-1", "generate:wrapped-2", "decrypt:wrapped-1"]);
+	});
+
+	it("should report values that fail to decrypt", async () => {
+		const { client, Patient } = createPatients();
+		await Patient.create().item(patient).exec();
+		// Same key id, different key
+		const other = createPatients(new LocalKeyProvider(randomBytes(32)), client);
+
+		const [read, error] = await other.Patient.get().key({ patientId: "p1" }).exec();
+
+		expect(read).toBeNull();
+		expect(error).toBeInstanceOf(EncryptionError);
+		expect(error?.code).toBe("ENCRYPTION_ERROR");
+	});
+
+	it("should reject encrypted fields in keys, filters and unique constraints", () => {
+		const { table, Patient } = createPatients();
+
+		expect(() => zdynamo.partitionKey("SSN#{ssn}", { ssn: zdynamo.encrypted(z.string()) })).toThrow(
+			"Encrypted field 'ssn' cannot be part of a key",
+		);
+		expect(() => Patient.query().pk({ patientId: "p1" }).filter("ssn", "=", "123-45-6789")).toThrow(
+			"Field 'ssn' is encrypted and cannot be used in filters",
+		);
+		expect(() =>
+			Entity.define("Patient")
+				.table(table)
+				.schema(
+					{
+						pk: zdynamo.partitionKey("PATIENT#{patientId}", { patientId: z.string() }),
+						sk: zdynamo.sortKey("PROFILE", {}),
+						ssn: zdynamo.encrypted(z.string()),
+					},
+					{ unique: ["ssn"] },
+				),
+		).toThrow("Encrypted field 'ssn' cannot be unique");
+		expect(() =>
+			Entity.define("Patient")
+				.table(Table.connect("plain").client(new InMemoryClient()).build())
+				.schema({
+					pk: zdynamo.partitionKey("PATIENT#{patientId}", { patientId: z.string() }),
+					sk: zdynamo.sortKey("PROFILE", {}),
+					ssn: zdynamo.encrypted(z.string()),
+				}),
+		).toThrow("has no key provider");
+	});
+});
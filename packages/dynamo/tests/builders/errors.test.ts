@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import {
+	ConditionalCheckFailedError,
+	Entity,
+	InMemoryClient,
+	ItemTooLargeError,
+	ResourceNotFoundError,
+	Table,
+	ThrottledError,
+	TransactionCanceledError,
+	toOperationError,
+	zdynamo,
+} from "../../src/index.js";
+import { createMemoryTable, orderInput } from "../fixtures/memory-table.js";
+
+describe("Error taxonomy", () => {
+	it("should map failed conditions", async () => {
+		const { OrderEntity } = createMemoryTable();
+		await OrderEntity.create().item(orderInput("o1", 25)).exec();
+
+		const [, error] = await OrderEntity.update()
+			.key({ customerId: "c1", orderId: "o1" })
+			.set({ total: 30 })
+			.condition("attribute_not_exists(pk)")
+			.exec();
+
+		expect(error).toBeInstanceOf(ConditionalCheckFailedError);
+		expect(error?.code).toBe("CONDITIONAL_CHECK_FAILED");
+		expect((error as ConditionalCheckFailedError).item).toBeUndefined();
+	});
+
+	it("should return the old item when requested", async () => {
+		const { OrderEntity } = createMemoryTable();
+		await OrderEntity.create().item(orderInput("o1", 25)).exec();
+
+		const [, error] = await OrderEntity.create()
+			.item(orderInput("o1", 40))
+			.condition("attribute_not_exists(pk)", { returnOldItem: true })
+			.exec();
+
+		expect(error).toBeInstanceOf(ConditionalCheckFailedError);
+		expect((error as ConditionalCheckFailedError).item).toMatchObject({ pk: "CUSTOMER#c1", total: 25 });
+	});
+
+	it("should tie transaction cancellation reasons to the builder calls", async () => {
+		const { OrderEntity } = createMemoryTable();
+		await OrderEntity.create().item(orderInput("o1")).exec();
+
+		const [, error] = await OrderEntity.transaction()
+			.put(orderInput("o2"))
+			.delete({ customerId: "c1", orderId: "o1" }, { condition: "attribute_not_exists(pk)", returnOldItem: true })
+			.exec();
+
+		expect(error).toBeInstanceOf(TransactionCanceledError);
+		expect(error?.code).toBe("TRANSACTION_CANCELED");
+		expect((error as TransactionCanceledError).reasons).toEqual([
+			{
+				index: 1,
+				operation: "delete",
+				key: { pk: "CUSTOMER#c1", sk: "ORDER#o1" },
+				reason: "ConditionalCheckFailed",
+				message: "The conditional request failed",
+				item: expect.objectContaining({ status: "OPEN" }),
+			},
+		]);
+	});
+
+	it("should map oversized items and missing tables", async () => {
+		const { OrderEntity } = createMemoryTable();
+		const [, tooLarge] = await OrderEntity.create()
+			.item({ ...orderInput("o1"), orderId: "x".repeat(401 * 1024) })
+			.exec();
+		expect(tooLarge).toBeInstanceOf(ItemTooLargeError);
+		expect(tooLarge?.code).toBe("ITEM_TOO_LARGE");
+
+		const missing = Table.connect("missing")
+			.client(new InMemoryClient({ autoCreateTables: false }))
+			.build();
+		const Note = Entity.define("Note")
+			.table(missing)
+			.schema({ pk: zdynamo.partitionKey("NOTE#{id}", { id: z.string() }), sk: zdynamo.sortKey("NOTE", {}) });
+		const [, notFound] = await Note.get().key({ id: "n1" }).exec();
+		expect(notFound).toBeInstanceOf(ResourceNotFoundError);
+		expect(notFound?.code).toBe("RESOURCE_NOT_FOUND");
+	});
+
+	it("should map throttling errors", () => {
+		const error = toOperationError({ name: "ThrottlingException" }, (item) => item);
+		expect(error).toBeInstanceOf(ThrottledError);
+		expect(error.code).toBe("THROTTLED");
+	});
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { Entity, InMemoryClient, Table, zdynamo } from "../../src/index.js";
+
+const createComments = (client = new InMemoryClient()) => {
+	const table = Table.connect("comments")
+		.client(client)
+		.lsis([{ alias: "byScore", indexName: "lsi1", sortKey: "lsi1Sk", projectionType: "ALL" }])
+		.build();
+	const Comment = Entity.define("Comment")
+		.table(table)
+		.schema({
+			pk: zdynamo.partitionKey("POST#{postId}", { postId: z.string() }),
+			sk: zdynamo.sortKey("COMMENT#{commentId}", { commentId: z.string() }),
+			lsi1Sk: zdynamo.lsiSortKey("SCORE#{score}", { score: z.string() }),
+			body: z.string(),
+		});
+	return { client, table, Comment };
+};
+
+const comment = (commentId: string, score: string) => ({
+	pk: { postId: "p1" },
+	sk: { commentId },
+	lsi1Sk: { score },
+	body: `comment ${commentId}`,
+});
+
+describe("Local secondary indexes", () => {
+	it("should query an LSI with the entity's own partition key", async () => {
+		const { Comment } = createComments();
+		await Comment.create().item(comment("a", "07")).exec();
+		await Comment.create().item(comment("b", "42")).exec();
+		await Comment.create().item(comment("c", "19")).exec();
+
+		const [result, error] = await Comment.query().index("byScore").pk({ postId: "p1" }).sortBy("DESC").exec();
+
+		expect(error).toBeNull();
+		expect(result?.items.map((item) => item.body)).toEqual(["comment b", "comment c", "comment a"]);
+		expect(result?.items[0]?.lsi1Sk).toBe("SCORE#42");
+	});
+
+	it("should apply sort key conditions on the LSI sort key", async () => {
+		const { Comment } = createComments();
+		await Comment.create().item(comment("a", "07")).exec();
+		await Comment.create().item(comment("b", "42")).exec();
+
+		const [result] = await Comment.query().index("byScore").pk({ postId: "p1" }).sk(">", "SCORE#10").exec();
+
+		expect(result?.items.map((item) => item.body)).toEqual(["comment b"]);
+	});
+
+	it("should create LSIs with the table and report their drift as pending", async () => {
+		const client = new InMemoryClient({ autoCreateTables: false });
+		const { table } = createComments(client);
+
+		const [created] = await table.ensureTable();
+		expect(created?.created).toBe(true);
+		const [diff] = await table.diff();
+		expect(diff?.inSync).toBe(true);
+
+		client.defineTable({ tableName: "comments", partitionKey: "pk", sortKey: "sk" });
+		const [result] = await table.ensureTable();
+		expect(result?.pending).toMatchObject([{ type: "LSI_MISSING", indexName: "lsi1" }]);
+	});
+});
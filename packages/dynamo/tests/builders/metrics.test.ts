@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { Entity, InMemoryClient, MetricsCollector, Table, zdynamo } from "../../src/index.js";
+
+const createOrders = (configure: (table: ReturnType<typeof Table.connect>) => ReturnType<typeof Table.connect>) => {
+	const table = configure(
+		Table.connect("orders")
+			.client(new InMemoryClient())
+			.gsis([{ alias: "byStatus", indexName: "gsi1", partitionKey: "gsi1Pk", sortKey: "gsi1Sk" }]),
+	).build();
+	return Entity.define("Order")
+		.table(table)
+		.schema({
+			pk: zdynamo.partitionKey("CUSTOMER#{customerId}", { customerId: z.string() }),
+			sk: zdynamo.sortKey("ORDER#{orderId}", { orderId: z.string() }),
+			gsi1Pk: zdynamo.gsiPartitionKey("STATUS#{status}", { status: z.string() }),
+			gsi1Sk: zdynamo.gsiSortKey("ORDER#{orderId}", { orderId: z.string() }),
+			total: z.number(),
+		});
+};
+
+const order = (orderId: string) => ({
+	pk: { customerId: "c1" },
+	sk: { orderId },
+	gsi1Pk: { status: "OPEN" },
+	gsi1Sk: { orderId },
+	total: 10,
+});
+
+describe("Consumed capacity", () => {
+	it("should not request capacity unless enabled", async () => {
+		const Order = createOrders((table) => table);
+		const [, , metadata] = await Order.create().item(order("o1")).exec();
+		expect(metadata?.consumedCapacity).toBeUndefined();
+	});
+
+	it("should report capacity for single-item, query, batch and transaction results", async () => {
+		const Order = createOrders((table) => table.consumedCapacity());
+
+		const [, , created] = await Order.create().item(order("o1")).exec();
+		expect(created?.consumedCapacity).toMatchObject({ capacityUnits: 1, writeCapacityUnits: 1, readCapacityUnits: 0 });
+
+		const [, , read] = await Order.get().key({ customerId: "c1", orderId: "o1" }).exec();
+		expect(read?.consumedCapacity).toMatchObject({ capacityUnits: 0.5, readCapacityUnits: 0.5 });
+
+		const [, , queried] = await Order.query().pk({ customerId: "c1" }).exec();
+		expect(queried?.consumedCapacity?.readCapacityUnits).toBe(0.5);
+
+		const [, , batch] = await Order.batchGet()
+			.keys([
+				{ customerId: "c1", orderId: "o1" },
+				{ customerId: "c1", orderId: "o2" },
+			])
+			.exec();
+		expect(batch?.consumedCapacity?.readCapacityUnits).toBe(1);
+
+		const [, , transaction] = await Order.transaction()
+			.put(order("o2"))
+			.delete({ customerId: "c1", orderId: "o1" })
+			.exec();
+		expect(transaction?.consumedCapacity?.writeCapacityUnits).toBe(4);
+	});
+
+	it("should break capacity down per index when requested", async () => {
+		const Order = createOrders((table) => table);
+		await Order.create().item(order("o1")).exec();
+
+		const [, , metadata] = await Order.query()
+			.index("byStatus")
+			.pk({ status: "OPEN" })
+			.consumedCapacity("INDEXES")
+			.exec();
+
+		expect(metadata?.consumedCapacity?.byResource).toEqual({ "orders/gsi1": 0.5 });
+	});
+
+	it("should aggregate metrics per entity and operation", async () => {
+		const metrics = new MetricsCollector();
+		const Order = createOrders((table) => table.consumedCapacity().metrics(metrics));
+
+		await Order.create().item(order("o1")).exec();
+		await Order.create().item(order("o2")).exec();
+		await Order.create().item(order("o2")).condition("attribute_not_exists(pk)").exec();
+		await Order.get().key({ customerId: "c1", orderId: "o1" }).exec();
+
+		expect(metrics.snapshot()).toEqual([
+			{
+				entityName: "Order",
+				operation: "create",
+				count: 3,
+				errors: 1,
+				retries: 0,
+				capacityUnits: 2,
+				readCapacityUnits: 0,
+				writeCapacityUnits: 2,
+			},
+			{
+				entityName: "Order",
+				operation: "get",
+				count: 1,
+				errors: 0,
+				retries: 0,
+				capacityUnits: 0.5,
+				readCapacityUnits: 0.5,
+				writeCapacityUnits: 0,
+			},
+		]);
+
+		metrics.reset();
+		expect(metrics.snapshot()).toEqual([]);
+	});
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import {
+	DynamoOperationError,
+	Entity,
+	InMemoryClient,
+	type Middleware,
+	type OperationContext,
+	Table,
+	zdynamo,
+} from "../../src/index.js";
+
+const createNotes = (tableMiddleware: Middleware[], entityMiddleware: Middleware[] = []) => {
+	const client = new InMemoryClient();
+	const table = Table.connect("notes")
+		.client(client)
+		.use(...tableMiddleware)
+		.build();
+	const Note = Entity.define("Note")
+		.table(table)
+		.schema(
+			{
+				pk: zdynamo.partitionKey("TENANT#{tenantId}", { tenantId: z.string() }),
+				sk: zdynamo.sortKey("NOTE#{noteId}", { noteId: z.string() }),
+				text: z.string(),
+			},
+			{ middleware: entityMiddleware },
+		);
+	return { client, Note };
+};
+
+const note = (tenantId: string, noteId: string, text = "hello") => ({
+	pk: { tenantId },
+	sk: { noteId },
+	text,
+});
+
+describe("Middleware", () => {
+	it("should run table then entity middleware around each command", async () => {
+		const calls: string[] = [];
+		const seen: OperationContext[] = [];
+		const tracer =
+			(label: string): Middleware =>
+			async (context, next) => {
+				calls.push(`${label}:before`);
+				seen.push(context);
+				const output = await next();
+				calls.push(`${label}:after`);
+				return output;
+			};
+		const { Note } = createNotes([tracer("table")], [tracer("entity")]);
+
+		await Note.create().item(note("t1", "n1")).exec();
+
+		expect(calls).toEqual(["table:before", "entity:before", "entity:after", "table:after"]);
+		expect(seen[0]).toMatchObject({
+			entityName: "Note",
+			operation: "create",
+			tableName: "notes",
+			input: { Item: { pk: "TENANT#t1", sk: "NOTE#n1", text: "hello" } },
+		});
+	});
+
+	it("should let middleware mutate the command input", async () => {
+		const stamp: Middleware = (context, next) => {
+			const item = context.input.Item as Record<string, unknown> | undefined;
+			if (item) item.text = String(item.text).toUpperCase();
+			return next();
+		};
+		const { client, Note } = createNotes([stamp]);
+
+		await Note.create().item(note("t1", "n1")).exec();
+
+		expect(client.items("notes")).toEqual([{ pk: "TENANT#t1", sk: "NOTE#n1", text: "HELLO", _et: "Note" }]);
+	});
+
+	it("should let middleware short-circuit and reject commands", async () => {
+		const tenantGuard: Middleware = (context, next) => {
+			const key = context.input.Key as Record<string, unknown> | undefined;
+			if (key && key.pk !== "TENANT#t1") {
+				throw new DynamoOperationError("Cross-tenant access denied");
+			}
+			return next();
+		};
+		const cache: Middleware = async (context, next) =>
+			context.operation === "get" ? { Item: { pk: "TENANT#t1", sk: "NOTE#cached", text: "from cache" } } : next();
+		const { Note } = createNotes([tenantGuard, cache]);
+
+		const [cached] = await Note.get().key({ tenantId: "t1", noteId: "n1" }).exec();
+		expect(cached?.text).toBe("from cache");
+
+		const [, denied] = await Note.get().key({ tenantId: "t2", noteId: "n1" }).exec();
+		expect(denied?.message).toBe("Cross-tenant access denied");
+	});
+
+	it("should expose errors to middleware", async () => {
+		const errors: unknown[] = [];
+		const observer: Middleware = async (_context, next) => {
+			try {
+				return await next();
+			} catch (error) {
+				errors.push(error);
+				throw error;
+			}
+		};
+		const { Note } = createNotes([observer]);
+		await Note.create().item(note("t1", "n1")).exec();
+
+		const [, error] = await Note.put().item(note("t1", "n1")).condition("attribute_not_exists(pk)").exec();
+
+		expect(error?.code).toBe("CONDITIONAL_CHECK_FAILED");
+		expect(errors).toHaveLength(1);
+		expect(errors[0]).toMatchObject({ name: "ConditionalCheckFailedException" });
+	});
+});
@@ -0,0 +1,119 @@
+import { PutCommand } from "@aws-sdk/lib-dynamodb";
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { Entity, EntityValidationError, InMemoryClient, type Middleware, Table, zdynamo } from "../../src/index.js";
+
+const createContacts = () => {
+	const client = new InMemoryClient();
+	const inputs: Array<Record<string, unknown>> = [];
+	const record: Middleware = async (context, next) => {
+		inputs.push(context.input);
+		return next();
+	};
+	const table = Table.connect("contacts").client(client).options({ caseStyle: "snakeCase" }).use(record).build();
+	const Contact = Entity.define("Contact")
+		.table(table)
+		.schema(
+			{
+				pk: zdynamo.partitionKey("ORG#{orgId}", { orgId: z.string() }),
+				sk: zdynamo.sortKey("CONTACT#{contactId}", { contactId: z.string() }),
+				contactId: z.string(),
+				fullName: z.string(),
+				email: zdynamo.alias("mail", z.string().email()),
+				notes: z.string(),
+				deletedAt: z.date().optional(),
+			},
+			{ softDelete: true },
+		);
+	const Org = Entity.define("Org")
+		.table(table)
+		.schema({
+			pk: zdynamo.partitionKey("ORG#{orgId}", { orgId: z.string() }),
+			sk: zdynamo.sortKey("CONTACT#ORG", {}),
+			fullName: z.string(),
+		});
+	return { client, inputs, Contact, Org };
+};
+
+const contact = (contactId: string, fullName: string) => ({
+	pk: { orgId: "o1" },
+	sk: { contactId },
+	contactId,
+	fullName,
+	email: `${contactId}@example.com`,
+	notes: "long notes ".repeat(20),
+});
+
+describe("Projections", () => {
+	it("should read only the picked fields, with placeholder names", async () => {
+		const { inputs, Contact } = createContacts();
+		await Contact.create().item(contact("c1", "Ada")).exec();
+		inputs.length = 0;
+
+		const [read, error] = await Contact.get()
+			.key({ orgId: "o1", contactId: "c1" })
+			.select(["fullName", "email"])
+			.exec();
+
+		expect(error).toBeNull();
+		expect(read).toEqual({ fullName: "Ada", email: "c1@example.com" });
+		expect(inputs[0]).toMatchObject({
+			ProjectionExpression: "#skadiProj0, #skadiProj1, #skadiProj2, #skadiProj3",
+			ExpressionAttributeNames: {
+				"#skadiProj0": "full_name",
+				"#skadiProj1": "mail",
+				"#skadiProj2": "_et",
+				"#skadiProj3": "deleted_at",
+			},
+		});
+	});
+
+	it("should project queries, scans and batch gets, keeping filters and exclusions", async () => {
+		const { Contact, Org } = createContacts();
+		await Contact.create().item(contact("c1", "Ada")).exec();
+		await Contact.create().item(contact("c2", "Grace")).exec();
+		await Contact.create().item(contact("c3", "Edsger")).exec();
+		await Org.create()
+			.item({ pk: { orgId: "o1" }, sk: {}, fullName: "Org" })
+			.exec();
+		await Contact.delete().key({ orgId: "o1", contactId: "c3" }).exec();
+
+		const [queried] = await Contact.query()
+			.pk({ orgId: "o1" })
+			.filter("notes", "begins_with", "long")
+			.select(["contactId", "fullName"])
+			.exec();
+		const [scanned] = await Contact.scan().filter("fullName", "=", "Grace").select(["contactId"]).exec();
+		const [batch] = await Contact.batchGet()
+			.keys([
+				{ orgId: "o1", contactId: "c1" },
+				{ orgId: "o1", contactId: "c3" },
+			])
+			.select(["pk", "sk", "email"])
+			.exec();
+		const [deleted] = await Contact.get().key({ orgId: "o1", contactId: "c3" }).select(["fullName"]).exec();
+
+		expect(queried?.items).toEqual([
+			{ contactId: "c1", fullName: "Ada" },
+			{ contactId: "c2", fullName: "Grace" },
+		]);
+		expect(scanned?.items).toEqual([{ contactId: "c2" }]);
+		expect(batch?.items).toEqual([{ pk: "ORG#o1", sk: "CONTACT#c1", email: "c1@example.com" }]);
+		expect(deleted).toBeNull();
+	});
+
+	it("should validate projected items against the picked fields", async () => {
+		const { client, Contact } = createContacts();
+		await Contact.create().item(contact("c1", "Ada")).exec();
+		const stored = client.items("contacts")[0] ?? {};
+		await client.send(new PutCommand({ TableName: "contacts", Item: { ...stored, mail: "not-an-email" } }));
+
+		const [valid] = await Contact.get().key({ orgId: "o1", contactId: "c1" }).select(["fullName"]).exec();
+		const [, invalid] = await Contact.get().key({ orgId: "o1", contactId: "c1" }).select(["email"]).exec();
+
+		expect(valid).toEqual({ fullName: "Ada" });
+		expect(invalid).toBeInstanceOf(EntityValidationError);
+		expect(() => Contact.get().select([])).toThrow("select() needs at least one field");
+		expect(() => Contact.scan().select(["phone" as "email"])).toThrow("Field 'phone' is not part of the schema");
+	});
+});
@@ -0,0 +1,82 @@
+import { DynamoDBServiceException } from "@aws-sdk/client-dynamodb";
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { Entity, InMemoryClient, isRetryableError, Table, zdynamo } from "../../src/index.js";
+
+/** Fails the first `failures` commands with the given error before delegating to the in-memory client */
+const flakyClient = (failures: number, name = "ProvisionedThroughputExceededException") => {
+	const memory = new InMemoryClient();
+	memory.defineTable({ tableName: "retry-table", partitionKey: "pk", sortKey: "sk" });
+	let remaining = failures;
+	return {
+		send: async (command: object) => {
+			if (remaining-- > 0) {
+				throw new DynamoDBServiceException({
+					name,
+					$fault: "client",
+					$metadata: { httpStatusCode: 400 },
+					message: "Rate of requests exceeds the allowed throughput.",
+				});
+			}
+			return memory.send(command);
+		},
+	};
+};
+
+const createEntity = (client: { send(command: object): Promise<object> }, maxAttempts: number) => {
+	const table = Table.connect("retry-table").client(client).retry({ maxAttempts, baseDelayMs: 1 }).build();
+	return Entity.define("Task")
+		.table(table)
+		.schema({
+			pk: zdynamo.partitionKey("TASK#{taskId}", { taskId: z.string() }),
+			sk: zdynamo.sortKey("TASK", {}),
+			title: z.string(),
+		});
+};
+
+describe("Retry policy", () => {
+	it("should retry throttled requests and report the attempts", async () => {
+		const client = flakyClient(2);
+		const Task = createEntity(client, 3);
+
+		const [created, error, metadata] = await Task.create()
+			.item({ pk: { taskId: "t1" }, sk: {}, title: "Ship it" })
+			.exec();
+
+		expect(error).toBeNull();
+		expect(created?.title).toBe("Ship it");
+		expect(metadata?.retry).toMatchObject({ attempts: 3, retries: 2 });
+	});
+
+	it("should give up after maxAttempts and return the metadata with the error", async () => {
+		const client = flakyClient(5);
+		const Task = createEntity(client, 2);
+
+		const [found, error, metadata] = await Task.get().key({ taskId: "t1" }).exec();
+
+		expect(found).toBeNull();
+		expect(error?.cause).toMatchObject({ cause: { name: "ProvisionedThroughputExceededException" } });
+		expect(metadata?.retry).toMatchObject({ attempts: 2, retries: 1 });
+	});
+
+	it("should let a single operation override the table policy", async () => {
+		const client = flakyClient(1);
+		const Task = createEntity(client, 1);
+
+		const [, error, metadata] = await Task.get().key({ taskId: "t1" }).retry({ maxAttempts: 2, baseDelayMs: 1 }).exec();
+
+		expect(error).toBeNull();
+		expect(metadata?.retry.attempts).toBe(2);
+	});
+
+	it("should not retry client errors", async () => {
+		const client = flakyClient(1, "ValidationException");
+		const Task = createEntity(client, 3);
+
+		const [, error, metadata] = await Task.get().key({ taskId: "t1" }).exec();
+
+		expect(error).not.toBeNull();
+		expect(metadata?.retry.attempts).toBe(1);
+		expect(isRetryableError({ name: "InternalServerError", $metadata: { httpStatusCode: 500 } })).toBe(true);
+	});
+});
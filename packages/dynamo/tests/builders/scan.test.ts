@@ -0,0 +1,130 @@
+import { PutCommand } from "@aws-sdk/lib-dynamodb";
+import { describe, expect, it } from "vitest";
+import type { Middleware } from "../../src/index.js";
+import { createMemoryTable, orderInput } from "../fixtures/memory-table.js";
+
+/** One order per customer, so that the orders spread over partitions */
+const addOrders = async (Order: ReturnType<typeof createMemoryTable>["OrderEntity"], count: number) => {
+	for (let id = 1; id <= count; id++) {
+		await Order.create()
+			.item(orderInput(`o${id}`, 10, id % 3 === 0 ? "PAID" : "OPEN", `c${id}`))
+			.exec();
+	}
+};
+
+const ids = (items: Array<{ orderId: string }>) => items.map((item) => item.orderId).sort();
+
+describe("Scan", () => {
+	it("should only return the entity's own items, filtered", async () => {
+		const { client, OrderEntity: Order, CustomerEntity: Customer } = createMemoryTable();
+		await addOrders(Order, 3);
+		await Customer.create()
+			.item({ pk: { customerId: "c1" }, sk: {}, name: "Ada" })
+			.exec();
+
+		const [all, error] = await Order.scan().exec();
+		const [paid] = await Order.scan().filter("status", "=", "PAID").exec();
+		const [customers] = await Customer.scan().exec();
+
+		expect(error).toBeNull();
+		expect(ids(all?.items ?? [])).toEqual(["o1", "o2", "o3"]);
+		expect(all?.scannedCount).toBe(client.items("memory-table").length);
+		expect(ids(paid?.items ?? [])).toEqual(["o3"]);
+		expect(customers?.items).toEqual([{ pk: "CUSTOMER#c1", sk: "PROFILE", name: "Ada" }]);
+	});
+
+	it("should return items written without the type attribute", async () => {
+		const { client, OrderEntity: Order } = createMemoryTable();
+		await addOrders(Order, 2);
+		await client.send(
+			new PutCommand({
+				TableName: "memory-table",
+				Item: {
+					pk: "CUSTOMER#c9",
+					sk: "ORDER#legacy",
+					orderId: "legacy",
+					total: 5,
+					status: "OPEN",
+					gsi1Pk: "STATUS#OPEN",
+					gsi1Sk: "ORDER#legacy",
+				},
+			}),
+		);
+
+		const [all, error] = await Order.scan().exec();
+		const [open] = await Order.scan().filter("status", "=", "OPEN").exec();
+
+		expect(error).toBeNull();
+		expect(ids(all?.items ?? [])).toEqual(["legacy", "o1", "o2"]);
+		expect(ids(open?.items ?? [])).toEqual(["legacy", "o1", "o2"]);
+	});
+
+	it("should page with limit and cursor, and iterate over every page", async () => {
+		const { OrderEntity: Order } = createMemoryTable();
+		await addOrders(Order, 5);
+
+		const [first] = await Order.scan().limit(2).exec();
+		const [second] = await Order.scan().limit(2).cursor(first?.cursor).exec();
+		const iterated: Array<{ orderId: string }> = [];
+		for await (const item of Order.scan().filter("status", "=", "OPEN").limit(3)) iterated.push(item);
+		const pages: number[] = [];
+		for await (const page of Order.scan().limit(4).pages()) pages.push(page.scannedCount ?? 0);
+
+		expect(first?.cursor).toBeDefined();
+		expect(first?.scannedCount).toBe(2);
+		expect(second?.scannedCount).toBe(2);
+		expect(new Set(ids([...(first?.items ?? []), ...(second?.items ?? [])])).size).toBe(
+			(first?.count ?? 0) + (second?.count ?? 0),
+		);
+		expect(ids(iterated)).toEqual(["o1", "o2", "o4", "o5"]);
+		expect(pages.reduce((acc, count) => acc + count, 0)).toBe(5);
+	});
+
+	it("should scan secondary indexes", async () => {
+		const { OrderEntity: Order, CustomerEntity: Customer } = createMemoryTable();
+		await addOrders(Order, 3);
+		await Customer.create()
+			.item({ pk: { customerId: "c1" }, sk: {}, name: "Ada" })
+			.exec();
+
+		const [indexed] = await Order.scan().index("byStatus").exec();
+
+		expect(ids(indexed?.items ?? [])).toEqual(["o1", "o2", "o3"]);
+		expect(indexed?.scannedCount).toBe(3);
+	});
+
+	it("should split parallel scans into disjoint segments read concurrently", async () => {
+		let inFlight = 0;
+		let maxInFlight = 0;
+		const track: Middleware = async (context, next) => {
+			if (context.operation !== "scan") return next();
+			maxInFlight = Math.max(maxInFlight, ++inFlight);
+			try {
+				return await next();
+			} finally {
+				inFlight--;
+			}
+		};
+		const { OrderEntity: Order } = createMemoryTable({ middleware: [track] });
+		await addOrders(Order, 12);
+
+		const segments = await Promise.all([0, 1, 2, 3].map((segment) => Order.scan().segment(segment, 4).exec()));
+		maxInFlight = 0;
+		const scanned: Array<{ orderId: string }> = [];
+		for await (const item of Order.scan().limit(1).parallel(4, { concurrency: 2 })) scanned.push(item);
+
+		const segmentIds = segments.flatMap(([page]) => ids(page?.items ?? []));
+		expect(segmentIds.sort()).toEqual(ids(scanned));
+		expect(new Set(segmentIds).size).toBe(12);
+		expect(segments.filter(([page]) => page?.items.length).length).toBeGreaterThan(1);
+		expect(maxInFlight).toBe(2);
+	});
+
+	it("should reject invalid segments and single reads of parallel scans", async () => {
+		const { OrderEntity: Order } = createMemoryTable();
+
+		expect(() => Order.scan().segment(4, 4)).toThrow("Segment 4 is not within the 4 segments of the scan");
+		expect(() => Order.scan().parallel(0)).toThrow("A parallel scan needs a positive number of segments");
+		await expect(Order.scan().parallel(4).exec()).rejects.toThrow("Parallel scans are read by iterating them");
+	});
+});
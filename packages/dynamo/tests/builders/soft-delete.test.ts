@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { Entity, InMemoryClient, type SoftDeleteConfig, Table, zdynamo } from "../../src/index.js";
+
+const createOrders = (softDelete: boolean | SoftDeleteConfig) => {
+	const client = new InMemoryClient();
+	const table = Table.connect("orders")
+		.client(client)
+		.gsis([{ alias: "byStatus", indexName: "gsi1", partitionKey: "gsi1Pk", sortKey: "gsi1Sk" }])
+		.build();
+	const Order = Entity.define("Order")
+		.table(table)
+		.schema(
+			{
+				pk: zdynamo.partitionKey("CUSTOMER#{customerId}", { customerId: z.string() }),
+				sk: zdynamo.sortKey("ORDER#{orderId}", { orderId: z.string() }),
+				gsi1Pk: zdynamo.gsiPartitionKey("STATUS#{status}", { status: z.string() }),
+				gsi1Sk: zdynamo.gsiSortKey("ORDER#{orderId}", { orderId: z.string() }),
+				total: z.number(),
+				deletedAt: z.date().optional(),
+				version: z.number().optional(),
+			},
+			{ softDelete, version: "version" },
+		);
+	return { client, Order };
+};
+
+const order = (orderId: string) => ({
+	pk: { customerId: "c1" },
+	sk: { orderId },
+	gsi1Pk: { status: "OPEN" },
+	gsi1Sk: { orderId },
+	total: 10,
+});
+const key = { customerId: "c1", orderId: "o1" };
+
+describe("Soft delete", () => {
+	it("should mark deleted items and hide them from reads unless asked", async () => {
+		const { client, Order } = createOrders(true);
+		await Order.create().item(order("o1")).exec();
+		await Order.create().item(order("o2")).exec();
+
+		const [deleted, error] = await Order.delete().key(key).exec();
+		expect(error).toBeNull();
+		expect(deleted?.deletedAt).toBeInstanceOf(Date);
+		expect(client.items("orders")).toHaveLength(2);
+
+		const [missing] = await Order.get().key(key).exec();
+		const [queried] = await Order.query().pk({ customerId: "c1" }).exec();
+		const [batch] = await Order.batchGet()
+			.keys([key, { customerId: "c1", orderId: "o2" }])
+			.exec();
+		expect(missing).toBeNull();
+		expect(queried?.items.map((item) => item.sk)).toEqual(["ORDER#o2"]);
+		expect(batch?.items).toHaveLength(1);
+
+		const [found] = await Order.get().key(key).withDeleted().exec();
+		const [all] = await Order.query().pk({ customerId: "c1" }).withDeleted().exec();
+		expect(found?.deletedAt).toBeInstanceOf(Date);
+		expect(all?.items).toHaveLength(2);
+	});
+
+	it("should treat missing and already deleted items as no-ops", async () => {
+		const { client, Order } = createOrders(true);
+		await Order.create().item(order("o1")).exec();
+		await Order.delete().key(key).exec();
+		const { deletedAt } = client.items("orders")[0] ?? {};
+
+		const [again, againError] = await Order.delete().key(key).exec();
+		const [absent, absentError] = await Order.delete().key({ customerId: "c1", orderId: "nope" }).exec();
+
+		expect([again, againError, absent, absentError]).toEqual([null, null, null, null]);
+		expect(client.items("orders")).toHaveLength(1);
+		expect(client.items("orders")[0]?.deletedAt).toBe(deletedAt);
+	});
+
+	it("should restore deleted items and purge them for good", async () => {
+		const { client, Order } = createOrders(true);
+		await Order.create().item(order("o1")).exec();
+		await Order.delete().key(key).exec();
+
+		const [restored] = await Order.restore().key(key).exec();
+		expect(restored).toMatchObject({ total: 10, version: 3 });
+		expect(restored?.deletedAt).toBeUndefined();
+		const [notDeleted] = await Order.restore().key(key).exec();
+		expect(notDeleted).toBeNull();
+
+		const [purged] = await Order.purge().key(key).exec();
+		expect(purged?.total).toBe(10);
+		expect(client.items("orders")).toHaveLength(0);
+	});
+
+	it("should move GSI keys aside so deleted items leave sparse indexes", async () => {
+		const { client, Order } = createOrders({ field: "removedAt", hideFromIndexes: true });
+		await Order.create().item(order("o1")).exec();
+
+		const [deleted] = await Order.delete().key(key).expectVersion(1).exec();
+		expect(deleted?.gsi1Pk).toEqual({ status: "OPEN" });
+		expect(client.items("orders")[0]).not.toHaveProperty("gsi1Pk");
+		const [indexed] = await Order.query().index("byStatus").pk({ status: "OPEN" }).withDeleted().exec();
+		expect(indexed?.items).toHaveLength(0);
+
+		await Order.restore().key(key).exec();
+		const [back] = await Order.query().index("byStatus").pk({ status: "OPEN" }).exec();
+		expect(back?.items).toHaveLength(1);
+		expect(client.items("orders")[0]).not.toHaveProperty("_skadiIndexKeys");
+	});
+
+	it("should soft delete within transactions", async () => {
+		const { client, Order } = createOrders(true);
+		await Order.create().item(order("o1")).exec();
+
+		const [result, error] = await Order.transaction().delete(key).put(order("o2")).exec();
+
+		expect(error).toBeNull();
+		expect(result?.success).toBe(true);
+		expect(client.items("orders")[0]?.deletedAt).toEqual(expect.any(String));
+	});
+
+	it("should reject restore on entities without soft delete", () => {
+		const { Order } = createOrders(false);
+		expect(() => Order.restore()).toThrow("Entity 'Order' does not use soft delete");
+	});
+});
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { Entity, InMemoryClient, Table, zdynamo } from "../../src/index.js";
+import { createMemoryTable } from "../fixtures/memory-table.js";
+
+const CREATED = new Date("2024-01-01T00:00:00.000Z");
+const UPDATED = new Date("2024-02-01T00:00:00.000Z");
+const key = { docId: "d1" };
+
+describe("Managed timestamps", () => {
+	beforeEach(() => {
+		vi.useFakeTimers({ toFake: ["Date"] });
+		vi.setSystemTime(CREATED);
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("should set createdAt once and refresh updatedAt on every write", async () => {
+		const { DocEntity: Doc, stored } = createMemoryTable({ timestamps: true, caseStyle: "snakeCase" });
+		const [created] = await Doc.create()
+			.item({ pk: key, sk: {}, title: "Draft", createdAt: new Date(0) })
+			.exec();
+		expect(created).toMatchObject({ createdAt: CREATED, updatedAt: CREATED });
+
+		vi.setSystemTime(UPDATED);
+		const [updated] = await Doc.update().key(key).set({ title: "Final", createdAt: UPDATED }).exec();
+
+		expect(updated).toMatchObject({ title: "Final", createdAt: CREATED, updatedAt: UPDATED });
+		expect(stored("Doc")[0]).toMatchObject({
+			created_at: CREATED.toISOString(),
+			updated_at: UPDATED.toISOString(),
+		});
+	});
+
+	it("should set createdAt on updates that create the item", async () => {
+		const { DocEntity: Doc } = createMemoryTable({ timestamps: true });
+
+		const [upserted] = await Doc.update().key(key).set({ title: "New" }).exec();
+
+		expect(upserted).toMatchObject({ createdAt: CREATED, updatedAt: CREATED });
+	});
+
+	it("should stamp transaction writes", async () => {
+		const { DocEntity: Doc, stored } = createMemoryTable({ timestamps: true });
+		await Doc.create().item({ pk: key, sk: {}, title: "Draft" }).exec();
+		vi.setSystemTime(UPDATED);
+
+		await Doc.transaction()
+			.update(key, { title: "Final" })
+			.put({ pk: { docId: "d2" }, sk: {}, title: "Other", createdAt: new Date(0) })
+			.exec();
+
+		const [first, second] = stored("Doc");
+		expect(first).toMatchObject({ createdAt: CREATED.toISOString(), updatedAt: UPDATED.toISOString() });
+		expect(second).toMatchObject({ createdAt: UPDATED.toISOString(), updatedAt: UPDATED.toISOString() });
+	});
+
+	it("should keep createdAt when a transaction put replaces an item", async () => {
+		const { DocEntity: Doc, stored } = createMemoryTable({ timestamps: true });
+		await Doc.create().item({ pk: key, sk: {}, title: "Draft" }).exec();
+		vi.setSystemTime(UPDATED);
+
+		const [result, error] = await Doc.transaction().put({ pk: key, sk: {}, title: "Final", createdAt: UPDATED }).exec();
+
+		expect(error).toBeNull();
+		expect(result?.success).toBe(true);
+		expect(stored("Doc")[0]).toMatchObject({
+			title: "Final",
+			createdAt: CREATED.toISOString(),
+			updatedAt: UPDATED.toISOString(),
+		});
+	});
+
+	it("should support custom names and epoch milliseconds", async () => {
+		const client = new InMemoryClient();
+		const table = Table.connect("events")
+			.client(client)
+			.timestamps({ createdAt: false, updatedAt: "modifiedAt", format: "epoch" })
+			.build();
+		const Event = Entity.define("Event")
+			.table(table)
+			.schema({
+				pk: zdynamo.partitionKey("EVENT#{eventId}", { eventId: z.string() }),
+				sk: zdynamo.sortKey("V", {}),
+				modifiedAt: z.date().optional(),
+			});
+
+		await Event.create()
+			.item({ pk: { eventId: "e1" }, sk: {} })
+			.exec();
+
+		expect(client.items("events")[0]).toEqual({
+			pk: "EVENT#e1",
+			sk: "V",
+			modifiedAt: CREATED.getTime(),
+			_et: "Event",
+		});
+		const [event] = await Event.get().key({ eventId: "e1" }).exec();
+		expect(event?.modifiedAt).toEqual(CREATED);
+	});
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { Entity, InMemoryClient, Table, zdynamo } from "../../src/index.js";
+
+const createSessions = (client = new InMemoryClient()) => {
+	const table = Table.connect("sessions").client(client).ttl("expiresAt").build();
+	const Session = Entity.define("Session")
+		.table(table)
+		.schema({
+			pk: zdynamo.partitionKey("USER#{userId}", { userId: z.string() }),
+			sk: zdynamo.sortKey("SESSION#{sessionId}", { sessionId: z.string() }),
+			expiresAt: zdynamo.ttl().optional(),
+		});
+	return { client, table, Session };
+};
+
+const HOUR = 60 * 60 * 1000;
+
+const session = (sessionId: string, expiresAt?: Date) => ({
+	pk: { userId: "u1" },
+	sk: { sessionId },
+	expiresAt,
+});
+
+describe("TTL", () => {
+	it("should store TTL fields as epoch seconds and read them back as dates", async () => {
+		const { client, Session } = createSessions();
+		const expiresAt = new Date("2030-01-01T00:00:00.000Z");
+		await Session.create().item(session("s1", expiresAt)).exec();
+
+		expect(client.items("sessions")[0]?.expiresAt).toBe(expiresAt.getTime() / 1000);
+		const [result] = await Session.get().key({ userId: "u1", sessionId: "s1" }).exec();
+		expect(result?.expiresAt).toEqual(expiresAt);
+
+		const later = new Date("2031-01-01T00:00:00.000Z");
+		await Session.update().key({ userId: "u1", sessionId: "s1" }).set({ expiresAt: later }).exec();
+		expect(client.items("sessions")[0]?.expiresAt).toBe(later.getTime() / 1000);
+	});
+
+	it("should exclude expired items from get, query and batchGet on request", async () => {
+		const { Session } = createSessions();
+		await Session.create()
+			.item(session("expired", new Date(Date.now() - HOUR)))
+			.exec();
+		await Session.create()
+			.item(session("active", new Date(Date.now() + HOUR)))
+			.exec();
+		await Session.create().item(session("forever")).exec();
+		const expiredKey = { userId: "u1", sessionId: "expired" };
+
+		const [stale] = await Session.get().key(expiredKey).exec();
+		expect(stale).not.toBeNull();
+		const [fresh] = await Session.get().key(expiredKey).excludeExpired().exec();
+		expect(fresh).toBeNull();
+
+		const [queried] = await Session.query().pk({ userId: "u1" }).excludeExpired().exec();
+		expect(queried?.items.map((item) => item.sk)).toEqual(["SESSION#active", "SESSION#forever"]);
+
+		const [batch] = await Session.batchGet()
+			.keys([expiredKey, { userId: "u1", sessionId: "active" }])
+			.excludeExpired()
+			.exec();
+		expect(batch?.items.map((item) => item.sk)).toEqual(["SESSION#active"]);
+	});
+
+	it("should reject excludeExpired on tables without a TTL attribute", () => {
+		const table = Table.connect("plain").client(new InMemoryClient()).build();
+		const Plain = Entity.define("Plain")
+			.table(table)
+			.schema({
+				pk: zdynamo.partitionKey("ID#{id}", { id: z.string() }),
+				sk: zdynamo.sortKey("PLAIN", {}),
+			});
+
+		expect(() => Plain.get().key({ id: "1" }).excludeExpired()).toThrow("Table 'plain' has no TTL attribute");
+	});
+
+	it("should enable TTL through ensureTable and report its drift", async () => {
+		const client = new InMemoryClient({ autoCreateTables: false });
+		const { table } = createSessions(client);
+
+		const [created] = await table.ensureTable();
+		expect(created?.applied.map((drift) => drift.type)).toEqual(["TABLE_MISSING", "TTL_DISABLED"]);
+		expect((await table.diff())[0]?.inSync).toBe(true);
+
+		client.defineTable({ tableName: "sessions", partitionKey: "pk", sortKey: "sk" });
+		const [diff] = await table.diff();
+		expect(diff?.drifts).toMatchObject([{ type: "TTL_DISABLED", expected: "expiresAt" }]);
+		const [result] = await table.ensureTable();
+		expect(result?.applied).toMatchObject([{ type: "TTL_DISABLED" }]);
+
+		client.defineTable({ tableName: "sessions", partitionKey: "pk", sortKey: "sk", ttlAttribute: "ttl" });
+		const [mismatch] = await table.ensureTable();
+		expect(mismatch?.pending).toMatchObject([{ type: "TTL_MISMATCH", expected: "expiresAt", actual: "ttl" }]);
+	});
+});
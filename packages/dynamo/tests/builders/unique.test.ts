@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { UniqueConstraintError } from "../../src/index.js";
+import { createMemoryTable, userInput as user } from "../fixtures/memory-table.js";
+
+describe("Unique constraints", () => {
+	it("should reserve unique values on create and reject duplicates", async () => {
+		const { client, UserEntity: User, sentinels } = createMemoryTable();
+		const [created] = await User.create().item(user("u1", "ada@example.com")).exec();
+		// Writing the same item again keeps its own value
+		const [rewritten] = await User.put().item(user("u1", "ada@example.com")).exec();
+		const [, error] = await User.create().item(user("u2", "ada@example.com")).exec();
+
+		expect(created?.email).toBe("ada@example.com");
+		expect(rewritten?.email).toBe("ada@example.com");
+		expect(error).toBeInstanceOf(UniqueConstraintError);
+		expect(error).toMatchObject({ code: "UNIQUE_CONSTRAINT_VIOLATION", field: "email", value: "ada@example.com" });
+		expect(sentinels()).toEqual(["UNIQUE#User#email#ada@example.com"]);
+		expect(client.items("memory-table")).toHaveLength(2);
+	});
+
+	it("should swap the sentinels of changed values on update", async () => {
+		const { UserEntity: User, sentinels } = createMemoryTable();
+		await User.create().item(user("u1", "ada@example.com")).exec();
+		await User.create().item(user("u2", "alan@example.com")).exec();
+
+		const [, taken] = await User.update().key({ userId: "u2" }).set({ email: "ada@example.com" }).exec();
+		const [updated] = await User.update().key({ userId: "u1" }).set({ email: "countess@example.com" }).exec();
+		const [renamed] = await User.update().key({ userId: "u1" }).set({ name: "Ada" }).exec();
+		// The released value is free again
+		const [, freed] = await User.update().key({ userId: "u2" }).set({ email: "ada@example.com" }).exec();
+
+		expect(taken).toMatchObject({ code: "UNIQUE_CONSTRAINT_VIOLATION", field: "email" });
+		expect(updated).toMatchObject({ email: "countess@example.com", name: "u1" });
+		expect(renamed).toMatchObject({ email: "countess@example.com", name: "Ada" });
+		expect(freed).toBeNull();
+		expect(sentinels().sort()).toEqual(["UNIQUE#User#email#ada@example.com", "UNIQUE#User#email#countess@example.com"]);
+	});
+
+	it("should release unique values on delete", async () => {
+		const { UserEntity: User, sentinels } = createMemoryTable();
+		await User.create().item(user("u1", "ada@example.com")).exec();
+
+		const [deleted] = await User.delete().key({ userId: "u1" }).exec();
+		const [recreated, error] = await User.create().item(user("u2", "ada@example.com")).exec();
+
+		expect(deleted?.email).toBe("ada@example.com");
+		expect(error).toBeNull();
+		expect(recreated?.pk).toBe("USER#u2");
+		expect(sentinels()).toHaveLength(1);
+	});
+
+	it("should check unique values in transactions", async () => {
+		const { UserEntity: User, stored } = createMemoryTable();
+		await User.create().item(user("u1", "ada@example.com")).exec();
+
+		const [, error] = await User.transaction()
+			.put(user("u2", "alan@example.com"))
+			.put(user("u3", "ada@example.com"))
+			.exec();
+		const [result] = await User.transaction()
+			.update({ userId: "u1" }, { email: "countess@example.com" })
+			.put(user("u2", "alan@example.com"))
+			.exec();
+
+		expect(error).toMatchObject({ code: "UNIQUE_CONSTRAINT_VIOLATION", field: "email", value: "ada@example.com" });
+		expect(result?.success).toBe(true);
+		expect(stored("User")).toHaveLength(2);
+	});
+
+	it("should release the replaced values on transaction puts", async () => {
+		const { UserEntity: User, sentinels } = createMemoryTable();
+		await User.create().item(user("u1", "ada@example.com")).exec();
+
+		const [replaced, error] = await User.transaction().put(user("u1", "countess@example.com")).exec();
+		const [reused, reuseError] = await User.create().item(user("u2", "ada@example.com")).exec();
+
+		expect(error).toBeNull();
+		expect(replaced?.success).toBe(true);
+		expect(reuseError).toBeNull();
+		expect(reused?.email).toBe("ada@example.com");
+		expect(sentinels().sort()).toEqual(["UNIQUE#User#email#ada@example.com", "UNIQUE#User#email#countess@example.com"]);
+	});
+});
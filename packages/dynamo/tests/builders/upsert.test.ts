@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import {
+	ConditionalCheckFailedError,
+	Entity,
+	InMemoryClient,
+	ItemAlreadyExistsError,
+	Table,
+	VersionConflictError,
+	zdynamo,
+} from "../../src/index.js";
+import { createMemoryTable, profileInput } from "../fixtures/memory-table.js";
+
+const CREATED = new Date("2024-01-01T00:00:00.000Z");
+const UPDATED = new Date("2024-02-01T00:00:00.000Z");
+const profile = (email: string, fields: { name?: string; bio?: string } = {}) =>
+	profileInput("u1", { email, ...fields });
+
+describe("Create, put and upsert", () => {
+	beforeEach(() => {
+		vi.useFakeTimers({ toFake: ["Date"] });
+		vi.setSystemTime(CREATED);
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("should only create items that do not exist", async () => {
+		const { ProfileEntity: Profile, stored } = createMemoryTable({ timestamps: true });
+		await Profile.create().item(profile("ada@example.com")).exec();
+
+		const [created, error] = await Profile.create()
+			.item(profile("countess@example.com", { name: "Other" }))
+			.exec();
+
+		expect(created).toBeNull();
+		expect(error).toBeInstanceOf(ItemAlreadyExistsError);
+		expect(error).toBeInstanceOf(ConditionalCheckFailedError);
+		expect(error).toMatchObject({ code: "ITEM_ALREADY_EXISTS", item: { name: "Ada" } });
+		expect(stored("Profile")[0]?.name).toBe("Ada");
+		expect(stored("UNIQUE").map((item) => item.pk)).toEqual(["UNIQUE#Profile#email#ada@example.com"]);
+	});
+
+	it("should report existing items on single puts, unless the caller's condition failed", async () => {
+		const table = Table.connect("notes").client(new InMemoryClient()).build();
+		const Note = Entity.define("Note")
+			.table(table)
+			.schema({ pk: zdynamo.partitionKey("NOTE#{noteId}", { noteId: z.string() }), sk: zdynamo.sortKey("N", {}) });
+		const note = { pk: { noteId: "n1" }, sk: {} };
+
+		const [, conditionFailed] = await Note.create().item(note).condition("attribute_exists(pk)").exec();
+		await Note.create().item(note).exec();
+		const [, exists] = await Note.create().item(note).exec();
+
+		expect(conditionFailed?.code).toBe("CONDITIONAL_CHECK_FAILED");
+		expect(exists).toMatchObject({ code: "ITEM_ALREADY_EXISTS", item: { pk: "NOTE#n1" } });
+	});
+
+	it("should overwrite items with put and move their unique values", async () => {
+		const { ProfileEntity: Profile, stored } = createMemoryTable({ timestamps: true });
+		await Profile.create()
+			.item(profile("ada@example.com", { bio: "Mathematician" }))
+			.exec();
+
+		const [replaced, error] = await Profile.put().item(profile("countess@example.com")).exec();
+		const [read] = await Profile.get().key({ userId: "u1" }).exec();
+
+		expect(error).toBeNull();
+		expect(replaced).toMatchObject({ email: "countess@example.com", version: 2 });
+		expect(read?.bio).toBeUndefined();
+		expect(stored("UNIQUE").map((item) => item.pk)).toEqual(["UNIQUE#Profile#email#countess@example.com"]);
+	});
+
+	it("should keep createdAt and move the version on when put replaces an item", async () => {
+		const { ProfileEntity: Profile } = createMemoryTable({ timestamps: true });
+		await Profile.create().item(profile("ada@example.com")).exec();
+		await Profile.update().key({ userId: "u1" }).set({ bio: "Mathematician" }).exec();
+		vi.setSystemTime(UPDATED);
+
+		const [replaced, error] = await Profile.put()
+			.item(profile("ada@example.com", { name: "Ada Lovelace" }))
+			.exec();
+		const [, stale] = await Profile.update().key({ userId: "u1" }).set({ name: "Stale" }).expectVersion(1).exec();
+
+		expect(error).toBeNull();
+		expect(replaced).toMatchObject({ name: "Ada Lovelace", version: 3, createdAt: CREATED, updatedAt: UPDATED });
+		expect(stale).toBeInstanceOf(VersionConflictError);
+		expect(stale).toMatchObject({ expectedVersion: 1, currentVersion: 3 });
+	});
+
+	it("should only replace items at the version put expects", async () => {
+		const { ProfileEntity: Profile, stored } = createMemoryTable({ timestamps: true });
+		await Profile.create().item(profile("ada@example.com")).exec();
+		await Profile.update().key({ userId: "u1" }).set({ bio: "Mathematician" }).exec();
+
+		const [, stale] = await Profile.put().item(profile("ada@example.com")).expectVersion(1).exec();
+		const [, staleUnique] = await Profile.put().item(profile("countess@example.com")).expectVersion(1).exec();
+		const [replaced, error] = await Profile.put().item(profile("countess@example.com")).expectVersion(2).exec();
+		const [, missing] = await Profile.put().item(profileInput("u2")).expectVersion(1).exec();
+
+		expect(stale).toMatchObject({ code: "VERSION_CONFLICT", expectedVersion: 1, currentVersion: 2 });
+		expect(staleUnique).toMatchObject({ code: "VERSION_CONFLICT", expectedVersion: 1, currentVersion: 2 });
+		expect(error).toBeNull();
+		expect(replaced).toMatchObject({ email: "countess@example.com", version: 3 });
+		expect(missing).toMatchObject({ code: "VERSION_CONFLICT", currentVersion: undefined });
+		expect(stored("Profile")).toHaveLength(1);
+		expect(stored("UNIQUE").map((item) => item.pk)).toEqual(["UNIQUE#Profile#email#countess@example.com"]);
+	});
+
+	it("should merge items with upsert, keeping createdAt and the fields left out", async () => {
+		const { ProfileEntity: Profile, stored } = createMemoryTable({ timestamps: true });
+		const [inserted] = await Profile.upsert()
+			.item(profile("ada@example.com", { bio: "Mathematician" }))
+			.exec();
+		vi.setSystemTime(UPDATED);
+
+		const [merged, error] = await Profile.upsert()
+			.item(profile("ada@example.com", { name: "Ada Lovelace" }))
+			.exec();
+
+		expect(inserted).toMatchObject({ version: 1, createdAt: CREATED, updatedAt: CREATED });
+		expect(error).toBeNull();
+		expect(merged).toMatchObject({
+			name: "Ada Lovelace",
+			bio: "Mathematician",
+			version: 2,
+			createdAt: CREATED,
+			updatedAt: UPDATED,
+		});
+		expect(stored("Profile")[0]?._sv).toBe(1);
+	});
+
+	it("should only fill in schema defaults the stored item lacks on upsert", async () => {
+		const { DocEntity: Doc } = createMemoryTable();
+		await Doc.upsert()
+			.item({ pk: { docId: "d1" }, sk: {}, title: "Draft" })
+			.exec();
+		vi.setSystemTime(UPDATED);
+
+		const [merged, error] = await Doc.upsert()
+			.item({ pk: { docId: "d1" }, sk: {}, title: "Final", updatedAt: UPDATED })
+			.exec();
+
+		expect(error).toBeNull();
+		expect(merged).toMatchObject({ title: "Final", createdAt: CREATED, updatedAt: UPDATED });
+	});
+
+	it("should validate items the same way on every write", () => {
+		const { ProfileEntity: Profile } = createMemoryTable({ timestamps: true });
+		const invalid = profile("not-an-email");
+
+		expect(() => Profile.create().item(invalid)).toThrow();
+		expect(() => Profile.put().item(invalid)).toThrow();
+		expect(() => Profile.upsert().item(invalid)).toThrow();
+	});
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { VersionConflictError } from "../../src/index.js";
+import { createMemoryTable } from "../fixtures/memory-table.js";
+
+const key = { accountId: "a1" };
+const account = { pk: key, sk: {}, balance: 100 };
+
+describe("Optimistic locking", () => {
+	it("should initialize the version on create and increment it on every update", async () => {
+		const { AccountEntity: Account } = createMemoryTable();
+		const [created] = await Account.create()
+			.item({ ...account, version: 7 })
+			.exec();
+		expect(created?.version).toBe(1);
+
+		const [first] = await Account.update().key(key).set({ balance: 90 }).expectVersion(1).exec();
+		const [second, conflict] = await Account.update().key(key).set({ balance: 80, version: 99 }).exec();
+
+		expect(first?.version).toBe(2);
+		expect(second).toBeNull();
+		expect(conflict).toBeInstanceOf(VersionConflictError);
+		expect(conflict).toMatchObject({ expectedVersion: 99, currentVersion: 2 });
+	});
+
+	it("should expect the version supplied with the updates", async () => {
+		const { AccountEntity: Account, stored } = createMemoryTable();
+		await Account.create().item(account).exec();
+		await Account.update().key(key).set({ balance: 90 }).exec();
+
+		const [, stale] = await Account.update().key(key).set({ balance: 70, version: 1 }).exec();
+		const [current] = await Account.update().key(key).set({ balance: 80, version: 2 }).exec();
+		const [, staleTransaction] = await Account.transaction().update(key, { balance: 60, version: 1 }).exec();
+
+		expect(stale).toMatchObject({ code: "VERSION_CONFLICT", expectedVersion: 1, currentVersion: 2 });
+		expect(current).toMatchObject({ balance: 80, version: 3 });
+		expect(staleTransaction).toMatchObject({ code: "VERSION_CONFLICT", expectedVersion: 1, currentVersion: 3 });
+		expect(stored("Account")[0]).toMatchObject({ balance: 80, version: 3 });
+	});
+
+	it("should reject stale updates and deletes with the current version", async () => {
+		const { AccountEntity: Account, stored } = createMemoryTable();
+		await Account.create().item(account).exec();
+		await Account.update().key(key).set({ balance: 50 }).expectVersion(1).exec();
+
+		const [, stale] = await Account.update().key(key).set({ balance: 0 }).expectVersion(1).exec();
+		expect(stale).toBeInstanceOf(VersionConflictError);
+		expect(stale).toMatchObject({ code: "VERSION_CONFLICT", expectedVersion: 1, currentVersion: 2 });
+
+		const [, staleDelete] = await Account.delete().key(key).expectVersion(1).exec();
+		expect(staleDelete).toMatchObject({ code: "VERSION_CONFLICT", currentVersion: 2 });
+		expect(stored("Account")[0]).toMatchObject({ balance: 50, version: 2 });
+
+		const [deleted] = await Account.delete().key(key).expectVersion(2).exec();
+		expect(deleted?.balance).toBe(50);
+
+		const [, missing] = await Account.update().key(key).set({ balance: 1 }).expectVersion(2).exec();
+		expect(missing).toMatchObject({ code: "VERSION_CONFLICT", currentVersion: undefined });
+	});
+
+	it("should keep other condition failures distinct", async () => {
+		const { AccountEntity: Account } = createMemoryTable();
+		await Account.create().item(account).exec();
+
+		const [, error] = await Account.update()
+			.key(key)
+			.set({ balance: 0 })
+			.condition("attribute_not_exists(pk)")
+			.expectVersion(1)
+			.exec();
+
+		expect(error?.code).toBe("CONDITIONAL_CHECK_FAILED");
+	});
+
+	it("should check versions in transactions", async () => {
+		const { AccountEntity: Account, stored } = createMemoryTable();
+		await Account.create().item(account).exec();
+
+		const [, conflict] = await Account.transaction()
+			.put({ pk: { accountId: "a2" }, sk: {}, balance: 1 })
+			.update(key, { balance: 10 }, { expectedVersion: 3 })
+			.exec();
+		expect(conflict).toMatchObject({ code: "VERSION_CONFLICT", expectedVersion: 3, currentVersion: 1 });
+		expect(stored("Account")).toHaveLength(1);
+
+		const [result] = await Account.transaction()
+			.put({ pk: { accountId: "a2" }, sk: {}, balance: 1 })
+			.update(key, { balance: 10 }, { expectedVersion: 1 })
+			.exec();
+		expect(result?.success).toBe(true);
+		expect(stored("Account").map((item) => item.version)).toEqual([2, 1]);
+	});
+
+	it("should move the version on when a transaction put replaces an item", async () => {
+		const { AccountEntity: Account, stored } = createMemoryTable();
+		await Account.create().item(account).exec();
+		await Account.update().key(key).set({ balance: 90 }).exec();
+
+		await Account.transaction()
+			.put({ ...account, balance: 80 })
+			.exec();
+		const [, stale] = await Account.update().key(key).set({ balance: 0 }).expectVersion(2).exec();
+		const [, conflict] = await Account.transaction().put(account, { expectedVersion: 2 }).exec();
+		const [checked] = await Account.transaction().put(account, { expectedVersion: 3 }).exec();
+
+		expect(stale).toMatchObject({ code: "VERSION_CONFLICT", expectedVersion: 2, currentVersion: 3 });
+		expect(conflict).toMatchObject({ code: "VERSION_CONFLICT", expectedVersion: 2, currentVersion: 3 });
+		expect(checked?.success).toBe(true);
+		expect(stored("Account")[0]).toMatchObject({ balance: 100, version: 4 });
+	});
+});
@@ -0,0 +1,175 @@
+import { GetCommand, PutCommand, TransactWriteCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import { beforeEach, describe, expect, it } from "vitest";
+import { createMemoryTable, orderInput } from "../fixtures/memory-table.js";
+
+describe("InMemoryClient", () => {
+	let ctx: ReturnType<typeof createMemoryTable>;
+
+	beforeEach(() => {
+		ctx = createMemoryTable();
+	});
+
+	it("should round-trip items through the entity builders", async () => {
+		const { OrderEntity } = ctx;
+		const [created, createError] = await OrderEntity.create().item(orderInput("o1", 25)).exec();
+		expect(createError).toBeNull();
+		expect(created?.pk).toBe("CUSTOMER#c1");
+
+		const [found] = await OrderEntity.get().key({ customerId: "c1", orderId: "o1" }).exec();
+		expect(found?.total).toBe(25);
+
+		const [updated] = await OrderEntity.update().key({ customerId: "c1", orderId: "o1" }).set({ total: 30 }).exec();
+		expect(updated?.total).toBe(30);
+
+		await OrderEntity.delete().key({ customerId: "c1", orderId: "o1" }).exec();
+		const [missing] = await OrderEntity.get().key({ customerId: "c1", orderId: "o1" }).exec();
+		expect(missing).toBeNull();
+	});
+
+	it("should enforce condition expressions", async () => {
+		const { OrderEntity } = ctx;
+		await OrderEntity.create().item(orderInput("o1")).exec();
+		const [, error] = await OrderEntity.put().item(orderInput("o1")).condition("attribute_not_exists(pk)").exec();
+		expect(error?.cause).toMatchObject({ cause: { name: "ConditionalCheckFailedException" } });
+	});
+
+	it("should evaluate update expressions", async () => {
+		const { client } = ctx;
+		await client.send(new PutCommand({ TableName: "memory-table", Item: { pk: "A", sk: "B", count: 1, tags: ["x"] } }));
+		const output = await client.send(
+			new UpdateCommand({
+				TableName: "memory-table",
+				Key: { pk: "A", sk: "B" },
+				UpdateExpression:
+					"SET #count = #count + :one, #tags = list_append(#tags, :more), #seen = if_not_exists(#seen, :now) REMOVE #gone ADD #visits :one",
+				ExpressionAttributeNames: {
+					"#count": "count",
+					"#tags": "tags",
+					"#seen": "seen",
+					"#gone": "gone",
+					"#visits": "visits",
+				},
+				ExpressionAttributeValues: { ":one": 1, ":more": ["y"], ":now": "today" },
+				ReturnValues: "ALL_NEW",
+			}),
+		);
+		expect(output.Attributes).toEqual({ pk: "A", sk: "B", count: 2, tags: ["x", "y"], seen: "today", visits: 1 });
+	});
+
+	it("should reject unused expression attribute names", async () => {
+		const { client } = ctx;
+		await expect(
+			client.send(
+				new GetCommand({
+					TableName: "memory-table",
+					Key: { pk: "A", sk: "B" },
+					ExpressionAttributeNames: { "#x": "x" },
+				}),
+			),
+		).rejects.toMatchObject({ name: "ValidationException" });
+	});
+
+	it("should query with key conditions, filters and pagination", async () => {
+		const { OrderEntity } = ctx;
+		for (const [id, total] of [
+			["o1", 5],
+			["o2", 50],
+			["o3", 15],
+			["o4", 40],
+		] as const) {
+			await OrderEntity.create().item(orderInput(id, total)).exec();
+		}
+
+		const [firstPage] = await OrderEntity.query().pk({ customerId: "c1" }).sk("begins_with", "ORDER#").limit(2).exec();
+		expect(firstPage?.items.map((o) => o.orderId)).toEqual(["o1", "o2"]);
+		expect(firstPage?.cursor).toEqual({ pk: "CUSTOMER#c1", sk: "ORDER#o2" });
+
+		const [secondPage] = await OrderEntity.query().pk({ customerId: "c1" }).limit(2).cursor(firstPage?.cursor).exec();
+		expect(secondPage?.items.map((o) => o.orderId)).toEqual(["o3", "o4"]);
+
+		const [filtered] = await OrderEntity.query()
+			.pk({ customerId: "c1" })
+			.filter("total", ">", 10)
+			.sortBy("DESC")
+			.exec();
+		expect(filtered?.items.map((o) => o.orderId)).toEqual(["o4", "o3", "o2"]);
+		expect(filtered?.scannedCount).toBe(4);
+	});
+
+	it("should query global secondary indexes", async () => {
+		const { OrderEntity } = ctx;
+		await OrderEntity.create()
+			.item(orderInput("o1", 10, "PAID"))
+			.exec();
+		await OrderEntity.create()
+			.item(orderInput("o2", 10, "OPEN"))
+			.exec();
+		await OrderEntity.create()
+			.item(orderInput("o3", 10, "PAID"))
+			.exec();
+
+		const [paid] = await OrderEntity.query().index("byStatus").pk({ status: "PAID" }).exec();
+		expect(paid?.items.map((o) => o.orderId)).toEqual(["o1", "o3"]);
+	});
+
+	it("should batch get existing items", async () => {
+		const { OrderEntity } = ctx;
+		await OrderEntity.create().item(orderInput("o1")).exec();
+		const [result] = await OrderEntity.batchGet()
+			.keys([
+				{ customerId: "c1", orderId: "o1" },
+				{ customerId: "c1", orderId: "missing" },
+			])
+			.exec();
+		expect(result?.items.map((o) => o.orderId)).toEqual(["o1"]);
+	});
+
+	it("should apply transactions atomically", async () => {
+		const { client, OrderEntity } = ctx;
+		await OrderEntity.create().item(orderInput("o1")).exec();
+
+		const [, error] = await OrderEntity.transaction()
+			.put(orderInput("o2"))
+			.update({ customerId: "c1", orderId: "missing" }, { total: 1 })
+			.delete({ customerId: "c1", orderId: "o1" })
+			.exec();
+		expect(error).toBeNull();
+		expect(client.items("memory-table").map((item) => item.sk)).toEqual(["ORDER#o2", "ORDER#missing"]);
+
+		await expect(
+			client.send(
+				new UpdateCommand({
+					TableName: "memory-table",
+					Key: { pk: "CUSTOMER#c1", sk: "ORDER#o2" },
+					UpdateExpression: "SET #pk = :pk",
+					ExpressionAttributeNames: { "#pk": "pk" },
+					ExpressionAttributeValues: { ":pk": "other" },
+				}),
+			),
+		).rejects.toMatchObject({ name: "ValidationException" });
+	});
+
+	it("should cancel the whole transaction when a condition fails", async () => {
+		const { client } = ctx;
+		await expect(
+			client.send(
+				new TransactWriteCommand({
+					TransactItems: [
+						{ Put: { TableName: "memory-table", Item: { pk: "A", sk: "1" } } },
+						{
+							Put: {
+								TableName: "memory-table",
+								Item: { pk: "A", sk: "2" },
+								ConditionExpression: "attribute_exists(pk)",
+							},
+						},
+					],
+				}),
+			),
+		).rejects.toMatchObject({
+			name: "TransactionCanceledException",
+			CancellationReasons: [{ Code: "None" }, { Code: "ConditionalCheckFailed" }],
+		});
+		expect(client.items("memory-table")).toEqual([]);
+	});
+});
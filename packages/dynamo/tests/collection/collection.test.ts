@@ -0,0 +1,95 @@
+import { PutCommand } from "@aws-sdk/lib-dynamodb";
+import { describe, expect, expectTypeOf, it } from "vitest";
+import { z } from "zod";
+import { Collection, Entity, InMemoryClient, Table, zdynamo } from "../../src/index.js";
+
+const createCollection = () => {
+	const client = new InMemoryClient();
+	const table = Table.connect("app").client(client).build();
+	const User = Entity.define("User")
+		.table(table)
+		.schema({
+			pk: zdynamo.partitionKey("USER#{userId}", { userId: z.string() }),
+			sk: zdynamo.sortKey("PROFILE", {}),
+			name: z.string(),
+		});
+	const Account = Entity.define("Account")
+		.table(table)
+		.schema(
+			{
+				pk: zdynamo.partitionKey("USER#{userId}", { userId: z.string() }),
+				sk: zdynamo.sortKey("ACCOUNT#{accountId}", { accountId: z.string() }),
+				balance: z.number(),
+			},
+			{ softDelete: true },
+		);
+	const Note = Entity.define("Note")
+		.table(table)
+		.schema({
+			pk: zdynamo.partitionKey("USER#{userId}", { userId: z.string() }),
+			sk: zdynamo.sortKey("NOTE#{noteId}", { noteId: z.string() }),
+			text: z.string(),
+		});
+	const UserAccounts = Collection.define("UserAccounts").entities({ user: User, accounts: Account });
+	return { client, User, Account, Note, UserAccounts };
+};
+
+describe("Collections", () => {
+	it("should read a partition in one query and group the items by entity", async () => {
+		const { client, User, Account, Note, UserAccounts } = createCollection();
+		await User.create()
+			.item({ pk: { userId: "u1" }, sk: {}, name: "Ada" })
+			.exec();
+		for (const accountId of ["a1", "a2", "a3"]) {
+			await Account.create()
+				.item({ pk: { userId: "u1" }, sk: { accountId }, balance: 10 })
+				.exec();
+		}
+		await Account.delete().key({ userId: "u1", accountId: "a3" }).exec();
+		await Note.create()
+			.item({ pk: { userId: "u1" }, sk: { noteId: "n1" }, text: "Not in the collection" })
+			.exec();
+		// Written before the entity type attribute existed
+		await client.send(new PutCommand({ TableName: "app", Item: { pk: "USER#u2", sk: "PROFILE", name: "Alan" } }));
+
+		const [result, error, metadata] = await UserAccounts.query().pk({ userId: "u1" }).exec();
+		const [legacy] = await UserAccounts.query().pk({ userId: "u2" }).exec();
+
+		expect(error).toBeNull();
+		expect(metadata?.retry.attempts).toBe(1);
+		expect(result?.items.user).toEqual([{ pk: "USER#u1", sk: "PROFILE", name: "Ada" }]);
+		expect(result?.items.accounts.map((account) => account.sk)).toEqual(["ACCOUNT#a1", "ACCOUNT#a2"]);
+		expect(result?.count).toBe(3);
+		expect(legacy?.items.user[0]?.name).toBe("Alan");
+		expectTypeOf(result?.items.accounts[0]?.balance).toEqualTypeOf<number | undefined>();
+	});
+
+	it("should narrow the query with a sort key condition", async () => {
+		const { User, Account, UserAccounts } = createCollection();
+		await User.create()
+			.item({ pk: { userId: "u1" }, sk: {}, name: "Ada" })
+			.exec();
+		await Account.create()
+			.item({ pk: { userId: "u1" }, sk: { accountId: "a1" }, balance: 10 })
+			.exec();
+
+		const [result] = await UserAccounts.query().pk({ userId: "u1" }).sk("begins_with", "ACCOUNT#").exec();
+
+		expect(result?.items.user).toEqual([]);
+		expect(result?.items.accounts).toHaveLength(1);
+	});
+
+	it("should reject entities of different tables", () => {
+		const { User } = createCollection();
+		const Other = Entity.define("Other")
+			.table(Table.connect("other").client(new InMemoryClient()).build())
+			.schema({
+				pk: zdynamo.partitionKey("USER#{userId}", { userId: z.string() }),
+				sk: zdynamo.sortKey("OTHER", {}),
+			});
+
+		expect(() => Collection.define("Mixed").entities({ user: User, other: Other })).toThrow(
+			"Collection Mixed: Entity Other is on table 'other', not 'app'",
+		);
+	});
+});
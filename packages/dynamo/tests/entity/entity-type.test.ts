@@ -0,0 +1,76 @@
+import { PutCommand } from "@aws-sdk/lib-dynamodb";
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { Entity, InMemoryClient, Table, zdynamo } from "../../src/index.js";
+
+const createEntities = (configure: (table: ReturnType<typeof Table.connect>) => ReturnType<typeof Table.connect>) => {
+	const client = new InMemoryClient();
+	const table = configure(Table.connect("single-table").client(client)).build();
+	const User = Entity.define("User")
+		.table(table)
+		.schema({
+			pk: zdynamo.partitionKey("USER#{userId}", { userId: z.string() }),
+			sk: zdynamo.sortKey("PROFILE#{profileId}", { profileId: z.string() }),
+			name: z.string(),
+		});
+	// Accounts live in the user's partition under a sort key User's template also matches
+	const Account = Entity.define("Account")
+		.table(table)
+		.schema({
+			pk: zdynamo.partitionKey("USER#{userId}", { userId: z.string() }),
+			sk: zdynamo.sortKey("PROFILE#{accountId}", { accountId: z.string() }),
+			balance: z.number(),
+		});
+	return { client, User, Account };
+};
+
+describe("Entity type attribute", () => {
+	it("should store the entity name and skip items of other entities on reads", async () => {
+		const { client, User, Account } = createEntities((table) => table);
+		await User.create()
+			.item({ pk: { userId: "u1" }, sk: { profileId: "main" }, name: "Ada" })
+			.exec();
+		await Account.create()
+			.item({ pk: { userId: "u1" }, sk: { accountId: "acc" }, balance: 10 })
+			.exec();
+
+		expect(client.items("single-table").map((item) => item._et)).toEqual(["User", "Account"]);
+
+		const [users, error] = await User.query().pk({ userId: "u1" }).sk("begins_with", "PROFILE#").exec();
+		expect(error).toBeNull();
+		expect(users?.items).toEqual([{ pk: "USER#u1", sk: "PROFILE#main", name: "Ada" }]);
+
+		const [foreign] = await User.get().key({ userId: "u1", profileId: "acc" }).exec();
+		expect(foreign).toBeNull();
+
+		const [batch] = await Account.batchGet()
+			.keys([
+				{ userId: "u1", accountId: "main" },
+				{ userId: "u1", accountId: "acc" },
+			])
+			.exec();
+		expect(batch?.items.map((item) => item.balance)).toEqual([10]);
+	});
+
+	it("should stamp the type on updates and accept items written without one", async () => {
+		const { client, User } = createEntities((table) => table.entityType("kind"));
+		await client.send(
+			new PutCommand({ TableName: "single-table", Item: { pk: "USER#u1", sk: "PROFILE#legacy", name: "Legacy" } }),
+		);
+
+		const [legacy] = await User.get().key({ userId: "u1", profileId: "legacy" }).exec();
+		expect(legacy?.name).toBe("Legacy");
+
+		await User.update().key({ userId: "u1", profileId: "legacy" }).set({ name: "Migrated" }).exec();
+		expect(client.items("single-table")[0]).toMatchObject({ kind: "User", name: "Migrated" });
+	});
+
+	it("should not write the attribute when disabled", async () => {
+		const { client, User } = createEntities((table) => table.entityType(false));
+		await User.create()
+			.item({ pk: { userId: "u1" }, sk: { profileId: "main" }, name: "Ada" })
+			.exec();
+
+		expect(client.items("single-table")).toEqual([{ pk: "USER#u1", sk: "PROFILE#main", name: "Ada" }]);
+	});
+});
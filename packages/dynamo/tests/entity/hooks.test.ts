@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { Entity, type EntityHooks, EntityValidationError, InMemoryClient, Table, zdynamo } from "../../src/index.js";
+
+const schema = {
+	pk: zdynamo.partitionKey("BOARD#{boardId}", { boardId: z.string() }),
+	sk: zdynamo.sortKey("TASK#{taskId}", { taskId: z.string() }),
+	title: z.string(),
+	slug: z.string().optional(),
+	editedBy: z.string().optional(),
+};
+
+const createTasks = (hooks: EntityHooks<z.ZodObject<typeof schema>>) => {
+	const client = new InMemoryClient();
+	const table = Table.connect("tasks").client(client).build();
+	const Task = Entity.define("Task").table(table).schema(schema, { hooks });
+	return { client, Task };
+};
+
+const task = (taskId: string, title = "Write docs") => ({ pk: { boardId: "b1" }, sk: { taskId }, title });
+const key = (taskId: string) => ({ boardId: "b1", taskId });
+
+describe("Entity hooks", () => {
+	it("should let before hooks derive fields and after hooks observe the result", async () => {
+		const events: string[] = [];
+		const { client, Task } = createTasks({
+			beforeCreate: async (item) => ({ ...item, slug: item.title.toLowerCase().replace(/\s+/g, "-") }),
+			afterCreate: (item, context) => {
+				events.push(`${context.operation}:${item.slug}`);
+			},
+			beforeUpdate: (updates) => ({ ...updates, editedBy: "system" }),
+			afterUpdate: (item) => {
+				events.push(`update:${item?.title}`);
+			},
+			beforeDelete: (deleteKey) => {
+				events.push(`delete:${deleteKey.sk}`);
+			},
+			afterDelete: (item) => {
+				events.push(`deleted:${item?.title}`);
+			},
+		});
+
+		const [created] = await Task.create().item(task("t1")).exec();
+		expect(created?.slug).toBe("write-docs");
+		const [updated] = await Task.update().key(key("t1")).set({ title: "Review" }).exec();
+		expect(updated?.editedBy).toBe("system");
+		await Task.delete().key(key("t1")).exec();
+
+		expect(events).toEqual(["create:write-docs", "update:Review", "delete:TASK#t1", "deleted:Review"]);
+		expect(client.items("tasks")).toEqual([]);
+	});
+
+	it("should reject the operation when a before hook throws", async () => {
+		const { client, Task } = createTasks({
+			beforeCreate: (item) => {
+				if (item.title.length < 3) throw new Error("title too short");
+				return item;
+			},
+			beforeDelete: () => {
+				throw new EntityValidationError("tasks cannot be deleted");
+			},
+		});
+
+		const [, rejected] = await Task.create().item(task("t1", "no")).exec();
+		expect(rejected).toMatchObject({ code: "HOOK_REJECTED", hook: "beforeCreate" });
+		expect(rejected?.message).toBe("Hook 'beforeCreate' rejected the operation: title too short");
+		expect(client.items("tasks")).toEqual([]);
+
+		await Task.create().item(task("t1")).exec();
+		const [, denied] = await Task.delete().key(key("t1")).exec();
+		expect(denied?.code).toBe("ENTITY_VALIDATION_ERROR");
+		expect(client.items("tasks")).toHaveLength(1);
+	});
+
+	it("should run afterLoad on get, query and batchGet", async () => {
+		const { Task } = createTasks({ afterLoad: (item) => ({ ...item, title: item.title.toUpperCase() }) });
+		await Task.create().item(task("t1")).exec();
+		await Task.create().item(task("t2", "Ship it")).exec();
+
+		const [item] = await Task.get().key(key("t1")).exec();
+		const [queried] = await Task.query().pk({ boardId: "b1" }).exec();
+		const [batch] = await Task.batchGet()
+			.keys([key("t2")])
+			.exec();
+
+		expect(item?.title).toBe("WRITE DOCS");
+		expect(queried?.items.map((loaded) => loaded.title)).toEqual(["WRITE DOCS", "SHIP IT"]);
+		expect(batch?.items.map((loaded) => loaded.title)).toEqual(["SHIP IT"]);
+	});
+
+	it("should run the hooks of every transaction write", async () => {
+		const events: string[] = [];
+		const { client, Task } = createTasks({
+			beforeCreate: (item) => ({ ...item, slug: "from-hook" }),
+			afterCreate: (item) => {
+				events.push(`created:${item.sk}`);
+			},
+			beforeUpdate: (updates, context) => {
+				events.push(`update:${context.key?.sk}`);
+				return updates;
+			},
+			afterDelete: (item, context) => {
+				events.push(`deleted:${context.key?.sk}:${item}`);
+			},
+		});
+		await Task.create().item(task("t1")).exec();
+		events.length = 0;
+
+		await Task.transaction().put(task("t2")).update(key("t1"), { title: "Moved" }).delete(key("t3")).exec();
+
+		expect(events).toEqual(["update:TASK#t1", "created:TASK#t2", "deleted:TASK#t3:null"]);
+		expect(client.items("tasks").find((stored) => stored.sk === "TASK#t2")?.slug).toBe("from-hook");
+	});
+});
@@ -0,0 +1,115 @@
+import { PutCommand } from "@aws-sdk/lib-dynamodb";
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { Entity, InMemoryClient, type Middleware, Table, zdynamo } from "../../src/index.js";
+
+const createUsers = (writeBack = false, middleware: Middleware[] = []) => {
+	const client = new InMemoryClient();
+	const table = Table.connect("users").client(client).build();
+	const User = Entity.define("User")
+		.table(table)
+		.schema(
+			{
+				pk: zdynamo.partitionKey("USER#{userId}", { userId: z.string() }),
+				sk: zdynamo.sortKey("PROFILE", {}),
+				firstName: z.string(),
+				lastName: z.string(),
+				status: z.enum(["ACTIVE", "INACTIVE"]),
+			},
+			{
+				schemaVersion: {
+					migrations: [
+						// v0 -> v1: split the full name
+						({ name, ...item }) => {
+							const [firstName, ...rest] = String(name).split(" ");
+							return { ...item, firstName, lastName: rest.join(" ") };
+						},
+						// v1 -> v2: add the status
+						(item) => ({ status: "ACTIVE", ...item }),
+					],
+					writeBack,
+				},
+				middleware,
+			},
+		);
+	const seed = (userId: string, attributes: Record<string, unknown>) =>
+		client.send(new PutCommand({ TableName: "users", Item: { pk: `USER#${userId}`, sk: "PROFILE", ...attributes } }));
+	return { client, User, seed };
+};
+
+describe("Schema versioning", () => {
+	it("should stamp the current schema version on created items", async () => {
+		const { client, User } = createUsers();
+
+		await User.create()
+			.item({ pk: { userId: "u1" }, sk: {}, firstName: "Ada", lastName: "Lovelace", status: "ACTIVE" })
+			.exec();
+
+		expect(client.items("users")[0]?._sv).toBe(2);
+	});
+
+	it("should migrate older items on read", async () => {
+		const { client, User, seed } = createUsers();
+		await seed("u1", { name: "Ada King Lovelace" });
+		await seed("u2", { firstName: "Alan", lastName: "Turing", _sv: 1 });
+
+		const [ada, error] = await User.get().key({ userId: "u1" }).exec();
+		const [all] = await User.query().pk({ userId: "u2" }).exec();
+
+		expect(error).toBeNull();
+		expect(ada).toMatchObject({ firstName: "Ada", lastName: "King Lovelace", status: "ACTIVE" });
+		expect(all?.items[0]).toMatchObject({ firstName: "Alan", status: "ACTIVE" });
+		expect(client.items("users")[0]).toMatchObject({ name: "Ada King Lovelace" });
+	});
+
+	it("should write migrated items back when asked", async () => {
+		const { client, User, seed } = createUsers(true);
+		await seed("u1", { name: "Ada Lovelace" });
+
+		await User.batchGet()
+			.keys([{ userId: "u1" }])
+			.exec();
+
+		expect(client.items("users")[0]).toEqual({
+			pk: "USER#u1",
+			sk: "PROFILE",
+			firstName: "Ada",
+			lastName: "Lovelace",
+			status: "ACTIVE",
+			_et: "User",
+			_sv: 2,
+		});
+	});
+
+	it("should send write-backs as migrate writes", async () => {
+		const operations: string[] = [];
+		const { User, seed } = createUsers(true, [
+			async (context, next) => {
+				operations.push(context.operation);
+				return next();
+			},
+		]);
+		await seed("u1", { name: "Ada Lovelace" });
+
+		await User.get().key({ userId: "u1" }).exec();
+
+		expect(operations).toEqual(["get", "migrate"]);
+	});
+
+	it("should not write back items changed since the read", async () => {
+		const { client, User, seed } = createUsers(true, [
+			// Another writer updates the item between the read and the write-back
+			async (context, next) => {
+				if (context.input.Item && "firstName" in context.input.Item) await seed("u1", { name: "Grace Hopper" });
+				return next();
+			},
+		]);
+		await seed("u1", { name: "Ada Lovelace" });
+
+		const [user, error] = await User.get().key({ userId: "u1" }).exec();
+
+		expect(error).toBeNull();
+		expect(user?.firstName).toBe("Ada");
+		expect(client.items("users")[0]).toMatchObject({ name: "Grace Hopper" });
+	});
+});
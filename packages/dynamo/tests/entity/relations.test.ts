@@ -0,0 +1,133 @@
+import { describe, expect, expectTypeOf, it } from "vitest";
+import { z } from "zod";
+import { Entity, InMemoryClient, type Middleware, Relation, Table, zdynamo } from "../../src/index.js";
+
+const createApp = () => {
+	const client = new InMemoryClient();
+	const requests: string[] = [];
+	const record: Middleware = (context, next) => {
+		requests.push("RequestItems" in context.input ? "BatchGetItem" : "Query");
+		return next();
+	};
+	const table = Table.connect("app")
+		.client(client)
+		.gsis([{ alias: "byTeam", indexName: "gsi1", partitionKey: "gsi1Pk", sortKey: "gsi1Sk" }])
+		.use(record)
+		.build();
+	const UserEntity = Entity.define("User")
+		.table(table)
+		.schema({
+			pk: zdynamo.partitionKey("USER#{userId}", { userId: z.string() }),
+			sk: zdynamo.sortKey("PROFILE", {}),
+			gsi1Pk: zdynamo.derivedKey("TEAM#{teamId}", { teamId: z.string() }),
+			gsi1Sk: zdynamo.derivedKey("USER#{name}", { name: z.string() }),
+			name: z.string(),
+			teamId: z.string().optional(),
+		});
+	const AccountEntity = Entity.define("Account")
+		.table(table)
+		.schema({
+			pk: zdynamo.partitionKey("USER#{userId}", { userId: z.string() }),
+			sk: zdynamo.sortKey("ACCOUNT#{accountId}", { accountId: z.string() }),
+			balance: z.number(),
+		});
+	const TeamEntity = Entity.define("Team")
+		.table(table)
+		.schema({
+			pk: zdynamo.partitionKey("TEAM#{teamId}", { teamId: z.string() }),
+			sk: zdynamo.sortKey("PROFILE", {}),
+			title: z.string(),
+		});
+	const User = UserEntity.relate({
+		accounts: Relation.hasMany(AccountEntity, { pk: "USER#{userId}", sk: "ACCOUNT#" }),
+		team: Relation.belongsTo(TeamEntity, { pk: "TEAM#{teamId}", sk: "PROFILE" }),
+	});
+	const Account = AccountEntity.relate({
+		owner: Relation.belongsTo(UserEntity, { pk: "USER#{userId}", sk: "PROFILE" }),
+	});
+	const Team = TeamEntity.relate({
+		members: Relation.hasMany(UserEntity, { pk: "TEAM#{teamId}", index: "byTeam" }),
+	});
+	return { client, table, requests, User, Account, Team };
+};
+
+const seed = async ({ User, Account, Team }: ReturnType<typeof createApp>) => {
+	await Team.create()
+		.item({ pk: { teamId: "t1" }, sk: {}, title: "Core" })
+		.exec();
+	await User.create()
+		.item({ pk: { userId: "u1" }, sk: {}, name: "Ada", teamId: "t1" })
+		.exec();
+	await User.create()
+		.item({ pk: { userId: "u2" }, sk: {}, name: "Alan" })
+		.exec();
+	for (const accountId of ["a1", "a2"]) {
+		await Account.create()
+			.item({ pk: { userId: "u1" }, sk: { accountId }, balance: 10 })
+			.exec();
+	}
+};
+
+describe("Relationships", () => {
+	it("should nest the related items of a get under the relationship names", async () => {
+		const app = createApp();
+		await seed(app);
+
+		const [user, error] = await app.User.get().key({ userId: "u1" }).include("accounts", "team").exec();
+		const [loner] = await app.User.get().key({ userId: "u2" }).include("accounts", "team").exec();
+		const [plain] = await app.User.get().key({ userId: "u1" }).exec();
+
+		expect(error).toBeNull();
+		expect(user?.accounts.map((account) => account.sk)).toEqual(["ACCOUNT#a1", "ACCOUNT#a2"]);
+		expect(user?.team).toMatchObject({ pk: "TEAM#t1", title: "Core" });
+		// Without a teamId there is no team to look up
+		expect(loner).toMatchObject({ accounts: [], team: null });
+		expect(plain).not.toHaveProperty("accounts");
+	});
+
+	it("should batch the lookups of every item in a query page", async () => {
+		const app = createApp();
+		await seed(app);
+		app.requests.length = 0;
+
+		const [result] = await app.Account.query().pk({ userId: "u1" }).include("owner").exec();
+
+		expect(result?.items.map((account) => account.owner?.name)).toEqual(["Ada", "Ada"]);
+		expect(app.requests).toEqual(["Query", "BatchGetItem"]);
+	});
+
+	it("should resolve relationships through a secondary index", async () => {
+		const app = createApp();
+		await seed(app);
+
+		const [team] = await app.Team.get().key({ teamId: "t1" }).include("members").exec();
+
+		expect(team?.members.map((member) => member.name)).toEqual(["Ada"]);
+	});
+
+	it("should type the included relationships", async () => {
+		const { User, Account } = createApp();
+
+		const [user] = await User.get().key({ userId: "u1" }).include("accounts").exec();
+		const [result] = await Account.query().pk({ userId: "u1" }).include("owner").exec();
+
+		expectTypeOf(user?.accounts).toEqualTypeOf<{ pk: string; sk: string; balance: number }[] | undefined>();
+		expectTypeOf(result?.items[0]?.owner?.name).toEqualTypeOf<string | undefined>();
+		// @ts-expect-error - not a relationship of the entity
+		expect(() => User.get().include("owner")).toThrow("Relation 'owner' not found");
+	});
+
+	it("should reject relationships to entities of other tables", () => {
+		const { User } = createApp();
+		const Other = Entity.define("Other")
+			.table(Table.connect("other").client(new InMemoryClient()).build())
+			.schema({
+				pk: zdynamo.partitionKey("OTHER#{otherId}", { otherId: z.string() }),
+				sk: zdynamo.sortKey("PROFILE", {}),
+			});
+
+		expect(() => User.relate({ others: Relation.hasMany(Other, { pk: "OTHER#{userId}" }) })).toThrow(
+			"on table 'other', not 'app'",
+		);
+	});
+});
@@ -0,0 +1,158 @@
+import { z } from "zod";
+import { Entity, InMemoryClient, type Middleware, Table, type TimestampsConfig, zdynamo } from "../../src/index.js";
+
+export interface MemoryTableOptions {
+	caseStyle?: "snakeCase";
+	timestamps?: boolean | TimestampsConfig;
+	middleware?: Middleware[];
+}
+
+export const createMemoryTable = ({ caseStyle, timestamps = false, middleware = [] }: MemoryTableOptions = {}) => {
+	const client = new InMemoryClient();
+	const table = Table.connect("memory-table")
+		.client(client)
+		.options({ caseStyle })
+		.timestamps(timestamps)
+		.gsis([
+			{
+				alias: "byStatus",
+				indexName: "gsi1",
+				partitionKey: "gsi1Pk",
+				sortKey: "gsi1Sk",
+				projectionType: "ALL",
+			},
+			{ alias: "byOrganization", indexName: "gsi2", partitionKey: "GSI2PK" },
+		])
+		.use(...middleware)
+		.build();
+
+	const OrderEntity = Entity.define("Order")
+		.table(table)
+		.schema({
+			pk: zdynamo.partitionKey("CUSTOMER#{customerId}", { customerId: z.string() }),
+			sk: zdynamo.sortKey("ORDER#{orderId}", { orderId: z.string() }),
+			orderId: z.string(),
+			total: z.number(),
+			status: z.enum(["OPEN", "PAID"]),
+			gsi1Pk: zdynamo.gsiPartitionKey("STATUS#{status}", { status: z.enum(["OPEN", "PAID"]) }),
+			gsi1Sk: zdynamo.gsiSortKey("ORDER#{orderId}", { orderId: z.string() }),
+		});
+
+	// Shares the partitions of the customer's orders
+	const CustomerEntity = Entity.define("Customer")
+		.table(table)
+		.schema({
+			pk: zdynamo.partitionKey("CUSTOMER#{customerId}", { customerId: z.string() }),
+			sk: zdynamo.sortKey("PROFILE", {}),
+			name: z.string(),
+		});
+
+	// Managed timestamps only (on tables that enable them)
+	const DocEntity = Entity.define("Doc")
+		.table(table)
+		.schema({
+			pk: zdynamo.partitionKey("DOC#{docId}", { docId: z.string() }),
+			sk: zdynamo.sortKey("V", {}),
+			title: z.string(),
+			createdAt: zdynamo.timestamp(),
+			updatedAt: zdynamo.timestamp(),
+		});
+
+	// Optimistic locking only
+	const AccountEntity = Entity.define("Account")
+		.table(table)
+		.schema(
+			{
+				pk: zdynamo.partitionKey("ACCOUNT#{accountId}", { accountId: z.string() }),
+				sk: zdynamo.sortKey("BALANCE", {}),
+				balance: z.number(),
+				version: z.number().optional(),
+			},
+			{ version: "version" },
+		);
+
+	// Unique email only
+	const UserEntity = Entity.define("User")
+		.table(table)
+		.schema(
+			{
+				pk: zdynamo.partitionKey("USER#{userId}", { userId: z.string() }),
+				sk: zdynamo.sortKey("PROFILE", {}),
+				email: z.string(),
+				name: z.string(),
+			},
+			{ unique: ["email"] },
+		);
+
+	// Versioned, with a unique field and managed timestamps (on tables that enable them)
+	const ProfileEntity = Entity.define("Profile")
+		.table(table)
+		.schema(
+			{
+				pk: zdynamo.partitionKey("USER#{userId}", { userId: z.string() }),
+				sk: zdynamo.sortKey("PROFILE", {}),
+				email: z.string().email(),
+				name: z.string(),
+				bio: z.string().optional(),
+				version: z.number().optional(),
+				createdAt: zdynamo.timestamp(),
+				updatedAt: zdynamo.timestamp(),
+			},
+			{ version: "version", unique: ["email"], schemaVersion: { migrations: [(item) => item] } },
+		);
+
+	// Fields stored under aliases, including its version and a derived index key
+	const MemberEntity = Entity.define("Member")
+		.table(table)
+		.schema(
+			{
+				pk: zdynamo.partitionKey("MEMBER#{memberId}", { memberId: z.string() }),
+				sk: zdynamo.sortKey("PROFILE", {}),
+				organizationId: zdynamo.alias("oid", z.string()),
+				displayName: z.string(),
+				preferences: z.object({ darkMode: z.boolean() }).optional(),
+				revision: zdynamo.alias("rev", z.number().optional()),
+				orgKey: zdynamo.alias("GSI2PK", zdynamo.derivedKey("ORG#{organizationId}", { organizationId: z.string() })),
+			},
+			{ version: "revision" },
+		);
+
+	/** Stored items of one entity type (`UNIQUE` for the sentinels of unique values) */
+	const stored = (entityType: string) => client.items("memory-table").filter((item) => item._et === entityType);
+	/** Keys of the sentinel items holding unique values */
+	const sentinels = () => stored("UNIQUE").map((item) => item.pk);
+
+	return {
+		client,
+		table,
+		OrderEntity,
+		CustomerEntity,
+		DocEntity,
+		AccountEntity,
+		UserEntity,
+		ProfileEntity,
+		MemberEntity,
+		stored,
+		sentinels,
+	};
+};
+
+export const orderInput = (orderId: string, total = 10, status: "OPEN" | "PAID" = "OPEN", customerId = "c1") => ({
+	pk: { customerId },
+	sk: { orderId },
+	orderId,
+	total,
+	status,
+	gsi1Pk: { status },
+	gsi1Sk: { orderId },
+});
+
+export const profileInput = (userId = "u1", fields: { email?: string; name?: string; bio?: string } = {}) => ({
+	pk: { userId },
+	sk: {},
+	email: `${userId}@example.com`,
+	name: "Ada",
+	...fields,
+});
+
+export const userInput = (userId: string, email: string) => ({ pk: { userId }, sk: {}, email, name: userId });
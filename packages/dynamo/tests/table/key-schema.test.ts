@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { Entity, InMemoryClient, Table, zdynamo } from "../../src/index.js";
+
+describe("Table key schema", () => {
+	it("should map pk/sk onto custom key attribute names", async () => {
+		const client = new InMemoryClient();
+		const table = Table.connect("legacy-table")
+			.client(client)
+			.options({ caseStyle: "snakeCase" })
+			.keys({ partitionKey: { name: "PK" }, sortKey: { name: "SK" } })
+			.build();
+		const Tenant = Entity.define("Tenant")
+			.table(table)
+			.schema({
+				pk: zdynamo.partitionKey("TENANT#{tenantId}", { tenantId: z.string() }),
+				sk: zdynamo.sortKey("PROFILE", {}),
+				displayName: z.string(),
+			});
+
+		await Tenant.create()
+			.item({ pk: { tenantId: "t1" }, sk: {}, displayName: "Acme" })
+			.exec();
+		expect(client.items("legacy-table")).toEqual([
+			{ PK: "TENANT#t1", SK: "PROFILE", display_name: "Acme", _et: "Tenant" },
+		]);
+
+		const [found] = await Tenant.get().key({ tenantId: "t1" }).exec();
+		expect(found).toEqual({ pk: "TENANT#t1", sk: "PROFILE", displayName: "Acme" });
+
+		const [result] = await Tenant.query().pk({ tenantId: "t1" }).sk("=", "PROFILE").exec();
+		expect(result?.items).toHaveLength(1);
+	});
+
+	it("should support partition-key-only tables with numeric keys", async () => {
+		const client = new InMemoryClient();
+		const table = Table.connect("counters").client(client).keys({ partitionKey: { name: "id", type: "N" } }).build();
+		const Counter = Entity.define("Counter")
+			.table(table)
+			.schema({
+				pk: zdynamo.partitionKey("{id}", { id: z.number() }),
+				value: z.number(),
+			});
+
+		await Counter.create().item({ pk: { id: 42 }, value: 1 }).exec();
+		expect(client.items("counters")).toEqual([{ id: 42, value: 1, _et: "Counter" }]);
+
+		const [found] = await Counter.get().key({ id: 42 }).exec();
+		expect(found).toEqual({ pk: "42", value: 1 });
+	});
+
+	it("should reject a sort key on a partition-key-only table", () => {
+		const table = Table.connect("counters").client(new InMemoryClient()).keys({ partitionKey: { name: "id" } }).build();
+		expect(() =>
+			Entity.define("Broken")
+				.table(table)
+				.schema({
+					pk: zdynamo.partitionKey("{id}", { id: z.string() }),
+					sk: zdynamo.sortKey("X", {}),
+				}),
+		).toThrow(/no sort key/);
+	});
+});
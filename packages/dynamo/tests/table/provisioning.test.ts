@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { InMemoryClient, Table } from "../../src/index.js";
+
+const buildTable = (client: InMemoryClient) =>
+	Table.connect("provisioned-table")
+		.client(client)
+		.gsis([
+			{ alias: "byStatus", indexName: "gsi1", partitionKey: "gsi1Pk", sortKey: "gsi1Sk" },
+			{
+				alias: "byEmail",
+				indexName: "gsi2",
+				partitionKey: "gsi2Pk",
+				projectionType: "INCLUDE",
+				projectedAttributes: ["email"],
+			},
+		])
+		.build();
+
+describe("Table provisioning", () => {
+	it("should create a missing table with its GSIs", async () => {
+		const client = new InMemoryClient({ autoCreateTables: false });
+		const table = buildTable(client);
+
+		const [before] = await table.diff();
+		expect(before).toMatchObject({ exists: false, inSync: false });
+
+		const [result, error] = await table.ensureTable({ pollIntervalMs: 1 });
+		expect(error).toBeNull();
+		expect(result?.created).toBe(true);
+
+		const [after] = await table.diff();
+		expect(after).toMatchObject({ exists: true, inSync: true, drifts: [] });
+	});
+
+	it("should report and apply GSI drift", async () => {
+		const client = new InMemoryClient();
+		const table = buildTable(client);
+		client.defineTable({
+			tableName: "provisioned-table",
+			partitionKey: "pk",
+			sortKey: "sk",
+			gsis: [
+				{ alias: "gsi2", partitionKey: "gsi2Pk", projectionType: "KEYS_ONLY" },
+				{ alias: "legacy", partitionKey: "legacyPk" },
+			],
+		});
+
+		const [diff] = await table.diff();
+		expect(diff?.drifts.map((drift) => [drift.type, drift.indexName])).toEqual([
+			["GSI_MISSING", "gsi1"],
+			["GSI_PROJECTION_MISMATCH", "gsi2"],
+			["GSI_UNDECLARED", "legacy"],
+		]);
+
+		const [safe] = await table.ensureTable({ pollIntervalMs: 1 });
+		expect(safe?.applied.map((drift) => drift.type)).toEqual(["GSI_MISSING"]);
+		expect(safe?.pending.map((drift) => drift.type)).toEqual(["GSI_PROJECTION_MISMATCH", "GSI_UNDECLARED"]);
+
+		await table.ensureTable({ pollIntervalMs: 1, recreateMismatchedIndexes: true, dropUndeclaredIndexes: true });
+		const [after] = await table.diff();
+		expect(after?.inSync).toBe(true);
+	});
+});